@@ -0,0 +1,24 @@
+/**
+ * Billing API: `GET /accounts/<account number>`
+ *
+ * Answers with the account in the shape the web app maps from
+ * (`mapApiResponseToAccount` in `src/lib/account-validation.ts`), or 404.
+ */
+
+import { Router } from 'express';
+import { findAccount } from './inventory.js';
+
+export function billingRouter(): Router {
+  const router = Router();
+
+  router.get('/accounts/:accountNumber', (req, res) => {
+    const account = findAccount(req.params.accountNumber);
+    if (!account) {
+      res.status(404).json({ error: `Account ${req.params.accountNumber} not found` });
+      return;
+    }
+    res.json(account);
+  });
+
+  return router;
+}
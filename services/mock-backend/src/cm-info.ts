@@ -0,0 +1,91 @@
+/**
+ * CM Info API: `GET /cm/info/<ip or mac>`
+ *
+ * Answers with the modem's SNMP view as a flat record keyed by MIB object
+ * name, as SpreeDB does. Per-channel objects are arrays in tenths (TenthdBmV,
+ * TenthdB) around the levels in the modem IP's profile; the codeword counters
+ * count up from the modem's boot at the profile's rate. A modem that is offline, or an IP with no
+ * modem, answers with an SNMP timeout in `error`; an unknown MAC is a 404.
+ * Also served at `/info/<ip or mac>`, for `VITE_CM_INFO_API_URL` set to the
+ * bare host.
+ */
+
+import { Router } from 'express';
+import { findModem, isIpv4, normalizeMac, type Modem } from './inventory.js';
+import { profileFor } from './profiles.js';
+
+// Corrected codewords per channel per minute on a clean plant
+const CORRECTED_PER_MINUTE = 20;
+
+// d:h:mm:ss.cc, as the modem reports sysUpTime
+function formatUptime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const hundredths = Math.floor((ms % 1000) / 10);
+  return `${days}:${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(hundredths).padStart(2, '0')}`;
+}
+
+// One value per channel, spread a little around the level, in tenths
+function perChannel(count: number, level: number, offsets: number[]): number[] {
+  return Array.from({ length: count }, (_, i) => Math.round(level * 10) + offsets[i % offsets.length]);
+}
+
+// A total split across channels, the remainder on the first ones
+function splitAcross(count: number, total: number): number[] {
+  return Array.from({ length: count }, (_, i) => Math.floor(total / count) + (i < total % count ? 1 : 0));
+}
+
+function cmInfoRecord(modem: Modem) {
+  const profile = profileFor(modem.ip);
+  const upMs = Date.now() - modem.bootedAt;
+  const upMinutes = upMs / 60000;
+  // Counted at the rate in force since the last read, so changing it never winds the counter back
+  const now = Date.now();
+  modem.uncorrectables += profile.uncorrectables_per_minute * ((now - modem.countedAt) / 60000);
+  modem.countedAt = now;
+  const uncorrectables = Math.floor(modem.uncorrectables);
+  const docsisVersion = modem.docsis === 'docsis31' ? '3.1' : '3.0';
+
+  return {
+    ipAddress: modem.ip,
+    ifPhysAddress: modem.mac,
+    sysDescr: `${modem.vendor} ${modem.model} DOCSIS ${docsisVersion} Cable Modem <<HW_REV: 1.0; VENDOR: ${modem.vendor}; BOOTR: 2.4.0; SW_REV: ${modem.firmware}; MODEL: ${modem.model}>>`,
+    sysName: modem.model,
+    sysUpTime: formatUptime(upMs),
+    docsIfDocsisBaseCapability: modem.docsis,
+    docsDevSerialNumber: modem.serial,
+    docsDevSwCurrentVers: modem.firmware,
+    docsIfDownChannelPower: perChannel(modem.downstreamChannels, profile.downstream_power_dbmv, [0, 3, -2, 5, -4]),
+    docsIfSigQSignalNoise: perChannel(modem.downstreamChannels, profile.downstream_snr_db, [0, -3, 2, -1]),
+    docsIfCmStatusTxPower: perChannel(modem.upstreamChannels, profile.upstream_power_dbmv, [0, 5, -5, 10]),
+    docsIfSigQCorrecteds: splitAcross(
+      modem.downstreamChannels,
+      Math.floor(CORRECTED_PER_MINUTE * modem.downstreamChannels * upMinutes) + uncorrectables * 10
+    ),
+    docsIfSigQUncorrectables: splitAcross(modem.downstreamChannels, uncorrectables),
+  };
+}
+
+export function cmInfoRouter(): Router {
+  const router = Router();
+
+  router.get(['/cm/info/:key', '/info/:key'], (req, res) => {
+    const { key } = req.params;
+    const modem = findModem(key);
+
+    if (!modem && !isIpv4(key) && normalizeMac(key)) {
+      res.status(404).json({ error: `No modem with MAC ${key}` });
+      return;
+    }
+    if (!modem || profileFor(modem.ip).offline) {
+      res.json({ error: 'SNMP Timeout' });
+      return;
+    }
+    res.json(cmInfoRecord(modem));
+  });
+
+  return router;
+}
@@ -0,0 +1,13 @@
+/**
+ * Mock backend configuration, read once from the environment at startup.
+ */
+
+export const PORT = parseInt(process.env.PORT || '4402', 10);
+
+// How long a ping the target does not answer takes to come back as a timeout
+export const PING_TIMEOUT_MS = parseInt(process.env.PING_TIMEOUT_MS || '1000', 10);
+
+// Profile every target starts with until the control API gives it its own
+export const DEFAULT_RTT_MS = parseFloat(process.env.DEFAULT_RTT_MS || '25');
+export const DEFAULT_JITTER_MS = parseFloat(process.env.DEFAULT_JITTER_MS || '10');
+export const DEFAULT_LOSS_PERCENT = parseFloat(process.env.DEFAULT_LOSS_PERCENT || '1');
@@ -0,0 +1,95 @@
+/**
+ * Scenario control API
+ *
+ * Mounted at `/mock`. Unauthenticated: the mock backend is for laptops and
+ * test environments only.
+ *
+ * - `GET /mock/profiles`: the default profile and every per-IP one
+ * - `PUT /mock/profiles/default`: change fields of the default profile
+ * - `PUT /mock/profiles/<ip>`: change fields of one IP's profile
+ * - `DELETE /mock/profiles/<ip>`: put the IP back on the default profile
+ * - `GET /mock/modems`: every modem known so far
+ * - `PUT /mock/modems/<mac>` with `{ "ip": "<new ip>" }`: move a modem
+ * - `POST /mock/reset`: default profiles and the fixture modems only
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { InventoryError, listModems, moveModem, resetModems } from './inventory.js';
+import {
+  ProfileError,
+  clearProfile,
+  listProfiles,
+  parseProfileChanges,
+  resetProfiles,
+  updateDefaultProfile,
+  updateProfile,
+} from './profiles.js';
+
+// Run the action and turn bad requests into JSON responses
+function handler(action: (req: Request, res: Response) => void) {
+  return (req: Request, res: Response) => {
+    try {
+      action(req, res);
+    } catch (error) {
+      if (error instanceof ProfileError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      if (error instanceof InventoryError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error(`Control request ${req.method} ${req.path} failed:`, error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Internal error' });
+    }
+  };
+}
+
+export function controlRouter(): Router {
+  const router = Router();
+
+  router.get('/profiles', handler((req, res) => {
+    res.json(listProfiles());
+  }));
+
+  router.put('/profiles/default', handler((req, res) => {
+    const profile = updateDefaultProfile(parseProfileChanges(req.body));
+    console.log('Default profile changed:', JSON.stringify(profile));
+    res.json(profile);
+  }));
+
+  router.put('/profiles/:ip', handler((req, res) => {
+    const profile = updateProfile(req.params.ip, parseProfileChanges(req.body));
+    console.log(`Profile for ${req.params.ip} changed:`, JSON.stringify(profile));
+    res.json(profile);
+  }));
+
+  router.delete('/profiles/:ip', handler((req, res) => {
+    if (!clearProfile(req.params.ip)) {
+      res.status(404).json({ error: `${req.params.ip} has no profile of its own` });
+      return;
+    }
+    console.log(`Profile for ${req.params.ip} cleared`);
+    res.status(204).end();
+  }));
+
+  router.get('/modems', handler((req, res) => {
+    res.json({ modems: listModems() });
+  }));
+
+  router.put('/modems/:mac', handler((req, res) => {
+    const ip = (req.body as { ip?: unknown } | undefined)?.ip;
+    const modem = moveModem(req.params.mac, typeof ip === 'string' ? ip : '');
+    console.log(`Modem ${modem.mac} moved to ${modem.ip}`);
+    res.json(modem);
+  }));
+
+  router.post('/reset', handler((req, res) => {
+    resetProfiles();
+    resetModems();
+    console.log('Profiles and modems reset');
+    res.status(204).end();
+  }));
+
+  return router;
+}
@@ -0,0 +1,66 @@
+/**
+ * Sound Check Mock Backend
+ *
+ * Stands in for the SpreeDB Billing, CM Info and Latency APIs on a laptop or
+ * in a test environment, so the web app (directly or through its preview
+ * proxy) and the poller can run end to end without the real services.
+ *
+ * Features:
+ * - Billing API: `GET /accounts/<account number>`
+ * - CM Info API: `GET /cm/info/<ip or mac>`, with signal levels and codeword counters
+ * - Latency API: `POST /ping` (and `/latency/ping`), answered after the simulated round trip
+ * - Per-IP scenario profiles for loss, latency, API errors and signal levels, set at runtime
+ * - Control API under `/mock` to change profiles and move modems to new IPs
+ * - Health check endpoint
+ */
+
+import express from 'express';
+import { PORT } from './config.js';
+import { billingRouter } from './billing.js';
+import { cmInfoRouter } from './cm-info.js';
+import { latencyRouter, getPingSnapshot } from './latency.js';
+import { controlRouter } from './control.js';
+import { listProfiles } from './profiles.js';
+import { listModems } from './inventory.js';
+
+const app = express();
+
+// The web app calls the APIs straight from the browser in development
+app.use((req, res, next) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept, Authorization');
+  if (req.method === 'OPTIONS') {
+    res.status(204).end();
+    return;
+  }
+  next();
+});
+
+app.use(express.json());
+app.use(billingRouter());
+app.use(cmInfoRouter());
+app.use(latencyRouter());
+app.use('/mock', controlRouter());
+
+app.get('/health', (req, res) => {
+  res.json({
+    status: 'healthy',
+    uptimeSeconds: Math.floor(process.uptime()),
+    targetProfiles: Object.keys(listProfiles().targets).length,
+    modems: listModems().length,
+    pings: getPingSnapshot(),
+  });
+});
+
+const server = app.listen(PORT, () => {
+  console.log(`Mock backend listening on port ${PORT}`);
+});
+
+function shutdown(signal: string): void {
+  console.log(`Received ${signal}, shutting down`);
+  server.close(() => process.exit(0));
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
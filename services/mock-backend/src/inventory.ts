@@ -0,0 +1,228 @@
+/**
+ * Accounts and modems the mock APIs know about
+ *
+ * A few fixtures match the in-browser mocks (`src/lib/mock-data.ts`), so the
+ * test account resolves to the same modem either way. Beyond those, any
+ * account number of a valid format is found, except ones ending in `0000`,
+ * and any IPv4 address has a modem, except ones ending in `.1`, so jobs can be
+ * pointed anywhere without setting anything up first. A modem made up for an
+ * IP keeps its MAC, so it can be looked up by either afterwards. An IP a
+ * modem has moved away from stays empty, so probes of the old address fail
+ * until the modem is looked up again by MAC.
+ */
+
+export interface BillingAccount {
+  account_number: string;
+  first_name: string;
+  last_name: string;
+  customer_type: 'RES' | 'BUS';
+  account_status: string;
+  service_address: { line1: string; city: string; state: string; zip: string };
+  email: Array<{ email_address: string; is_primary: boolean }>;
+  services: { video: boolean; hsd: boolean; phone: boolean };
+  node_id: string;
+  primary_phone_number: string;
+}
+
+export interface Modem {
+  mac: string;
+  ip: string;
+  vendor: string;
+  model: string;
+  serial: string;
+  firmware: string;
+  docsis: 'docsis30' | 'docsis31';
+  downstreamChannels: number;
+  upstreamChannels: number;
+  // When the modem last came up; uptime and codeword counters run from here
+  bootedAt: number;
+  // Uncorrectable codewords since boot, counted up to countedAt
+  uncorrectables: number;
+  countedAt: number;
+}
+
+export class InventoryError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const ACCOUNT_FIXTURES: BillingAccount[] = [
+  {
+    account_number: '123456789',
+    first_name: 'John',
+    last_name: 'Customer',
+    customer_type: 'RES',
+    account_status: 'Active',
+    service_address: { line1: '123 Main St', city: 'Anytown', state: 'ST', zip: '12345' },
+    email: [{ email_address: 'john.customer@example.com', is_primary: true }],
+    services: { video: true, hsd: true, phone: false },
+    node_id: 'ATN-0417',
+    primary_phone_number: '555-555-0142',
+  },
+  {
+    account_number: '8160000000000001',
+    first_name: 'Dana',
+    last_name: 'Rivera',
+    customer_type: 'BUS',
+    account_status: 'Active',
+    service_address: { line1: '400 Commerce Way', city: 'Anytown', state: 'ST', zip: '12346' },
+    email: [
+      { email_address: 'it@rivera-dental.example.com', is_primary: false },
+      { email_address: 'dana@rivera-dental.example.com', is_primary: true },
+    ],
+    services: { video: false, hsd: true, phone: true },
+    node_id: 'ATN-0822',
+    primary_phone_number: '555-555-0199',
+  },
+];
+
+const MODEM_FIXTURES: Array<Omit<Modem, 'bootedAt' | 'uncorrectables' | 'countedAt'>> = [
+  {
+    mac: '00:1A:2B:3C:4D:5E',
+    ip: '10.20.30.40',
+    vendor: 'ARRIS',
+    model: 'TG3452',
+    serial: 'AR1917TG0427',
+    firmware: 'TG3452_2.8.0.5_PROD',
+    docsis: 'docsis30',
+    downstreamChannels: 24,
+    upstreamChannels: 4,
+  },
+  {
+    mac: '10:A7:93:46:5A:FD',
+    ip: '10.20.30.41',
+    vendor: 'Technicolor',
+    model: 'CVA4004TCH1',
+    serial: 'CP2328AU049',
+    firmware: 'CVA4004TCH1-21.3-007-MT1-241129',
+    docsis: 'docsis31',
+    downstreamChannels: 32,
+    upstreamChannels: 8,
+  },
+];
+
+const ACCOUNT_FORMATS = [/^[123]\d{8}$/, /^8160\d{12}$/];
+const IPV4 = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+const accounts = new Map(ACCOUNT_FIXTURES.map(a => [a.account_number, a]));
+// By MAC, upper case with colons
+const modems = new Map<string, Modem>();
+// IPs modems have moved away from, which get no made-up modem
+const vacatedIps = new Set<string>();
+
+function addFixtureModems(): void {
+  const bootedAt = Date.now() - 2 * 24 * 60 * 60 * 1000;
+  for (const modem of MODEM_FIXTURES) {
+    modems.set(modem.mac, { ...modem, bootedAt, uncorrectables: 0, countedAt: bootedAt });
+  }
+}
+addFixtureModems();
+
+export function normalizeMac(value: string): string | null {
+  const hex = value.replace(/[^0-9a-f]/gi, '');
+  if (hex.length !== 12) return null;
+  return hex.toUpperCase().match(/.{2}/g)!.join(':');
+}
+
+export function isIpv4(value: string): boolean {
+  const match = IPV4.exec(value);
+  return match !== null && match.slice(1).every(octet => Number(octet) <= 255);
+}
+
+// A made-up account is the same every time it is asked for
+function generatedAccount(accountNumber: string): BillingAccount {
+  const suffix = accountNumber.slice(-4);
+  return {
+    account_number: accountNumber,
+    first_name: 'Test',
+    last_name: `Customer ${suffix}`,
+    customer_type: Number(suffix) % 5 === 0 ? 'BUS' : 'RES',
+    account_status: 'Active',
+    service_address: { line1: `${Number(suffix)} Elm St`, city: 'Anytown', state: 'ST', zip: '12345' },
+    email: [{ email_address: `customer${suffix}@example.com`, is_primary: true }],
+    services: { video: Number(suffix) % 2 === 0, hsd: true, phone: Number(suffix) % 3 === 0 },
+    node_id: `ATN-${suffix}`,
+    primary_phone_number: `555-555-${suffix}`,
+  };
+}
+
+export function findAccount(accountNumber: string): BillingAccount | null {
+  const known = accounts.get(accountNumber);
+  if (known) return known;
+  if (!ACCOUNT_FORMATS.some(format => format.test(accountNumber)) || accountNumber.endsWith('0000')) {
+    return null;
+  }
+  return generatedAccount(accountNumber);
+}
+
+// A locally administered MAC made from the IP, so it never clashes with a fixture
+function generatedModem(ip: string): Modem {
+  const octets = ip.split('.').map(Number);
+  return {
+    mac: ['02', '5C', ...octets.map(o => o.toString(16).padStart(2, '0').toUpperCase())].join(':'),
+    ip,
+    vendor: 'Technicolor',
+    model: 'CVA4004TCH1',
+    serial: `CP${octets.map(o => o.toString().padStart(3, '0')).join('')}`,
+    firmware: 'CVA4004TCH1-21.3-007-MT1-241129',
+    docsis: 'docsis31',
+    downstreamChannels: 32,
+    upstreamChannels: 4,
+    bootedAt: Date.now(),
+    uncorrectables: 0,
+    countedAt: Date.now(),
+  };
+}
+
+function modemAtIp(ip: string): Modem | null {
+  for (const modem of modems.values()) {
+    if (modem.ip === ip) return modem;
+  }
+  if (!isIpv4(ip) || ip.endsWith('.1') || vacatedIps.has(ip)) return null;
+
+  const modem = generatedModem(ip);
+  // The made-up MAC may belong to a modem that has since moved to another IP
+  if (modems.has(modem.mac)) return null;
+  modems.set(modem.mac, modem);
+  return modem;
+}
+
+// The modem at an IP, or with a MAC in any common notation
+export function findModem(key: string): Modem | null {
+  const mac = normalizeMac(key);
+  if (mac && !isIpv4(key)) return modems.get(mac) ?? null;
+  return modemAtIp(key);
+}
+
+// Give a modem a new IP, as a DHCP renewal after a reboot would
+export function moveModem(macKey: string, ip: string): Modem {
+  const mac = normalizeMac(macKey);
+  const modem = mac ? modems.get(mac) : undefined;
+  if (!modem) throw new InventoryError(404, `No modem with MAC ${macKey}`);
+  if (!isIpv4(ip)) throw new InventoryError(400, 'ip must be an IPv4 address');
+
+  const holder = [...modems.values()].find(m => m.ip === ip);
+  if (holder && holder !== modem) {
+    throw new InventoryError(409, `${ip} is already held by ${holder.mac}`);
+  }
+
+  if (modem.ip !== ip) vacatedIps.add(modem.ip);
+  vacatedIps.delete(ip);
+  modem.ip = ip;
+  modem.bootedAt = Date.now();
+  modem.uncorrectables = 0;
+  modem.countedAt = modem.bootedAt;
+  return modem;
+}
+
+export function listModems(): Modem[] {
+  return [...modems.values()];
+}
+
+// Forget made-up modems and put the fixtures back where they started
+export function resetModems(): void {
+  modems.clear();
+  vacatedIps.clear();
+  addFixtureModems();
+}
@@ -0,0 +1,61 @@
+/**
+ * Latency API: `POST /ping` with `{ "ip": "<target>" }`
+ *
+ * Answers as SpreeDB does, after the reply's round trip: `{ success: true,
+ * rtt_ms }`, or `{ success: false, error: 'Ping timeout' }` after
+ * `PING_TIMEOUT_MS` when the target does not answer. The target IP's profile
+ * decides which, and how often the request fails with a 503 instead. Also
+ * served at `/latency/ping`, where the web app's proxy sends it.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { PING_TIMEOUT_MS } from './config.js';
+import { findModem } from './inventory.js';
+import { profileFor } from './profiles.js';
+
+// Counts for the /health endpoint
+const outcomes = { success: 0, timeout: 0, api_error: 0 };
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function ping(req: Request, res: Response): Promise<void> {
+  const ip = (req.body as { ip?: unknown } | undefined)?.ip;
+  if (typeof ip !== 'string' || !ip) {
+    res.status(400).json({ success: false, error: 'ip is required' });
+    return;
+  }
+
+  const profile = profileFor(ip);
+  if (Math.random() * 100 < profile.api_error_percent) {
+    outcomes.api_error++;
+    res.status(503).json({ success: false, error: 'Service unavailable' });
+    return;
+  }
+
+  if (!findModem(ip) || profile.offline || Math.random() * 100 < profile.loss_percent) {
+    await sleep(PING_TIMEOUT_MS);
+    outcomes.timeout++;
+    res.json({ success: false, error: 'Ping timeout' });
+    return;
+  }
+
+  const rttMs = Math.round(Math.max(0.1, profile.rtt_ms + (Math.random() * 2 - 1) * profile.jitter_ms) * 100) / 100;
+  await sleep(rttMs);
+  outcomes.success++;
+  res.json({ success: true, rtt_ms: rttMs });
+}
+
+export function latencyRouter(): Router {
+  const router = Router();
+
+  router.post(['/ping', '/latency/ping'], ping);
+
+  return router;
+}
+
+// Snapshot for the /health endpoint
+export function getPingSnapshot() {
+  return { ...outcomes };
+}
@@ -0,0 +1,117 @@
+/**
+ * Per-target scenario profiles
+ *
+ * A profile decides how a target IP behaves: how its pings are answered by the
+ * Latency API and which signal levels the CM Info API reports for its modem.
+ * Every IP follows the default profile until the control API gives it one of
+ * its own. Profiles live in memory and are lost on restart.
+ */
+
+import { DEFAULT_JITTER_MS, DEFAULT_LOSS_PERCENT, DEFAULT_RTT_MS } from './config.js';
+
+export interface TargetProfile {
+  // Mean round-trip time, and how far either side of it a reply may land
+  rtt_ms: number;
+  jitter_ms: number;
+  // Pings the target does not answer (reported as a timeout)
+  loss_percent: number;
+  // Ping requests the API itself fails with a 503, as when SpreeDB is struggling
+  api_error_percent: number;
+  // The modem is gone: every ping times out and CM Info reports an SNMP timeout
+  offline: boolean;
+  // Signal levels, averaged across channels, and codeword errors per minute
+  downstream_power_dbmv: number;
+  downstream_snr_db: number;
+  upstream_power_dbmv: number;
+  uncorrectables_per_minute: number;
+}
+
+export class ProfileError extends Error {}
+
+const BUILT_IN_DEFAULT: TargetProfile = {
+  rtt_ms: DEFAULT_RTT_MS,
+  jitter_ms: DEFAULT_JITTER_MS,
+  loss_percent: DEFAULT_LOSS_PERCENT,
+  api_error_percent: 0,
+  offline: false,
+  downstream_power_dbmv: 2.5,
+  downstream_snr_db: 40,
+  upstream_power_dbmv: 42,
+  uncorrectables_per_minute: 0,
+};
+
+// Allowed range of each numeric field
+const RANGES: Record<Exclude<keyof TargetProfile, 'offline'>, [number, number]> = {
+  rtt_ms: [0, 60000],
+  jitter_ms: [0, 60000],
+  loss_percent: [0, 100],
+  api_error_percent: [0, 100],
+  downstream_power_dbmv: [-30, 30],
+  downstream_snr_db: [0, 60],
+  upstream_power_dbmv: [0, 70],
+  uncorrectables_per_minute: [0, 1_000_000],
+};
+
+let defaultProfile: TargetProfile = { ...BUILT_IN_DEFAULT };
+const targetProfiles = new Map<string, TargetProfile>();
+
+// Check a request body and keep only the profile fields it sets
+export function parseProfileChanges(body: unknown): Partial<TargetProfile> {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ProfileError('Profile must be a JSON object');
+  }
+
+  const changes: Partial<TargetProfile> = {};
+  for (const [field, value] of Object.entries(body)) {
+    if (field === 'offline') {
+      if (typeof value !== 'boolean') throw new ProfileError('offline must be true or false');
+      changes.offline = value;
+      continue;
+    }
+
+    const range = RANGES[field as keyof typeof RANGES];
+    if (!range) throw new ProfileError(`Unknown profile field: ${field}`);
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < range[0] || value > range[1]) {
+      throw new ProfileError(`${field} must be a number from ${range[0]} to ${range[1]}`);
+    }
+    changes[field as keyof typeof RANGES] = value;
+  }
+  return changes;
+}
+
+export function profileFor(ip: string): TargetProfile {
+  return targetProfiles.get(ip) ?? defaultProfile;
+}
+
+// Changes apply on top of what the target follows now
+export function updateProfile(ip: string, changes: Partial<TargetProfile>): TargetProfile {
+  const profile = { ...profileFor(ip), ...changes };
+  targetProfiles.set(ip, profile);
+  return profile;
+}
+
+export function clearProfile(ip: string): boolean {
+  return targetProfiles.delete(ip);
+}
+
+export function getDefaultProfile(): TargetProfile {
+  return defaultProfile;
+}
+
+export function updateDefaultProfile(changes: Partial<TargetProfile>): TargetProfile {
+  defaultProfile = { ...defaultProfile, ...changes };
+  return defaultProfile;
+}
+
+// Back to the built-in default, with no per-target profiles
+export function resetProfiles(): void {
+  defaultProfile = { ...BUILT_IN_DEFAULT };
+  targetProfiles.clear();
+}
+
+export function listProfiles() {
+  return {
+    default: defaultProfile,
+    targets: Object.fromEntries(targetProfiles),
+  };
+}
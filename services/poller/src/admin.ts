@@ -0,0 +1,226 @@
+/**
+ * Operator control API
+ *
+ * Mounted at `/admin` on the health server. Callers authenticate with the
+ * Bearer token of an admin user (as in the web app) or the service role key
+ * for scripts. Every action that changes something is written to
+ * `audit_logs` with the caller as actor.
+ *
+ * Pausing is stored on the job row, so it holds whichever replica owns the
+ * job and survives lease changes. Draining and force-completing act on this
+ * replica: a job can only be completed by its owner, which holds its
+ * buffered samples.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { supabase } from './supabase.js';
+import { REPLICA_NAME, SUPABASE_SERVICE_ROLE_KEY } from './config.js';
+
+interface Actor {
+  id: string | null;
+  name: string;
+}
+
+export interface OwnedJobInfo {
+  jobId: string;
+  nextFireAt: string | null;
+  pingInFlight: boolean;
+}
+
+// Replica operations the routes need from the service
+export interface AdminControls {
+  ownedJobs(): OwnedJobInfo[];
+  ownsJob(jobId: string): boolean;
+  pauseJob(jobId: string): void;
+  completeJob(jobId: string): Promise<boolean>;
+  drain(): Promise<void>;
+  undrain(): Promise<void>;
+  isDraining(): boolean;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+async function authenticate(req: Request): Promise<Actor> {
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) {
+    throw new HttpError(401, 'Unauthorized - missing auth header');
+  }
+
+  const token = authHeader.slice('Bearer '.length);
+  if (SUPABASE_SERVICE_ROLE_KEY && token === SUPABASE_SERVICE_ROLE_KEY) {
+    return { id: null, name: 'service_role' };
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) {
+    throw new HttpError(401, 'Unauthorized - invalid token');
+  }
+
+  const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: data.user.id, _role: 'admin' });
+  if (!isAdmin) {
+    throw new HttpError(403, 'Forbidden - admin role required');
+  }
+
+  return { id: data.user.id, name: data.user.email ?? data.user.id };
+}
+
+// Audit failures are logged, not returned; the action itself already happened
+async function audit(
+  actor: Actor,
+  action: string,
+  entity: { type: 'job'; id: string } | { type: 'poller_replica' },
+  details: Record<string, unknown> = {}
+): Promise<void> {
+  const { error } = await supabase.from('audit_logs').insert({
+    action,
+    entity_type: entity.type,
+    entity_id: entity.type === 'job' ? entity.id : null,
+    actor_id: actor.id,
+    actor_name: actor.name,
+    details: { replica: REPLICA_NAME, ...details },
+  });
+  if (error) {
+    console.error(`Failed to write audit log for ${action}:`, error);
+  }
+}
+
+// Optional free-text reason from the JSON body
+function reasonOf(req: Request): string | null {
+  const reason = (req.body as { reason?: unknown } | undefined)?.reason;
+  return typeof reason === 'string' && reason.trim() ? reason.trim() : null;
+}
+
+async function fetchJob(jobId: string): Promise<{ id: string; status: string; polling_paused_at: string | null }> {
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('id, status, polling_paused_at')
+    .eq('id', jobId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new HttpError(404, 'Job not found');
+  return data;
+}
+
+// Authenticate, run the action, and turn thrown errors into JSON responses
+function handler(action: (req: Request, res: Response, actor: Actor) => Promise<void>) {
+  return async (req: Request, res: Response) => {
+    try {
+      const actor = await authenticate(req);
+      await action(req, res, actor);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error(`Admin request ${req.method} ${req.path} failed:`, error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Internal error' });
+    }
+  };
+}
+
+export function adminRouter(controls: AdminControls): Router {
+  const router = Router();
+
+  router.get('/jobs', handler(async (req, res) => {
+    const owned = controls.ownedJobs();
+    const ids = owned.map(j => j.jobId);
+    const { data, error } = ids.length > 0
+      ? await supabase
+          .from('jobs')
+          .select('id, account_number, target_ip, probe_type, cadence_seconds, started_at, duration_minutes, polling_paused_at, polling_paused_by')
+          .in('id', ids)
+      : { data: [], error: null };
+    if (error) throw error;
+
+    const rows = new Map((data ?? []).map(row => [row.id as string, row]));
+    res.json({
+      replica: REPLICA_NAME,
+      draining: controls.isDraining(),
+      jobs: owned.map(job => ({ ...rows.get(job.jobId), ...job })),
+    });
+  }));
+
+  router.post('/jobs/:jobId/pause', handler(async (req, res, actor) => {
+    const { jobId } = req.params;
+    const job = await fetchJob(jobId);
+    if (job.status !== 'running') throw new HttpError(409, `Job is ${job.status}`);
+    if (job.polling_paused_at) {
+      res.json({ jobId, paused: true, pausedAt: job.polling_paused_at });
+      return;
+    }
+
+    const pausedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('jobs')
+      .update({ polling_paused_at: pausedAt, polling_paused_by: actor.name })
+      .eq('id', jobId);
+    if (error) throw error;
+
+    // Takes effect at once here; an owning replica elsewhere sees it on its next poll
+    controls.pauseJob(jobId);
+    await audit(actor, 'poller.job.pause', { type: 'job', id: jobId }, { reason: reasonOf(req) });
+    res.json({ jobId, paused: true, pausedAt });
+  }));
+
+  router.post('/jobs/:jobId/resume', handler(async (req, res, actor) => {
+    const { jobId } = req.params;
+    const job = await fetchJob(jobId);
+    if (!job.polling_paused_at) {
+      res.json({ jobId, paused: false });
+      return;
+    }
+
+    const { error } = await supabase
+      .from('jobs')
+      .update({ polling_paused_at: null, polling_paused_by: null })
+      .eq('id', jobId);
+    if (error) throw error;
+
+    await audit(actor, 'poller.job.resume', { type: 'job', id: jobId }, {
+      reason: reasonOf(req),
+      pausedAt: job.polling_paused_at,
+    });
+    res.json({ jobId, paused: false });
+  }));
+
+  router.post('/jobs/:jobId/complete', handler(async (req, res, actor) => {
+    const { jobId } = req.params;
+    const job = await fetchJob(jobId);
+    if (job.status !== 'running') throw new HttpError(409, `Job is ${job.status}`);
+
+    if (!controls.ownsJob(jobId)) {
+      const { data: lease } = await supabase
+        .from('job_leases')
+        .select('owner_id')
+        .eq('job_id', jobId)
+        .maybeSingle();
+      throw new HttpError(409, lease ? `Job is owned by replica ${lease.owner_id}` : 'Job is not leased by any replica');
+    }
+
+    if (!(await controls.completeJob(jobId))) {
+      throw new HttpError(503, 'Could not complete the job; buffered samples may not be stored yet');
+    }
+
+    await audit(actor, 'poller.job.force_complete', { type: 'job', id: jobId }, { reason: reasonOf(req) });
+    res.json({ jobId, status: 'completed' });
+  }));
+
+  router.post('/drain', handler(async (req, res, actor) => {
+    const released = controls.ownedJobs().length;
+    await controls.drain();
+    await audit(actor, 'poller.replica.drain', { type: 'poller_replica' }, { reason: reasonOf(req), released });
+    res.json({ replica: REPLICA_NAME, draining: true, released });
+  }));
+
+  router.delete('/drain', handler(async (req, res, actor) => {
+    await controls.undrain();
+    await audit(actor, 'poller.replica.undrain', { type: 'poller_replica' }, { reason: reasonOf(req) });
+    res.json({ replica: REPLICA_NAME, draining: false });
+  }));
+
+  return router;
+}
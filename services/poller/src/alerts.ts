@@ -0,0 +1,132 @@
+/**
+ * Server-side offline and recovery alerting
+ *
+ * Mirrors shouldTriggerOfflineAlert / shouldTriggerRecoveryAlert from the web
+ * app: five consecutive missed samples move a job from `ok` to
+ * `offline_alerted`, and five consecutive successes move it back. Each
+ * transition is persisted on the job, recorded as an `alerts` row when the job
+ * opted in, and delivered through the send-alert-email edge function.
+ *
+ * While the Latency API circuit breaker is open, Latency API jobs cannot go
+ * offline: their targets are not being measured at all.
+ */
+
+import { supabase } from './supabase.js';
+import { invokeFunction, jobDetailUrl } from './notifications.js';
+import { isBreakerOpen } from './latency-breaker.js';
+import { pendingForJob } from './wal.js';
+import type { Job, Sample, SampleStatus, AlertState } from './types.js';
+
+const ALERT_WINDOW = 5;
+
+// Most recent sample statuses per job, oldest first, at most ALERT_WINDOW long
+const recentStatusesByJob = new Map<string, SampleStatus[]>();
+// Alert state as last written by this replica; authoritative over stale job rows
+const alertStateByJob = new Map<string, AlertState>();
+
+type RecentSample = Pick<Sample, 'sequence_number' | 'status' | 'probe_sent_at'>;
+
+// Load the last few statuses before `current` for a job this replica has not
+// seen yet: the stored samples, plus any still in our buffer from before a
+// restart, which are newer than the stored ones and may overlap them
+async function loadRecentStatuses(jobId: string, current: Sample): Promise<SampleStatus[]> {
+  const { data, error } = await supabase
+    .from('samples')
+    .select('sequence_number, status, probe_sent_at')
+    .eq('job_id', jobId)
+    .order('probe_sent_at', { ascending: false })
+    .order('sequence_number', { ascending: false })
+    .limit(ALERT_WINDOW);
+
+  if (error) {
+    console.error(`Failed to load recent samples for job ${jobId}:`, error);
+  }
+
+  const bySequence = new Map<number, RecentSample>();
+  for (const row of (data ?? []) as RecentSample[]) bySequence.set(row.sequence_number, row);
+  for (const sample of pendingForJob(jobId)?.recent ?? []) {
+    if (sample.sequence_number !== current.sequence_number) bySequence.set(sample.sequence_number, sample);
+  }
+
+  return [...bySequence.values()]
+    .sort((a, b) =>
+      new Date(a.probe_sent_at).getTime() - new Date(b.probe_sent_at).getTime() ||
+      a.sequence_number - b.sequence_number)
+    .slice(-ALERT_WINDOW)
+    .map(s => s.status);
+}
+
+function windowIs(statuses: SampleStatus[], status: SampleStatus): boolean {
+  return statuses.length >= ALERT_WINDOW && statuses.every(s => s === status);
+}
+
+// Record a new (already buffered) sample for a job and fire any alert it triggers
+export async function evaluateAlerts(job: Job, sample: Sample): Promise<void> {
+  let statuses = recentStatusesByJob.get(job.id);
+  if (!statuses) {
+    statuses = await loadRecentStatuses(job.id, sample);
+    recentStatusesByJob.set(job.id, statuses);
+  }
+
+  statuses.push(sample.status);
+  if (statuses.length > ALERT_WINDOW) statuses.shift();
+
+  const currentState = alertStateByJob.get(job.id) ?? job.alert_state;
+
+  const suppressOffline = job.probe_type === 'latency_api' && isBreakerOpen();
+
+  if (currentState === 'ok' && windowIs(statuses, 'missed') && !suppressOffline) {
+    await transitionAlertState(job, 'offline_alerted', job.alert_on_offline ? 'offline' : null);
+  } else if (currentState === 'offline_alerted' && windowIs(statuses, 'success')) {
+    await transitionAlertState(job, 'ok', job.alert_on_recovery ? 'recovery' : null);
+  }
+}
+
+// Move a job to a new alert state; alertType is null when the job did not opt in
+async function transitionAlertState(job: Job, nextState: AlertState, alertType: 'offline' | 'recovery' | null): Promise<void> {
+  // Set locally first so a concurrent evaluation cannot fire the same alert twice
+  alertStateByJob.set(job.id, nextState);
+
+  const { error: stateError } = await supabase
+    .from('jobs')
+    .update({ alert_state: nextState })
+    .eq('id', job.id);
+
+  if (stateError) {
+    console.error(`Failed to update alert state for job ${job.id}:`, stateError);
+  }
+
+  if (!alertType) return;
+
+  console.log(`Job ${job.id}: ${alertType} alert triggered`);
+
+  const { data: alert, error: alertError } = await supabase
+    .from('alerts')
+    .insert({
+      job_id: job.id,
+      alert_type: alertType,
+      delivery_status: 'pending',
+    })
+    .select('id')
+    .single();
+
+  if (alertError || !alert) {
+    console.error(`Failed to record ${alertType} alert for job ${job.id}:`, alertError);
+    return;
+  }
+
+  const result = await invokeFunction('send-alert-email', {
+    alertId: alert.id,
+    jobDetailUrl: jobDetailUrl(job.id),
+  });
+
+  if (!result.ok) {
+    console.error(`Failed to send ${alertType} alert for job ${job.id}:`, result.error);
+  }
+}
+
+// Drop alert tracking for a job this replica no longer handles
+export function forgetAlertState(jobId: string): void {
+  recentStatusesByJob.delete(jobId);
+  alertStateByJob.delete(jobId);
+}
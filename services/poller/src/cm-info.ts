@@ -0,0 +1,34 @@
+/**
+ * SpreeDB CM Info API client
+ *
+ * `GET /cm/info/<ip or mac>` returns the modem's SNMP view as a flat record
+ * keyed by MIB object name. Per-channel objects (one value per bonded
+ * channel) come back as arrays.
+ */
+
+import { CM_INFO_API_URL, PROBE_TIMEOUT_MS } from './config.js';
+
+export type CmInfoValue = string | number | Array<string | number>;
+export type CmInfoRecord = Record<string, CmInfoValue | undefined> & { error?: string };
+
+// The modem's record, or null when the API does not know it (offline or deprovisioned)
+export async function fetchCmInfo(key: string): Promise<CmInfoRecord | null> {
+  const response = await fetch(`${CM_INFO_API_URL}/cm/info/${encodeURIComponent(key)}`, {
+    headers: { Accept: 'application/json' },
+    signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`CM Info API error: ${response.status}`);
+
+  const data = await response.json() as CmInfoRecord;
+  if (data.error) return null;
+  return data;
+}
+
+// Numeric values of an object, one per channel for per-channel objects
+export function numericValues(value: CmInfoValue | undefined): number[] {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value])
+    .map(Number)
+    .filter(Number.isFinite);
+}
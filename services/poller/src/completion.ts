@@ -0,0 +1,80 @@
+/**
+ * Completion email delivery
+ *
+ * When the poller completes a job it queues the job's `completion_email`
+ * alert row and asks the send-completion-email edge function to deliver it.
+ * The row is the idempotency key: the edge function claims it atomically, so
+ * retries (and a browser racing us) can never send twice. Rows left `pending`
+ * or `failed` are retried with exponential backoff by any replica, and so are
+ * rows stuck in `sending` by a sender that died holding the claim.
+ */
+
+import { supabase } from './supabase.js';
+import { invokeFunction, jobDetailUrl } from './notifications.js';
+import { COMPLETION_EMAIL_MAX_ATTEMPTS, COMPLETION_EMAIL_RETRY_BASE_MS } from './config.js';
+
+// How long a claim may sit in `sending` before claim_completion_email lets
+// another sender take it over; keep in step with that function
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+interface PendingEmail {
+  job_id: string;
+  attempts: number;
+  last_attempt_at: string | null;
+}
+
+// Queue and attempt delivery of a job's completion email
+export async function sendCompletionEmail(jobId: string): Promise<boolean> {
+  const { error } = await supabase.rpc('queue_completion_email', { p_job_id: jobId });
+  if (error) {
+    console.error(`Failed to queue completion email for job ${jobId}:`, error);
+  }
+
+  return deliverCompletionEmail(jobId);
+}
+
+async function deliverCompletionEmail(jobId: string): Promise<boolean> {
+  const result = await invokeFunction('send-completion-email', {
+    jobId,
+    jobDetailUrl: jobDetailUrl(jobId),
+  });
+
+  // 429 means the email was already delivered (or another sender holds the claim)
+  if (result.ok || result.status === 429) {
+    if (result.ok) console.log(`Completion email sent for job ${jobId}`);
+    return true;
+  }
+
+  console.error(`Completion email for job ${jobId} failed:`, result.error);
+  return false;
+}
+
+// Backoff before the next attempt: base, 2x base, 4x base, ...
+function isDueForRetry(email: PendingEmail): boolean {
+  if (!email.last_attempt_at) return true;
+  const backoff = COMPLETION_EMAIL_RETRY_BASE_MS * 2 ** Math.max(0, email.attempts - 1);
+  return Date.now() >= new Date(email.last_attempt_at).getTime() + backoff;
+}
+
+// Retry completion emails that are still pending, failed, or stale in sending
+export async function retryCompletionEmails(): Promise<void> {
+  const staleBefore = new Date(Date.now() - STALE_CLAIM_MS).toISOString();
+  const { data, error } = await supabase
+    .from('alerts')
+    .select('job_id, attempts, last_attempt_at')
+    .eq('alert_type', 'completion_email')
+    .or(`delivery_status.in.(pending,failed),and(delivery_status.eq.sending,last_attempt_at.lt.${staleBefore})`)
+    .lt('attempts', COMPLETION_EMAIL_MAX_ATTEMPTS)
+    .order('last_attempt_at', { ascending: true, nullsFirst: true })
+    .limit(50);
+
+  if (error) {
+    console.error('Failed to fetch pending completion emails:', error);
+    return;
+  }
+
+  for (const email of (data as PendingEmail[]).filter(isDueForRetry)) {
+    console.log(`Retrying completion email for job ${email.job_id} (attempt ${email.attempts + 1}/${COMPLETION_EMAIL_MAX_ATTEMPTS})`);
+    await deliverCompletionEmail(email.job_id);
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Poller configuration, read once from the environment at startup.
+ */
+
+import { hostname } from 'node:os';
+import { randomUUID } from 'node:crypto';
+
+export const PORT = parseInt(process.env.PORT || '3000', 10);
+export const POLL_INTERVAL_MS = parseInt(process.env.POLL_INTERVAL_MS || '5000', 10);
+export const BATCH_FLUSH_INTERVAL_MS = parseInt(process.env.BATCH_FLUSH_INTERVAL_MS || '2000', 10);
+export const BATCH_SIZE = parseInt(process.env.BATCH_SIZE || '100', 10);
+export const CONCURRENCY = parseInt(process.env.CONCURRENCY || '50', 10);
+export const LATENCY_API_URL = process.env.LATENCY_API_URL || 'http://localhost:4402';
+export const CM_INFO_API_URL = process.env.CM_INFO_API_URL || 'http://localhost:4402';
+
+// Probe drivers: how long to wait for a reply, and the ping binary for ICMP probes
+export const PROBE_TIMEOUT_MS = parseInt(process.env.PROBE_TIMEOUT_MS || '5000', 10);
+export const PING_BINARY = process.env.PING_BINARY || 'ping';
+
+// Gap between probes in a burst (jobs with burst_size > 1)
+export const BURST_INTERVAL_MS = parseInt(process.env.BURST_INTERVAL_MS || '200', 10);
+
+// Latency API circuit breaker: trips when enough requests in the window fail,
+// across enough distinct targets to rule out a few bad modems
+export const BREAKER_WINDOW_MS = parseInt(process.env.BREAKER_WINDOW_MS || '30000', 10);
+export const BREAKER_MIN_REQUESTS = parseInt(process.env.BREAKER_MIN_REQUESTS || '20', 10);
+export const BREAKER_MIN_TARGETS = parseInt(process.env.BREAKER_MIN_TARGETS || '5', 10);
+export const BREAKER_FAILURE_RATIO = parseFloat(process.env.BREAKER_FAILURE_RATIO || '0.5');
+export const BREAKER_COOLDOWN_MS = parseInt(process.env.BREAKER_COOLDOWN_MS || '30000', 10);
+
+// Write-ahead sample buffer: where it lives, when pings pause for it to drain,
+// and how large each segment file grows before a new one is started
+export const WAL_DIR = process.env.WAL_DIR || './data/wal';
+export const WAL_MAX_BYTES = parseInt(process.env.WAL_MAX_BYTES || String(128 * 1024 * 1024), 10);
+export const WAL_SEGMENT_BYTES = parseInt(process.env.WAL_SEGMENT_BYTES || String(1024 * 1024), 10);
+
+// How often the rollups of owned jobs are brought up to date
+export const ROLLUP_INTERVAL_MS = parseInt(process.env.ROLLUP_INTERVAL_MS || '60000', 10);
+
+// MAC-targeted jobs: consecutive misses before the modem's IP is looked up
+// again, and the minimum gap between lookups for one job
+export const MAC_RERESOLVE_MISSES = parseInt(process.env.MAC_RERESOLVE_MISSES || '3', 10);
+export const MAC_RESOLVE_INTERVAL_MS = parseInt(process.env.MAC_RESOLVE_INTERVAL_MS || '60000', 10);
+
+// How long a job must go without meaningful samples before it is failed
+export const FAILURE_WINDOW_MS = parseInt(process.env.FAILURE_WINDOW_MS || '900000', 10);
+
+// Lease-based job ownership. A lease must be renewed before it expires or
+// another replica is free to claim the job.
+export const LEASE_TTL_SECONDS = parseInt(process.env.LEASE_TTL_SECONDS || '30', 10);
+export const LEASE_RENEW_INTERVAL_MS = parseInt(process.env.LEASE_RENEW_INTERVAL_MS || '10000', 10);
+
+// Stable identity for this replica. Kubernetes sets HOSTNAME to the pod name,
+// so a restarted pod picks its own unexpired leases straight back up.
+export const REPLICA_NAME = process.env.POD_NAME || process.env.HOSTNAME || `${hostname()}-${randomUUID().slice(0, 8)}`;
+
+// Supabase client - use pooler URL for high concurrency
+export const SUPABASE_URL = process.env.SUPABASE_POOLER_URL || process.env.SUPABASE_URL;
+export const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Edge functions live on the project URL, not the connection pooler
+export const SUPABASE_FUNCTIONS_URL = process.env.SUPABASE_FUNCTIONS_URL || `${process.env.SUPABASE_URL}/functions/v1`;
+
+// Public web app URL, used to build job links in notification emails
+export const APP_BASE_URL = process.env.APP_BASE_URL || null;
+
+// Completion email retries (exponential backoff from the base delay)
+export const COMPLETION_EMAIL_MAX_ATTEMPTS = parseInt(process.env.COMPLETION_EMAIL_MAX_ATTEMPTS || '5', 10);
+export const COMPLETION_EMAIL_RETRY_BASE_MS = parseInt(process.env.COMPLETION_EMAIL_RETRY_BASE_MS || '60000', 10);
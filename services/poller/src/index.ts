@@ -2,166 +2,225 @@
  * Sound Check Poller Service
  * 
  * Backend service that handles ICMP ping execution for all running monitoring jobs.
- * Designed to run as multiple replicas in OpenShift with job partitioning.
+ * Designed to run as multiple replicas in OpenShift with lease-based job ownership.
  * 
  * Features:
- * - Polls for running jobs and executes pings via SpreeDB Latency API
- * - Batches sample inserts for efficiency
- * - Horizontally scalable via job hash partitioning
+ * - Polls for running jobs and probes them with the job's driver (Latency API, ICMP, TCP, HTTP)
+ * - Fires each job on exact cadence slots relative to its start time
+ * - Batches sample inserts for efficiency, through a durable on-disk buffer
+ * - Evaluates offline/recovery alert rules as samples arrive
+ * - Reads DOCSIS signal levels from the CM Info API for jobs that opt in
+ * - Finalizes summaries and emails requesters when jobs complete
+ * - Fails jobs that cannot be measured, with the cause, and notifies the requester
+ * - Horizontally scalable via heartbeat-renewed job leases (no per-pod config)
+ * - Admin API to pause, resume and force-complete jobs and drain the replica
  * - Health check endpoint for Kubernetes probes
+ * - Prometheus metrics endpoint for OpenShift monitoring
  */
 
 import express from 'express';
-import { createClient } from '@supabase/supabase-js';
 import PQueue from 'p-queue';
-
-// Configuration from environment
-const PORT = parseInt(process.env.PORT || '3000', 10);
-const POLL_INTERVAL_MS = parseInt(process.env.POLL_INTERVAL_MS || '5000', 10);
-const BATCH_FLUSH_INTERVAL_MS = parseInt(process.env.BATCH_FLUSH_INTERVAL_MS || '2000', 10);
-const BATCH_SIZE = parseInt(process.env.BATCH_SIZE || '100', 10);
-const CONCURRENCY = parseInt(process.env.CONCURRENCY || '50', 10);
-const REPLICA_COUNT = parseInt(process.env.REPLICA_COUNT || '1', 10);
-const REPLICA_ID = parseInt(process.env.REPLICA_ID || '0', 10);
-const LATENCY_API_URL = process.env.LATENCY_API_URL || 'http://localhost:4402';
-
-// Supabase client - use pooler URL for high concurrency
-const SUPABASE_URL = process.env.SUPABASE_POOLER_URL || process.env.SUPABASE_URL;
-const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
-  console.error('Missing required environment variables: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY');
-  process.exit(1);
-}
-
-const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
-  auth: {
-    persistSession: false,
-    autoRefreshToken: false,
-  },
-});
-
-// Types
-interface Job {
-  id: string;
-  target_ip: string | null;
-  target_mac: string | null;
-  cadence_seconds: number;
-  duration_minutes: number;
-  started_at: string;
-  last_ping_at: string | null;
-  status: string;
-  monitoring_mode: string;
-}
-
-interface Sample {
-  job_id: string;
-  sequence_number: number;
-  status: 'success' | 'missed' | 'system_error';
-  rtt_ms: number | null;
-  jitter_ms: number | null;
-}
-
-interface PingResult {
-  success: boolean;
-  rtt_ms?: number;
-  error?: string;
-}
+import {
+  PORT,
+  POLL_INTERVAL_MS,
+  BATCH_FLUSH_INTERVAL_MS,
+  BATCH_SIZE,
+  CONCURRENCY,
+  LATENCY_API_URL,
+  PROBE_TIMEOUT_MS,
+  LEASE_TTL_SECONDS,
+  LEASE_RENEW_INTERVAL_MS,
+  REPLICA_NAME,
+  COMPLETION_EMAIL_RETRY_BASE_MS,
+  ROLLUP_INTERVAL_MS,
+  WAL_DIR,
+  WAL_MAX_BYTES,
+} from './config.js';
+import { supabase } from './supabase.js';
+import { evaluateAlerts, forgetAlertState } from './alerts.js';
+import { sendCompletionEmail, retryCompletionEmails } from './completion.js';
+import { runProbeBurst } from './probes/index.js';
+import { probeError } from './probes/driver.js';
+import { forgetSimulatorState } from './probes/simulated.js';
+import { forgetReplay, replayProbe } from './probes/replay.js';
+import { resolveTarget, noteProbeOutcome, forgetTarget } from './target-resolver.js';
+import { evaluateFailure, sendFailureAlert, forgetFailureState, type JobFailure } from './job-failure.js';
+import { maybeCollectSignal, flushSignalSamples, forgetSignalState, getSignalSnapshot } from './signal-metrics.js';
+import { refreshRollups, finalizeRollups, getRollupSnapshot } from './rollups.js';
+import { getBreakerSnapshot, getBreakerState, reportBreakerState } from './latency-breaker.js';
+import { startScheduler, stopScheduler, scheduleJob, unscheduleJob, scheduledJobIds, nextFireTimes, recordLateness, slotOf, getSchedulerSnapshot } from './scheduler.js';
+import { adminRouter } from './admin.js';
+import type { Job, ProbeResult, Sample } from './types.js';
+import { openWal, closeWal, appendSample, peekSamples, commitSamples, pendingForJob, pendingJobIds, walDepth, walBytes, isWalFull, getWalSnapshot } from './wal.js';
+import { syncLeases, ownsJob, ownedJobIds, releaseLease, releaseAllLeases, getLeaseSnapshot } from './leases.js';
+import {
+  register,
+  pingsTotal,
+  pingQueueDepth,
+  pendingSamples,
+  batchInsertFailures,
+  sampleConflicts,
+  walBufferBytes,
+  scheduleLateness,
+  scheduleSlotsSkipped,
+  jobsExpired,
+  jobsCompleted,
+  jobsFailed,
+} from './metrics.js';
+
+// Longest error message stored on a sample; ping's stderr can run long
+const MAX_ERROR_DETAIL_LENGTH = 500;
 
 // State
 const pingQueue = new PQueue({ concurrency: CONCURRENCY });
-const sampleBatch: Sample[] = [];
-const jobSequenceNumbers = new Map<string, number>();
 const previousRttByJob = new Map<string, number>();
+// In-flight or completed state restores, so each owned job is rebuilt once
+const jobStateRestores = new Map<string, Promise<void>>();
+// Expired jobs whose completion has started, so retries are not counted twice
+const expiredJobs = new Set<string>();
+// Jobs found to have failed, waiting for the poll loop to mark them
+const pendingFailures = new Map<string, JobFailure>();
+// Jobs with a ping queued or running; a slot that fires meanwhile is skipped
+const pingsInFlight = new Set<string>();
 let isShuttingDown = false;
-
-// Simple hash function for job partitioning
-function hashCode(str: string): number {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
+// Draining replicas hold no leases and claim none until undrained
+let isDraining = false;
+// The flush in progress; flushes never overlap, so a sample is sent once per attempt
+let flushInFlight: Promise<boolean> | null = null;
+
+// Rebuild a job's last RTT from stored samples, so a replica taking over a
+// job continues jitter where it left off. Sequence numbers need no restoring:
+// a sample is numbered by its cadence slot, which every replica agrees on.
+async function restoreJobState(jobId: string): Promise<void> {
+  const { data: lastSuccess, error } = await supabase
+    .from('samples')
+    .select('rtt_ms')
+    .eq('job_id', jobId)
+    .eq('status', 'success')
+    .not('rtt_ms', 'is', null)
+    .order('sequence_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  // Samples still waiting in our buffer are newer than anything stored
+  const lastRtt = pendingForJob(jobId)?.lastRtt ?? lastSuccess?.rtt_ms ?? null;
+  if (lastRtt !== null) {
+    previousRttByJob.set(jobId, Number(lastRtt));
   }
-  return Math.abs(hash);
-}
-
-// Check if this replica should handle a specific job
-function shouldHandleJob(jobId: string): boolean {
-  if (REPLICA_COUNT <= 1) return true;
-  return hashCode(jobId) % REPLICA_COUNT === REPLICA_ID;
 }
 
-// Execute a ping via SpreeDB Latency API
-async function executePing(ip: string): Promise<PingResult> {
-  try {
-    const response = await fetch(`${LATENCY_API_URL}/ping`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ ip }),
-      signal: AbortSignal.timeout(5000), // 5s timeout
+// Restore a job's state once per ownership; a failed restore is retried on next use
+function ensureJobState(jobId: string): Promise<void> {
+  let restore = jobStateRestores.get(jobId);
+  if (!restore) {
+    restore = restoreJobState(jobId).catch((error) => {
+      jobStateRestores.delete(jobId);
+      throw error;
     });
-
-    if (!response.ok) {
-      return { success: false, error: `API error: ${response.status}` };
-    }
-
-    const data = await response.json() as { success: boolean; rtt_ms?: number; error?: string };
-    return data;
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    return { success: false, error: message };
+    jobStateRestores.set(jobId, restore);
   }
+  return restore;
 }
 
-// Process a single job ping
-async function executeAndRecordPing(job: Job): Promise<void> {
-  if (!job.target_ip) {
-    console.warn(`Job ${job.id} has no target IP, skipping`);
+// Process a single job ping for the cadence slot due at scheduledAt
+async function executeAndRecordPing(job: Job, scheduledAt: number): Promise<void> {
+  // Never measure jitter before we know where the job left off
+  try {
+    await ensureJobState(job.id);
+  } catch (error) {
+    console.error(`Failed to restore state for job ${job.id}, skipping ping:`, error);
     return;
   }
 
-  const result = await executePing(job.target_ip);
-  
-  // Get or initialize sequence number for this job
-  let sequenceNumber = jobSequenceNumbers.get(job.id) ?? 0;
-  sequenceNumber++;
-  jobSequenceNumbers.set(job.id, sequenceNumber);
+  // MAC-targeted jobs are probed wherever the modem currently is; simulated
+  // jobs never touch their target
+  const simulated = job.monitoring_mode === 'simulated';
+  const targetIp = job.probe_type === 'http' || simulated ? job.target_ip : await resolveTarget(job);
+
+  // Queue wait, state restore and target lookup all count against the slot
+  const latenessMs = Math.max(0, Date.now() - scheduledAt);
+  scheduleLateness.observe(latenessMs / 1000);
+  recordLateness(latenessMs);
+
+  // Numbered from 1 by cadence slot, so replicas that held the job one after
+  // another never number two samples the same, even with some still buffered
+  const slot = slotOf(job, scheduledAt);
+  const sequenceNumber = slot + 1;
+
+  const sentAt = new Date();
+  let result: ProbeResult;
+  if (job.replay_of_job_id) {
+    const replayed = await replayProbe(job, scheduledAt);
+    // The original has no sample for this slot either
+    if (!replayed) return;
+    result = replayed;
+  } else {
+    result = targetIp || job.probe_type === 'http' || simulated
+      ? await runProbeBurst({ ...job, target_ip: targetIp }, slot)
+      : probeError('no_target', `No IP known for ${job.target_mac ?? 'target'}`);
+  }
+  // A burst reports once its last reply is in
+  const respondedAt = result.status === 'success' ? new Date() : null;
 
   // Calculate jitter if we have a previous RTT
   let jitter_ms: number | null = null;
-  if (result.success && result.rtt_ms !== undefined) {
-    const previousRtt = previousRttByJob.get(job.id);
-    if (previousRtt !== undefined) {
-      jitter_ms = Math.abs(result.rtt_ms - previousRtt);
-    }
-    previousRttByJob.set(job.id, result.rtt_ms);
+  const previousRtt = previousRttByJob.get(job.id);
+  if (result.status === 'success' && result.rtt_ms !== null && previousRtt !== undefined) {
+    jitter_ms = Math.abs(result.rtt_ms - previousRtt);
   }
 
   // Create sample record
   const sample: Sample = {
     job_id: job.id,
     sequence_number: sequenceNumber,
-    status: result.success ? 'success' : (result.error?.includes('timeout') ? 'missed' : 'system_error'),
-    rtt_ms: result.rtt_ms ?? null,
+    status: result.status,
+    rtt_ms: result.rtt_ms,
     jitter_ms,
+    packets_sent: result.burst?.packets_sent ?? null,
+    packets_lost: result.burst?.packets_lost ?? null,
+    rtt_min_ms: result.burst?.rtt_min_ms ?? null,
+    rtt_max_ms: result.burst?.rtt_max_ms ?? null,
+    rtt_mdev_ms: result.burst?.rtt_mdev_ms ?? null,
+    scheduled_at: new Date(scheduledAt).toISOString(),
+    schedule_lateness_ms: Math.round(latenessMs),
+    probe_sent_at: sentAt.toISOString(),
+    probe_responded_at: respondedAt?.toISOString() ?? null,
+    error_code: result.status === 'success' ? null : result.error_code ?? null,
+    error_detail: result.status === 'success' ? null : result.error?.slice(0, MAX_ERROR_DETAIL_LENGTH) ?? null,
   };
 
-  sampleBatch.push(sample);
+  // Durable before anything else sees it; the flush loop stores it later
+  try {
+    await appendSample(sample);
+  } catch (error) {
+    console.error(`Failed to buffer sample ${sequenceNumber} for job ${job.id}:`, error);
+    return;
+  }
+  pingsTotal.inc({ status: sample.status, probe_type: job.probe_type });
 
-  // Update last_ping_at on the job
-  await supabase
-    .from('jobs')
-    .update({ last_ping_at: new Date().toISOString() })
-    .eq('id', job.id);
-}
+  // The job was completed, failed or handed over while its probe ran. The
+  // sample is kept, but its per-job state is gone and must not be recreated.
+  if (!ownsJob(job.id)) return;
 
-// Check if a job should be pinged now based on cadence
-function shouldPingNow(job: Job): boolean {
-  const now = Date.now();
-  const lastPing = job.last_ping_at ? new Date(job.last_ping_at).getTime() : 0;
-  const nextPing = lastPing + (job.cadence_seconds * 1000);
-  return now >= nextPing;
+  if (result.status === 'success' && result.rtt_ms !== null) {
+    previousRttByJob.set(job.id, result.rtt_ms);
+  }
+  noteProbeOutcome(job.id, result.status);
+
+  // Evaluate offline/recovery alert rules against the new sample
+  await evaluateAlerts(job, sample);
+
+  // Stop probing a job that has nothing left to measure; the poll loop fails it
+  if (!pendingFailures.has(job.id)) {
+    const failure = await evaluateFailure(job, sample.status, !targetIp && job.probe_type !== 'http' && !simulated);
+    if (failure) {
+      console.warn(`Job ${job.id} has failed: ${failure.detail}`);
+      pendingFailures.set(job.id, failure);
+      unscheduleJob(job.id);
+    }
+  }
 }
 
 // Check if a job has exceeded its duration
@@ -171,167 +230,461 @@ function isJobExpired(job: Job): boolean {
   return Date.now() > endTime;
 }
 
-// Calculate and update job summary metrics
-async function updateJobSummary(jobId: string): Promise<{ avgRtt: number | null; packetLoss: number | null; totalSamples: number }> {
-  const { data: samples } = await supabase
-    .from('samples')
-    .select('status, rtt_ms')
-    .eq('job_id', jobId);
+// Complete an expired (or force-completed) job. Returns whether it completed.
+async function completeJob(jobId: string): Promise<boolean> {
+  console.log(`Completing job ${jobId}`);
 
-  if (!samples?.length) {
-    return { avgRtt: null, packetLoss: null, totalSamples: 0 };
+  // Make sure every sample we collected is stored; marking the job completed
+  // then rebuilds its summary from all of them in sequence order
+  if (!(await flushJobSamples(jobId))) {
+    console.error(`Could not flush pending samples for job ${jobId}, will retry completion`);
+    return false;
   }
 
-  const successSamples = samples.filter(s => s.status === 'success');
-  const missedSamples = samples.filter(s => s.status === 'missed');
-  const validAttempts = successSamples.length + missedSamples.length;
-
-  const avgRtt = successSamples.length > 0
-    ? successSamples.reduce((sum, s) => sum + (s.rtt_ms || 0), 0) / successSamples.length
-    : null;
-
-  const packetLoss = validAttempts > 0
-    ? (missedSamples.length / validAttempts) * 100
-    : null;
-
-  await supabase
+  // A job cancelled or failed in the meantime keeps that outcome
+  const { data, error } = await supabase
     .from('jobs')
     .update({
-      avg_rtt_ms: avgRtt,
-      packet_loss_percent: packetLoss,
-      total_samples: samples.length,
+      status: 'completed',
+      completed_at: new Date().toISOString(),
     })
-    .eq('id', jobId);
+    .eq('id', jobId)
+    .eq('status', 'running')
+    .select('id');
+
+  if (error) {
+    console.error(`Failed to complete job ${jobId}:`, error);
+    return false;
+  }
+
+  const completed = (data ?? []).length > 0;
+  if (completed) jobsCompleted.inc();
 
-  return { avgRtt, packetLoss, totalSamples: samples.length };
+  // Final pass over the whole job; running jobs are only rolled up incrementally
+  await finalizeRollups(jobId);
+
+  // Clean up state
+  forgetJob(jobId);
+  await releaseLease(jobId);
+
+  // Email the requester; failures are retried by the completion email loop
+  if (completed) await sendCompletionEmail(jobId);
+  return true;
 }
 
-// Complete an expired job
-async function completeJob(jobId: string): Promise<void> {
-  console.log(`Completing expired job ${jobId}`);
+// Mark a job failed with its cause and tell the requester. Returns whether it was marked.
+async function failJob(jobId: string, failure: JobFailure): Promise<boolean> {
+  console.log(`Failing job ${jobId} (${failure.reason})`);
 
-  // Calculate final summary metrics before completing
-  await updateJobSummary(jobId);
+  // Store what was collected so the job page shows what led up to the failure
+  if (!(await flushJobSamples(jobId))) {
+    console.error(`Could not flush pending samples for job ${jobId}, will retry failing it`);
+    return false;
+  }
 
-  const { error } = await supabase
+  // Only a running job can fail; it may have been cancelled in the meantime
+  const { data, error } = await supabase
     .from('jobs')
     .update({
-      status: 'completed',
-      completed_at: new Date().toISOString(),
+      status: 'failed',
+      failed_at: new Date().toISOString(),
+      failure_reason: failure.reason,
+      failure_detail: failure.detail,
     })
-    .eq('id', jobId);
+    .eq('id', jobId)
+    .eq('status', 'running')
+    .select('id');
 
   if (error) {
-    console.error(`Failed to complete job ${jobId}:`, error);
-    return;
+    console.error(`Failed to mark job ${jobId} failed:`, error);
+    return false;
   }
 
-  // Create rollups for the completed job
-  const { error: rollupError } = await supabase.rpc('create_job_rollups', { p_job_id: jobId });
-  if (rollupError) {
-    console.error(`Failed to create rollups for job ${jobId}:`, rollupError);
-  }
+  const failed = (data ?? []).length > 0;
+  if (failed) jobsFailed.inc({ reason: failure.reason });
 
-  // Clean up state
-  jobSequenceNumbers.delete(jobId);
+  await finalizeRollups(jobId);
+  forgetJob(jobId);
+  await releaseLease(jobId);
+
+  if (failed) await sendFailureAlert(jobId);
+  return failed;
+}
+
+// Drop in-memory state for a job this replica no longer handles
+function forgetJob(jobId: string): void {
   previousRttByJob.delete(jobId);
+  jobStateRestores.delete(jobId);
+  expiredJobs.delete(jobId);
+  unscheduleJob(jobId);
+  forgetAlertState(jobId);
+  forgetTarget(jobId);
+  forgetSignalState(jobId);
+  forgetFailureState(jobId);
+  forgetSimulatorState(jobId);
+  forgetReplay(jobId);
+  pendingFailures.delete(jobId);
+}
+
+// Queue a probe for a job's cadence slot
+function onSlot(job: Job, scheduledAt: number): void {
+  if (isShuttingDown || !ownsJob(job.id)) return;
 
-  // TODO: Trigger completion email via edge function
+  // Backpressure: stop measuring until the buffer drains below its cap
+  if (isWalFull()) {
+    scheduleSlotsSkipped.inc({ reason: 'backpressure' });
+    return;
+  }
+  // The previous slot's probe is still queued or running
+  if (pingsInFlight.has(job.id)) {
+    scheduleSlotsSkipped.inc({ reason: 'overrun' });
+    return;
+  }
+
+  pingsInFlight.add(job.id);
+  pingQueue.add(() => executeAndRecordPing(job, scheduledAt).finally(() => {
+    pingsInFlight.delete(job.id);
+  }));
+}
+
+// Renew and rebalance job leases
+async function leaseLoop(): Promise<void> {
+  if (isShuttingDown || isDraining) return;
+
+  try {
+    const { acquired, lost } = await syncLeases(pendingJobIds());
+    for (const jobId of lost) {
+      forgetJob(jobId);
+    }
+    // Warm up newly owned jobs before their first ping
+    for (const jobId of acquired) {
+      ensureJobState(jobId).catch((error) => {
+        console.error(`Failed to restore state for job ${jobId}:`, error);
+      });
+    }
+    // The heartbeat row is recreated as closed if it ever lapsed
+    if (getBreakerState() !== 'closed') {
+      await reportBreakerState();
+    }
+  } catch (error) {
+    console.error('Error in lease loop:', error);
+  }
 }
 
 // Main poll loop
 async function pollLoop(): Promise<void> {
-  if (isShuttingDown) return;
+  if (isShuttingDown || isDraining) return;
 
   try {
-    // Fetch all running jobs with real_polling mode
-    const { data: jobs, error } = await supabase
+    // Fetch all running jobs, real and simulated
+    const { data, error } = await supabase
       .from('jobs')
       .select('*')
-      .eq('status', 'running')
-      .eq('monitoring_mode', 'real_polling');
+      .eq('status', 'running');
 
     if (error) {
       console.error('Failed to fetch jobs:', error);
       return;
     }
+    const jobs = (data ?? []) as Job[];
 
-    if (!jobs?.length) return;
-
-    console.log(`Found ${jobs.length} running jobs, processing ${jobs.filter(j => shouldHandleJob(j.id)).length} for this replica`);
+    if (jobs.length > 0) {
+      console.log(`Found ${jobs.length} running jobs, processing ${jobs.filter(j => ownsJob(j.id)).length} for this replica`);
+    }
 
-    for (const job of jobs as Job[]) {
-      // Skip jobs not assigned to this replica
-      if (!shouldHandleJob(job.id)) continue;
+    const running = new Set<string>();
+    for (const job of jobs) {
+      // Skip jobs leased to other replicas
+      if (!ownsJob(job.id)) continue;
 
       // Check if job should complete
       if (isJobExpired(job)) {
+        if (!expiredJobs.has(job.id)) {
+          expiredJobs.add(job.id);
+          jobsExpired.inc();
+        }
         await completeJob(job.id);
         continue;
       }
 
-      // Check if it's time to ping
-      if (shouldPingNow(job)) {
-        pingQueue.add(() => executeAndRecordPing(job));
+      const failure = pendingFailures.get(job.id);
+      if (failure) {
+        await failJob(job.id, failure);
+        continue;
+      }
+
+      // Paused jobs keep their lease and still complete on time, but are not
+      // probed; their failure window starts afresh when they are resumed
+      if (job.polling_paused_at) {
+        forgetFailureState(job.id);
+        continue;
       }
+
+      // Keep the scheduler's copy of the job current; slots fire on their own
+      running.add(job.id);
+      scheduleJob(job);
+      maybeCollectSignal(job);
+    }
+
+    // Stop firing jobs that ended, were paused or that we no longer own
+    for (const jobId of scheduledJobIds()) {
+      if (!running.has(jobId)) unscheduleJob(jobId);
+    }
+
+    if (isWalFull()) {
+      console.warn(`Sample buffer full (${walBytes()} bytes, ${walDepth()} samples), pings paused until it drains`);
     }
   } catch (error) {
     console.error('Error in poll loop:', error);
   }
 }
 
-// Flush sample batch to database
-async function flushBatch(): Promise<void> {
-  if (sampleBatch.length === 0) return;
+// Flush the oldest buffered samples to the database
+function flushBatch(): Promise<boolean> {
+  if (!flushInFlight) {
+    flushInFlight = flushOldestSamples().finally(() => {
+      flushInFlight = null;
+    });
+  }
+  return flushInFlight;
+}
 
-  const toInsert = sampleBatch.splice(0, BATCH_SIZE);
-  console.log(`Flushing ${toInsert.length} samples to database`);
+async function flushOldestSamples(): Promise<boolean> {
+  try {
+    const toInsert = await peekSamples(BATCH_SIZE);
+    if (toInsert.length === 0) return true;
 
-  const { error } = await supabase
-    .from('samples')
-    .insert(toInsert);
+    console.log(`Flushing ${toInsert.length} samples to database`);
 
-  if (error) {
-    console.error('Batch insert failed:', error);
-    // Put samples back for retry (at the beginning)
-    sampleBatch.unshift(...toInsert);
+    // A replayed batch may already be partly stored; (job_id, sequence_number)
+    // is unique, and only the rows actually inserted come back
+    const { data: inserted, error } = await supabase
+      .from('samples')
+      .upsert(toInsert, { onConflict: 'job_id,sequence_number', ignoreDuplicates: true })
+      .select('job_id, sequence_number');
+
+    if (error) {
+      console.error('Batch insert failed:', error);
+      batchInsertFailures.inc();
+      // Samples stay buffered and are retried in order on the next flush
+      return false;
+    }
+
+    if ((inserted ?? []).length < toInsert.length) {
+      await checkSkippedSamples(toInsert, inserted ?? []);
+    }
+
+    await commitSamples(toInsert.length);
+    return true;
+  } catch (error) {
+    console.error('Failed to flush sample buffer:', error);
+    return false;
+  }
+}
+
+// Samples of a batch that were not inserted because their key is taken. The
+// same probe stored by an earlier attempt is expected after a crash; anything
+// else is another sample holding the key, which is logged and counted.
+async function checkSkippedSamples(
+  batch: Sample[],
+  inserted: Array<{ job_id: string; sequence_number: number }>
+): Promise<void> {
+  const insertedKeys = new Set(inserted.map(row => `${row.job_id}:${row.sequence_number}`));
+  const skippedByJob = new Map<string, Sample[]>();
+  for (const sample of batch) {
+    if (insertedKeys.has(`${sample.job_id}:${sample.sequence_number}`)) continue;
+    skippedByJob.set(sample.job_id, [...(skippedByJob.get(sample.job_id) ?? []), sample]);
+  }
+
+  for (const [jobId, skipped] of skippedByJob) {
+    const { data, error } = await supabase
+      .from('samples')
+      .select('sequence_number, status, probe_sent_at')
+      .eq('job_id', jobId)
+      .in('sequence_number', skipped.map(sample => sample.sequence_number));
+    if (error) {
+      console.error(`Could not check ${skipped.length} samples of job ${jobId} skipped as already stored:`, error);
+      continue;
+    }
+
+    const stored = new Map((data ?? []).map(row => [row.sequence_number as number, row]));
+    for (const sample of skipped) {
+      const existing = stored.get(sample.sequence_number);
+      const sameProbe = existing !== undefined &&
+        existing.status === sample.status &&
+        new Date(existing.probe_sent_at).getTime() === new Date(sample.probe_sent_at).getTime();
+      if (sameProbe) continue;
+
+      sampleConflicts.inc();
+      console.error(
+        `Sample conflict for job ${jobId} at sequence ${sample.sequence_number}: kept the stored ` +
+        `${existing ? `${existing.status} probed at ${existing.probe_sent_at}` : 'row'}, dropped the buffered ` +
+        `${sample.status} probed at ${sample.probe_sent_at}`
+      );
+    }
+  }
+}
+
+// Flush until no samples for a job remain in the buffer. Samples are stored in
+// order, so this also stores everything buffered before them.
+async function flushJobSamples(jobId: string): Promise<boolean> {
+  while (pendingForJob(jobId)) {
+    if (!(await flushBatch())) return false;
+  }
+  return true;
+}
+
+// Replay the buffer until it is empty or the database rejects a batch
+async function drainBuffer(): Promise<void> {
+  while (walDepth() > 0) {
+    if (!(await flushBatch())) return;
+  }
+}
+
+// Store buffered samples, then any signal readings. Storing a job's samples
+// also moves its last_ping_at, in the same update as its summary.
+async function flushLoop(): Promise<void> {
+  await drainBuffer();
+  await flushSignalSamples();
+}
+
+// Keep the rollups of owned jobs current while they run
+async function rollupLoop(): Promise<void> {
+  if (isShuttingDown) return;
+
+  try {
+    await refreshRollups(ownedJobIds());
+  } catch (error) {
+    console.error('Error in rollup loop:', error);
+  }
+}
+
+// Hand every job back before maintenance: stop probing, store what is
+// buffered, then release the leases so other replicas take the jobs over
+async function drainReplica(): Promise<void> {
+  isDraining = true;
+  console.log('Draining replica...');
+
+  for (const jobId of scheduledJobIds()) unscheduleJob(jobId);
+  await pingQueue.onIdle();
+  await drainBuffer();
+  await flushSignalSamples();
+  for (const jobId of ownedJobIds()) forgetJob(jobId);
+  // Jobs whose samples could not all be stored keep their lease until it expires
+  await releaseAllLeases(pendingJobIds());
+}
+
+async function undrainReplica(): Promise<void> {
+  isDraining = false;
+  console.log('Replica undrained, claiming jobs again');
+  await leaseLoop();
+  await pollLoop();
+}
+
+// Retry undelivered completion emails
+async function completionEmailLoop(): Promise<void> {
+  if (isShuttingDown) return;
+
+  try {
+    await retryCompletionEmails();
+  } catch (error) {
+    console.error('Error in completion email loop:', error);
   }
 }
 
 // Express app for health checks
 const app = express();
 
+app.use('/admin', express.json(), adminRouter({
+  ownedJobs: () => {
+    const nextFire = nextFireTimes();
+    return ownedJobIds().map(jobId => {
+      const dueAt = nextFire.get(jobId);
+      return {
+        jobId,
+        nextFireAt: dueAt !== undefined ? new Date(dueAt).toISOString() : null,
+        pingInFlight: pingsInFlight.has(jobId),
+      };
+    });
+  },
+  ownsJob,
+  pauseJob: (jobId) => unscheduleJob(jobId),
+  completeJob: (jobId) => {
+    unscheduleJob(jobId);
+    return completeJob(jobId);
+  },
+  drain: drainReplica,
+  undrain: undrainReplica,
+  isDraining: () => isDraining,
+}));
+
 app.get('/health', (req, res) => {
   res.json({
     status: 'healthy',
-    replica: `${REPLICA_ID + 1}/${REPLICA_COUNT}`,
+    replica: REPLICA_NAME,
+    draining: isDraining,
     queueSize: pingQueue.size,
-    pendingSamples: sampleBatch.length,
-    activeJobs: jobSequenceNumbers.size,
+    pendingSamples: walDepth(),
+    sampleBuffer: getWalSnapshot(),
+    latencyApiBreaker: getBreakerSnapshot(),
+    scheduler: getSchedulerSnapshot(),
+    rollups: getRollupSnapshot(),
+    signalMetrics: getSignalSnapshot(),
+    activeJobs: ownedJobIds().length,
+    leases: getLeaseSnapshot(),
   });
 });
 
+app.get('/metrics', async (req, res) => {
+  pingQueueDepth.set(pingQueue.size);
+  pendingSamples.set(walDepth());
+  walBufferBytes.set(walBytes());
+
+  try {
+    res.set('Content-Type', register.contentType);
+    res.end(await register.metrics());
+  } catch (error) {
+    console.error('Failed to collect metrics:', error);
+    res.status(500).end();
+  }
+});
+
 app.get('/ready', (req, res) => {
   if (isShuttingDown) {
     res.status(503).json({ status: 'shutting_down' });
+  } else if (isDraining) {
+    res.status(503).json({ status: 'draining' });
   } else {
     res.json({ status: 'ready' });
   }
 });
 
 // Graceful shutdown
-function shutdown(): void {
+async function shutdown(): Promise<void> {
   console.log('Shutting down gracefully...');
   isShuttingDown = true;
 
-  // Flush remaining samples
-  if (sampleBatch.length > 0) {
-    console.log(`Flushing ${sampleBatch.length} remaining samples...`);
-    flushBatch().then(() => {
-      console.log('Shutdown complete');
-      process.exit(0);
-    });
-  } else {
+  try {
+    // Stop taking pings, then store what we can; anything left stays on disk
+    // and is replayed when the replica starts again
+    stopScheduler();
+    pingQueue.pause();
+    pingQueue.clear();
+    if (walDepth() > 0) {
+      console.log(`Flushing ${walDepth()} buffered samples...`);
+      await drainBuffer();
+      if (walDepth() > 0) {
+        console.warn(`${walDepth()} samples left in the buffer for replay on restart`);
+      }
+    }
+    await closeWal();
+    await flushSignalSamples();
+
+    // Hand our jobs back so other replicas take over without waiting for
+    // expiry, except those with samples left in the buffer
+    await releaseAllLeases(pendingJobIds());
+  } finally {
+    console.log('Shutdown complete');
     process.exit(0);
   }
 }
@@ -341,22 +694,52 @@ process.on('SIGINT', shutdown);
 
 // Start the service
 console.log(`Starting Sound Check Poller Service`);
-console.log(`  Replica: ${REPLICA_ID + 1}/${REPLICA_COUNT}`);
+console.log(`  Replica: ${REPLICA_NAME}`);
+console.log(`  Lease TTL: ${LEASE_TTL_SECONDS}s (renew every ${LEASE_RENEW_INTERVAL_MS}ms)`);
 console.log(`  Poll interval: ${POLL_INTERVAL_MS}ms`);
 console.log(`  Batch flush interval: ${BATCH_FLUSH_INTERVAL_MS}ms`);
+console.log(`  Rollup interval: ${ROLLUP_INTERVAL_MS}ms`);
 console.log(`  Concurrency: ${CONCURRENCY}`);
 console.log(`  Latency API: ${LATENCY_API_URL}`);
-
-// Start poll loop
-setInterval(pollLoop, POLL_INTERVAL_MS);
-
-// Start batch flush loop
-setInterval(flushBatch, BATCH_FLUSH_INTERVAL_MS);
+console.log(`  Probe timeout: ${PROBE_TIMEOUT_MS}ms`);
+console.log(`  Sample buffer: ${WAL_DIR} (max ${WAL_MAX_BYTES} bytes)`);
 
 // Start HTTP server
 app.listen(PORT, () => {
   console.log(`Health check server listening on port ${PORT}`);
 });
 
-// Initial poll
-pollLoop();
+async function start(): Promise<void> {
+  // Open the sample buffer before any ping can be recorded
+  const buffered = await openWal();
+  if (buffered > 0) {
+    console.log(`Replaying ${buffered} buffered samples from a previous run`);
+  }
+
+  // Start lease loop
+  setInterval(leaseLoop, LEASE_RENEW_INTERVAL_MS);
+
+  // Fire cadence slots; the poll loop keeps the set of scheduled jobs current
+  startScheduler(onSlot);
+
+  // Start poll loop
+  setInterval(pollLoop, POLL_INTERVAL_MS);
+
+  // Start batch flush loop; a replay drains as fast as the database accepts it
+  setInterval(flushLoop, BATCH_FLUSH_INTERVAL_MS);
+
+  // Start rollup refresh loop
+  setInterval(rollupLoop, ROLLUP_INTERVAL_MS);
+
+  // Start completion email retry loop
+  setInterval(completionEmailLoop, COMPLETION_EMAIL_RETRY_BASE_MS);
+
+  // Claim leases, then run the initial poll
+  await leaseLoop();
+  await pollLoop();
+}
+
+start().catch((error) => {
+  console.error('Failed to start poller:', error);
+  process.exit(1);
+});
@@ -0,0 +1,144 @@
+/**
+ * Automatic job failure
+ *
+ * A job whose samples say nothing about its target is failed rather than left
+ * running to the end of its duration. Over the last `FAILURE_WINDOW_MS` (or
+ * `MIN_WINDOW_SAMPLES` cadence ticks, if longer) of a job's samples:
+ *
+ * - every probe went without an IP, because the modem's MAC could not be
+ *   resolved: `target_unresolved`
+ * - every probe found the Latency API unreachable: `probe_backend_unreachable`
+ * - system errors exceed the admin `thresholds.system_error_percent`:
+ *   `system_errors`
+ *
+ * The window must be covered by samples this replica took itself, so a job
+ * just taken over or resumed from a pause gets a full window first. The
+ * requester is told through the send-alert-email edge function.
+ */
+
+import { supabase } from './supabase.js';
+import { invokeFunction, jobDetailUrl } from './notifications.js';
+import { FAILURE_WINDOW_MS } from './config.js';
+import type { FailureReason, Job, SampleStatus } from './types.js';
+
+const MIN_WINDOW_SAMPLES = 5;
+const DEFAULT_SYSTEM_ERROR_PERCENT = 5;
+const THRESHOLDS_TTL_MS = 5 * 60 * 1000;
+
+export interface JobFailure {
+  reason: FailureReason;
+  detail: string;
+}
+
+interface Observation {
+  at: number;
+  status: SampleStatus;
+  // The probe could not be sent because no IP is known for the target
+  unresolved: boolean;
+}
+
+// Samples per job inside its failure window, oldest first
+const observationsByJob = new Map<string, Observation[]>();
+let systemErrorPercent = DEFAULT_SYSTEM_ERROR_PERCENT;
+let thresholdsLoadedAt = 0;
+
+// The admin-configured system error threshold, re-read every few minutes
+async function systemErrorThreshold(): Promise<number> {
+  if (Date.now() - thresholdsLoadedAt < THRESHOLDS_TTL_MS) return systemErrorPercent;
+
+  const { data, error } = await supabase
+    .from('admin_config')
+    .select('value')
+    .eq('key', 'thresholds')
+    .maybeSingle();
+  if (error) {
+    console.error('Failed to load thresholds, keeping the previous ones:', error);
+    return systemErrorPercent;
+  }
+
+  const configured = (data?.value as { system_error_percent?: unknown } | null)?.system_error_percent;
+  systemErrorPercent = typeof configured === 'number' ? configured : DEFAULT_SYSTEM_ERROR_PERCENT;
+  // Only a successful read is cached; a failed one is retried on the next evaluation
+  thresholdsLoadedAt = Date.now();
+  return systemErrorPercent;
+}
+
+function describeWindow(windowMs: number): string {
+  const minutes = Math.round(windowMs / 60000);
+  return minutes >= 120 ? `${Math.round(minutes / 60)} hours` : `${minutes} minutes`;
+}
+
+// Record a sample and decide whether the job has failed
+export async function evaluateFailure(job: Job, status: SampleStatus, unresolved: boolean): Promise<JobFailure | null> {
+  const now = Date.now();
+  const cadenceMs = job.cadence_seconds * 1000;
+  const windowMs = Math.max(FAILURE_WINDOW_MS, cadenceMs * MIN_WINDOW_SAMPLES);
+
+  let observations = observationsByJob.get(job.id) ?? [];
+  observations.push({ at: now, status, unresolved });
+  observations = observations.filter(o => o.at >= now - windowMs);
+  observationsByJob.set(job.id, observations);
+
+  // Not enough history yet to call it sustained
+  const covered = observations[0].at - (now - windowMs) <= cadenceMs;
+  if (!covered || observations.length < MIN_WINDOW_SAMPLES) return null;
+
+  const span = describeWindow(windowMs);
+
+  if (observations.every(o => o.unresolved)) {
+    return {
+      reason: 'target_unresolved',
+      detail: `The CM Info API has not reported an IP for ${job.target_mac ?? 'the target'} in ${span}`,
+    };
+  }
+
+  if (observations.every(o => o.status === 'upstream_error')) {
+    return {
+      reason: 'probe_backend_unreachable',
+      detail: `The Latency API has been unreachable for ${span}`,
+    };
+  }
+
+  const threshold = await systemErrorThreshold();
+  const systemErrors = observations.filter(o => o.status === 'system_error').length;
+  const percent = (systemErrors / observations.length) * 100;
+  if (percent > threshold) {
+    return {
+      reason: 'system_errors',
+      detail: `${percent.toFixed(1)}% of samples in the last ${span} were system errors (threshold ${threshold}%)`,
+    };
+  }
+
+  return null;
+}
+
+// Tell the requester; not retried, like offline and recovery alerts
+export async function sendFailureAlert(jobId: string): Promise<void> {
+  const { data: alert, error } = await supabase
+    .from('alerts')
+    .insert({
+      job_id: jobId,
+      alert_type: 'job_failed',
+      delivery_status: 'pending',
+    })
+    .select('id')
+    .single();
+
+  if (error || !alert) {
+    console.error(`Failed to record failure alert for job ${jobId}:`, error);
+    return;
+  }
+
+  const result = await invokeFunction('send-alert-email', {
+    alertId: alert.id,
+    jobDetailUrl: jobDetailUrl(jobId),
+  });
+
+  if (!result.ok) {
+    console.error(`Failed to send failure alert for job ${jobId}:`, result.error);
+  }
+}
+
+export function forgetFailureState(jobId: string): void {
+  observationsByJob.delete(jobId);
+}
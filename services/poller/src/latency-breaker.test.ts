@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { update, transitions } = vi.hoisted(() => ({
+  update: vi.fn(() => ({ eq: () => Promise.resolve({ error: null }) })),
+  transitions: { inc: vi.fn() },
+}));
+vi.mock('./supabase.js', () => ({ supabase: { from: () => ({ update }) } }));
+vi.mock('./metrics.js', () => ({
+  latencyApiBreakerState: { set: vi.fn() },
+  latencyApiBreakerTransitions: transitions,
+}));
+
+type Breaker = typeof import('./latency-breaker.js');
+
+// With the default settings: 20 requests in 30s, half of them failed, across 5 targets
+const MIN_REQUESTS = 20;
+const COOLDOWN_MS = 30_000;
+
+describe('latency API circuit breaker', () => {
+  let breaker: Breaker;
+
+  // Fail `count` requests spread round-robin over `targets` modems
+  function failRequests(count: number, targets: number): void {
+    for (let i = 0; i < count; i++) breaker.recordApiFailure(`10.0.0.${i % targets}`, 'API error: 503');
+  }
+
+  function succeedRequests(count: number): void {
+    for (let i = 0; i < count; i++) breaker.recordApiSuccess(`10.0.1.${i}`);
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.parse('2026-03-01T12:00:00.000Z'));
+    update.mockClear();
+    transitions.inc.mockClear();
+    vi.resetModules();
+    breaker = await import('./latency-breaker.js');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stays closed until the window holds enough requests', () => {
+    failRequests(MIN_REQUESTS - 1, 10);
+
+    expect(breaker.getBreakerState()).toBe('closed');
+    expect(breaker.acquireRequestPermit()).toBe(true);
+  });
+
+  it('stays closed when the failures come from a few dead targets', () => {
+    failRequests(MIN_REQUESTS, 4);
+
+    expect(breaker.getBreakerState()).toBe('closed');
+  });
+
+  it('stays closed while most requests still succeed', () => {
+    succeedRequests(MIN_REQUESTS);
+    failRequests(MIN_REQUESTS - 1, 10);
+
+    expect(breaker.getBreakerState()).toBe('closed');
+  });
+
+  it('opens when enough requests fail across enough targets', () => {
+    succeedRequests(5);
+    failRequests(MIN_REQUESTS, 10);
+
+    expect(breaker.getBreakerState()).toBe('open');
+    expect(breaker.isBreakerOpen()).toBe(true);
+    expect(breaker.acquireRequestPermit()).toBe(false);
+    expect(transitions.inc).toHaveBeenCalledWith({ to: 'open' });
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({ latency_api_breaker: 'open' }));
+    expect(breaker.getBreakerSnapshot().lastTripReason).toMatch(/across 10 targets/);
+  });
+
+  it('forgets failures that have left the window', () => {
+    failRequests(MIN_REQUESTS - 1, 10);
+    vi.advanceTimersByTime(31_000);
+    failRequests(1, 10);
+
+    expect(breaker.getBreakerState()).toBe('closed');
+    expect(breaker.getBreakerSnapshot().window.requests).toBe(1);
+  });
+
+  it('lets a single trial request through once the cooldown has passed', () => {
+    failRequests(MIN_REQUESTS, 10);
+    vi.advanceTimersByTime(COOLDOWN_MS - 1);
+    expect(breaker.getBreakerState()).toBe('open');
+
+    vi.advanceTimersByTime(1);
+
+    expect(breaker.getBreakerState()).toBe('half_open');
+    expect(breaker.acquireRequestPermit()).toBe(true);
+    expect(breaker.acquireRequestPermit()).toBe(false);
+    // Probes keep skipping the API until the trial closes the breaker
+    expect(breaker.isBreakerOpen()).toBe(true);
+  });
+
+  it('closes with an empty window when the trial succeeds', () => {
+    failRequests(MIN_REQUESTS, 10);
+    vi.advanceTimersByTime(COOLDOWN_MS);
+    breaker.acquireRequestPermit();
+
+    breaker.recordApiSuccess('10.0.0.1');
+
+    expect(breaker.getBreakerState()).toBe('closed');
+    expect(breaker.getBreakerSnapshot().window.requests).toBe(0);
+    expect(breaker.acquireRequestPermit()).toBe(true);
+  });
+
+  it('opens again when the trial fails', () => {
+    failRequests(MIN_REQUESTS, 10);
+    vi.advanceTimersByTime(COOLDOWN_MS);
+    breaker.acquireRequestPermit();
+
+    breaker.recordApiFailure('10.0.0.1', 'API request timed out');
+
+    expect(breaker.getBreakerState()).toBe('open');
+    expect(breaker.getBreakerSnapshot()).toMatchObject({
+      lastTripReason: 'trial request failed (API request timed out)',
+      retryInMs: COOLDOWN_MS,
+    });
+  });
+
+  it('ignores stragglers that report after the breaker opened', () => {
+    failRequests(MIN_REQUESTS, 10);
+    const changedAt = breaker.getBreakerSnapshot().changedAt;
+
+    breaker.recordApiSuccess('10.0.0.1');
+    failRequests(5, 10);
+
+    expect(breaker.getBreakerState()).toBe('open');
+    expect(breaker.getBreakerSnapshot().changedAt).toBe(changedAt);
+  });
+});
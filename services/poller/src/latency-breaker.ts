@@ -0,0 +1,160 @@
+/**
+ * Circuit breaker for the SpreeDB Latency API
+ *
+ * Every Latency API request reports whether the API itself answered. When
+ * enough requests in a rolling window fail (timeouts, network errors, 5xx),
+ * spread across enough distinct targets that a handful of dead modems cannot
+ * explain it, the breaker opens. While open, probes skip the API and record
+ * `upstream_error` samples, and offline alerts are held back, so our outage
+ * is not reported as the customers'. After a cooldown one trial request is let
+ * through (half-open); its outcome closes the breaker or opens it again.
+ *
+ * The state is written to this replica's `poller_replicas` row for the UI.
+ */
+
+import { supabase } from './supabase.js';
+import {
+  BREAKER_WINDOW_MS,
+  BREAKER_MIN_REQUESTS,
+  BREAKER_MIN_TARGETS,
+  BREAKER_FAILURE_RATIO,
+  BREAKER_COOLDOWN_MS,
+  REPLICA_NAME,
+} from './config.js';
+import { latencyApiBreakerState, latencyApiBreakerTransitions } from './metrics.js';
+import type { BreakerState } from './types.js';
+
+interface Outcome {
+  at: number;
+  target: string;
+  failed: boolean;
+}
+
+const STATE_VALUES: Record<BreakerState, number> = { closed: 0, half_open: 1, open: 2 };
+
+// Request outcomes within the window, oldest first
+const outcomes: Outcome[] = [];
+let state: BreakerState = 'closed';
+let changedAt = new Date().toISOString();
+let openedAt = 0;
+let trialInFlight = false;
+let lastTripReason: string | null = null;
+
+function pruneOutcomes(now: number): void {
+  while (outcomes.length > 0 && outcomes[0].at < now - BREAKER_WINDOW_MS) {
+    outcomes.shift();
+  }
+}
+
+function transition(next: BreakerState, reason?: string): void {
+  if (next === state) return;
+  console.warn(`Latency API circuit breaker ${state} -> ${next}${reason ? `: ${reason}` : ''}`);
+
+  state = next;
+  changedAt = new Date().toISOString();
+  latencyApiBreakerState.set(STATE_VALUES[next]);
+  latencyApiBreakerTransitions.inc({ to: next });
+
+  if (next === 'open') {
+    openedAt = Date.now();
+    lastTripReason = reason ?? null;
+  }
+  if (next === 'closed') {
+    outcomes.length = 0;
+  }
+
+  reportBreakerState().catch((error) => {
+    console.error('Failed to report circuit breaker state:', error);
+  });
+}
+
+// Current state; an open breaker turns half-open once the cooldown has passed
+export function getBreakerState(): BreakerState {
+  if (state === 'open' && Date.now() - openedAt >= BREAKER_COOLDOWN_MS) {
+    transition('half_open');
+  }
+  return state;
+}
+
+export function isBreakerOpen(): boolean {
+  return getBreakerState() !== 'closed';
+}
+
+// Whether a probe may call the API now. Half-open lets one trial through at a time.
+export function acquireRequestPermit(): boolean {
+  const current = getBreakerState();
+  if (current === 'closed') return true;
+  if (current === 'half_open' && !trialInFlight) {
+    trialInFlight = true;
+    return true;
+  }
+  return false;
+}
+
+// The API answered, whatever it said about the target
+export function recordApiSuccess(target: string): void {
+  if (state === 'half_open') {
+    trialInFlight = false;
+    transition('closed', 'trial request succeeded');
+    return;
+  }
+  if (state === 'open') return;
+
+  const now = Date.now();
+  pruneOutcomes(now);
+  outcomes.push({ at: now, target, failed: false });
+}
+
+// The API did not answer, or answered with a server error
+export function recordApiFailure(target: string, reason: string): void {
+  if (state === 'half_open') {
+    trialInFlight = false;
+    transition('open', `trial request failed (${reason})`);
+    return;
+  }
+  // Stragglers sent before the breaker opened
+  if (state === 'open') return;
+
+  const now = Date.now();
+  pruneOutcomes(now);
+  outcomes.push({ at: now, target, failed: true });
+
+  if (outcomes.length < BREAKER_MIN_REQUESTS) return;
+
+  const failures = outcomes.filter(o => o.failed);
+  const failedTargets = new Set(failures.map(o => o.target)).size;
+  if (failures.length / outcomes.length >= BREAKER_FAILURE_RATIO && failedTargets >= BREAKER_MIN_TARGETS) {
+    transition(
+      'open',
+      `${failures.length}/${outcomes.length} requests failed across ${failedTargets} targets, last: ${reason}`
+    );
+  }
+}
+
+// Write the state to this replica's heartbeat row. Called on every transition
+// and after lease syncs, since a lapsed heartbeat recreates the row as closed.
+export async function reportBreakerState(): Promise<void> {
+  const { error } = await supabase
+    .from('poller_replicas')
+    .update({ latency_api_breaker: state, latency_api_breaker_changed_at: changedAt })
+    .eq('replica_id', REPLICA_NAME);
+  if (error) throw error;
+}
+
+// Snapshot for the /health endpoint
+export function getBreakerSnapshot() {
+  const current = getBreakerState();
+  pruneOutcomes(Date.now());
+  const failures = outcomes.filter(o => o.failed);
+  return {
+    state: current,
+    changedAt,
+    lastTripReason,
+    retryInMs: current === 'open' ? Math.max(0, BREAKER_COOLDOWN_MS - (Date.now() - openedAt)) : null,
+    window: {
+      requests: outcomes.length,
+      failures: failures.length,
+      failedTargets: new Set(failures.map(o => o.target)).size,
+    },
+  };
+}
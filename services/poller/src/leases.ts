@@ -0,0 +1,139 @@
+/**
+ * Lease-based job ownership
+ *
+ * Each replica heartbeats into `poller_replicas` and claims running jobs by
+ * holding a row in `job_leases`. The `sync_job_leases` RPC renews our leases,
+ * computes a fair share from the number of live replicas, releases any excess
+ * and claims unowned or expired jobs up to that share. A replica that dies
+ * stops renewing, so its leases expire and the survivors pick the jobs up.
+ *
+ * A job whose samples are still in this replica's write-ahead buffer is never
+ * shed or released: another replica would start storing samples for it while
+ * the older ones are still on their way. Its lease goes once they are stored.
+ */
+
+import { supabase } from './supabase.js';
+import { LEASE_TTL_SECONDS, REPLICA_NAME } from './config.js';
+
+interface LeaseRow {
+  job_id: string;
+  acquired_at: string;
+  expires_at: string;
+}
+
+interface SyncResult {
+  live_replicas: number;
+  target_share: number;
+  leases: LeaseRow[];
+}
+
+export interface LeaseChanges {
+  acquired: string[];
+  lost: string[];
+}
+
+// jobId -> lease info as last confirmed by the database
+const leases = new Map<string, { acquiredAt: string; expiresAt: number }>();
+let liveReplicas = 0;
+let targetShare = 0;
+let lastSyncAt: string | null = null;
+let lastSyncError: string | null = null;
+
+// Renew, rebalance and claim leases, keeping the jobs with buffered samples.
+// Returns the jobs gained and lost since the last sync.
+export async function syncLeases(bufferedJobIds: string[]): Promise<LeaseChanges> {
+  const { data, error } = await supabase.rpc('sync_job_leases', {
+    p_owner_id: REPLICA_NAME,
+    p_lease_seconds: LEASE_TTL_SECONDS,
+    p_keep_job_ids: bufferedJobIds,
+  });
+
+  if (error) {
+    // Keep what we have; ownsJob() stops honouring leases once they expire locally
+    lastSyncError = error.message;
+    console.error('Failed to sync job leases:', error);
+    return { acquired: [], lost: [] };
+  }
+
+  const result = data as SyncResult;
+  const current = new Set(result.leases.map(l => l.job_id));
+  const acquired = result.leases.filter(l => !leases.has(l.job_id)).map(l => l.job_id);
+  const lost = [...leases.keys()].filter(jobId => !current.has(jobId));
+
+  leases.clear();
+  for (const lease of result.leases) {
+    leases.set(lease.job_id, {
+      acquiredAt: lease.acquired_at,
+      expiresAt: new Date(lease.expires_at).getTime(),
+    });
+  }
+
+  liveReplicas = result.live_replicas;
+  targetShare = result.target_share;
+  lastSyncAt = new Date().toISOString();
+  lastSyncError = null;
+
+  if (acquired.length || lost.length) {
+    console.log(`Leases: +${acquired.length} -${lost.length}, holding ${leases.size}/${targetShare} across ${liveReplicas} replicas`);
+  }
+
+  return { acquired, lost };
+}
+
+// Check if this replica currently holds an unexpired lease on a job
+export function ownsJob(jobId: string): boolean {
+  const lease = leases.get(jobId);
+  return lease !== undefined && lease.expiresAt > Date.now();
+}
+
+export function ownedJobIds(): string[] {
+  return [...leases.keys()].filter(ownsJob);
+}
+
+// Give up a single lease, e.g. once a job has completed
+export async function releaseLease(jobId: string): Promise<void> {
+  leases.delete(jobId);
+  const { error } = await supabase.rpc('release_job_leases', {
+    p_owner_id: REPLICA_NAME,
+    p_job_ids: [jobId],
+  });
+  if (error) {
+    console.error(`Failed to release lease for job ${jobId}:`, error);
+  }
+}
+
+// Give up every lease and deregister the replica so others rebalance
+// immediately. Leases of jobs with buffered samples are kept and left to
+// expire, so their samples are stored (by this replica's next start) before
+// another replica's.
+export async function releaseAllLeases(bufferedJobIds: string[] = []): Promise<void> {
+  const kept = new Set(bufferedJobIds.filter(jobId => leases.has(jobId)));
+  const released = [...leases.keys()].filter(jobId => !kept.has(jobId));
+  leases.clear();
+  const { error } = await supabase.rpc('release_job_leases', {
+    p_owner_id: REPLICA_NAME,
+    p_job_ids: kept.size > 0 ? released : null,
+  });
+  if (error) {
+    console.error('Failed to release job leases:', error);
+  } else {
+    console.log(`Released ${released.length} job leases${kept.size > 0 ? `, keeping ${kept.size} with buffered samples` : ''}`);
+  }
+}
+
+// Snapshot for the /health endpoint
+export function getLeaseSnapshot() {
+  return {
+    owner: REPLICA_NAME,
+    held: leases.size,
+    targetShare,
+    liveReplicas,
+    lastSyncAt,
+    lastSyncError,
+    jobs: [...leases.entries()].map(([jobId, lease]) => ({
+      jobId,
+      acquiredAt: lease.acquiredAt,
+      expiresAt: new Date(lease.expiresAt).toISOString(),
+    })),
+  };
+}
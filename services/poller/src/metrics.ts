@@ -0,0 +1,134 @@
+/**
+ * Prometheus metrics, served as text from `GET /metrics`.
+ *
+ * Every series carries a `replica` label so dashboards and alerts can be
+ * broken down per pod.
+ */
+
+import { Registry, Counter, Gauge, Histogram, collectDefaultMetrics } from 'prom-client';
+import { REPLICA_NAME } from './config.js';
+import { ownedJobIds } from './leases.js';
+
+export const register = new Registry();
+register.setDefaultLabels({ replica: REPLICA_NAME });
+collectDefaultMetrics({ register, prefix: 'soundcheck_poller_' });
+
+export const pingsTotal = new Counter({
+  name: 'soundcheck_poller_pings_total',
+  help: 'Pings executed, by resulting sample status and probe type',
+  labelNames: ['status', 'probe_type'] as const,
+  registers: [register],
+});
+
+export const latencyApiDuration = new Histogram({
+  name: 'soundcheck_poller_latency_api_request_duration_seconds',
+  help: 'Latency API request duration, by outcome (ok, http_error, timeout, network_error)',
+  labelNames: ['outcome'] as const,
+  buckets: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [register],
+});
+
+export const latencyApiBreakerState = new Gauge({
+  name: 'soundcheck_poller_latency_api_breaker_state',
+  help: 'Latency API circuit breaker state (0 closed, 1 half-open, 2 open)',
+  registers: [register],
+});
+
+export const latencyApiBreakerTransitions = new Counter({
+  name: 'soundcheck_poller_latency_api_breaker_transitions_total',
+  help: 'Latency API circuit breaker state changes, by new state',
+  labelNames: ['to'] as const,
+  registers: [register],
+});
+
+export const targetResolutions = new Counter({
+  name: 'soundcheck_poller_target_resolutions_total',
+  help: 'CM Info API lookups of MAC-targeted jobs, by outcome (unchanged, changed, not_found, error)',
+  labelNames: ['outcome'] as const,
+  registers: [register],
+});
+
+export const signalCollections = new Counter({
+  name: 'soundcheck_poller_signal_collections_total',
+  help: 'DOCSIS signal readings taken from the CM Info API, by outcome (success, not_found, error)',
+  labelNames: ['outcome'] as const,
+  registers: [register],
+});
+
+export const scheduleLateness = new Histogram({
+  name: 'soundcheck_poller_schedule_lateness_seconds',
+  help: 'How far behind its cadence slot each probe started',
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [register],
+});
+
+export const scheduleSlotsSkipped = new Counter({
+  name: 'soundcheck_poller_schedule_slots_skipped_total',
+  help: 'Cadence slots not probed, by reason (behind, overrun, backpressure)',
+  labelNames: ['reason'] as const,
+  registers: [register],
+});
+
+export const pingQueueDepth = new Gauge({
+  name: 'soundcheck_poller_ping_queue_depth',
+  help: 'Pings waiting in the queue',
+  registers: [register],
+});
+
+export const pendingSamples = new Gauge({
+  name: 'soundcheck_poller_pending_samples',
+  help: 'Samples in the write-ahead buffer waiting to be stored',
+  registers: [register],
+});
+
+export const walBufferBytes = new Gauge({
+  name: 'soundcheck_poller_sample_buffer_bytes',
+  help: 'Size on disk of the write-ahead sample buffer',
+  registers: [register],
+});
+
+export const batchInsertFailures = new Counter({
+  name: 'soundcheck_poller_batch_insert_failures_total',
+  help: 'Sample batch inserts that failed and stayed buffered for retry',
+  registers: [register],
+});
+
+export const sampleConflicts = new Counter({
+  name: 'soundcheck_poller_sample_conflicts_total',
+  help: 'Buffered samples not stored because another sample with different content already holds their (job_id, sequence_number)',
+  registers: [register],
+});
+
+export const rollupRefreshFailures = new Counter({
+  name: 'soundcheck_poller_rollup_refresh_failures_total',
+  help: 'Rollup refreshes that failed; the buckets are rebuilt by the next one',
+  registers: [register],
+});
+
+export const jobsOwned = new Gauge({
+  name: 'soundcheck_poller_jobs_owned',
+  help: 'Jobs this replica currently holds a lease for',
+  registers: [register],
+  collect() {
+    this.set(ownedJobIds().length);
+  },
+});
+
+export const jobsExpired = new Counter({
+  name: 'soundcheck_poller_jobs_expired_total',
+  help: 'Owned jobs found past their duration and queued for completion',
+  registers: [register],
+});
+
+export const jobsFailed = new Counter({
+  name: 'soundcheck_poller_jobs_failed_total',
+  help: 'Jobs this replica marked failed, by failure reason',
+  labelNames: ['reason'] as const,
+  registers: [register],
+});
+
+export const jobsCompleted = new Counter({
+  name: 'soundcheck_poller_jobs_completed_total',
+  help: 'Jobs this replica marked completed',
+  registers: [register],
+});
@@ -0,0 +1,41 @@
+/**
+ * Service-to-service calls into Supabase edge functions.
+ *
+ * The poller authenticates with the service role key, which the edge
+ * functions accept in place of a user JWT.
+ */
+
+import { SUPABASE_FUNCTIONS_URL, SUPABASE_SERVICE_ROLE_KEY, APP_BASE_URL } from './config.js';
+
+export interface FunctionResult {
+  ok: boolean;
+  status: number;
+  error?: string;
+}
+
+export function jobDetailUrl(jobId: string): string | undefined {
+  return APP_BASE_URL ? `${APP_BASE_URL.replace(/\/$/, '')}/jobs/${jobId}` : undefined;
+}
+
+export async function invokeFunction(name: string, body: Record<string, unknown>): Promise<FunctionResult> {
+  try {
+    const response = await fetch(`${SUPABASE_FUNCTIONS_URL}/${name}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(15000),
+    });
+
+    const result = await response.json().catch(() => ({})) as { success?: boolean; error?: string };
+    if (!response.ok || result.success === false) {
+      return { ok: false, status: response.status, error: result.error ?? `HTTP ${response.status}` };
+    }
+    return { ok: true, status: response.status };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { ok: false, status: 0, error: message };
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Shared pieces for probe drivers.
+ */
+
+import type { Job, ProbeResult, SampleErrorCode } from '../types.js';
+
+// Runs one probe against a job's target and classifies the outcome
+export type ProbeDriver = (job: Job) => Promise<ProbeResult>;
+
+// Socket errors meaning the target (or the path to it) did not answer, as
+// opposed to a fault on our side
+const UNREACHABLE_CODES: Record<string, SampleErrorCode> = {
+  ECONNREFUSED: 'connection_refused',
+  ECONNRESET: 'connection_reset',
+  EHOSTUNREACH: 'host_unreachable',
+  ENETUNREACH: 'host_unreachable',
+  ETIMEDOUT: 'timeout',
+};
+
+// The sample error code for a socket error the target caused, if it was one
+export function unreachableErrorCode(code: string | undefined): SampleErrorCode | undefined {
+  return code !== undefined ? UNREACHABLE_CODES[code] : undefined;
+}
+
+// Samples store RTT with two decimal places
+export function roundMs(ms: number): number {
+  return Math.round(ms * 100) / 100;
+}
+
+// A probe that could not be sent, or failed on our side
+export function probeError(code: SampleErrorCode, error: string): ProbeResult {
+  return { status: 'system_error', rtt_ms: null, error_code: code, error };
+}
+
+// A probe the target did not answer
+export function probeMissed(code: SampleErrorCode, error: string): ProbeResult {
+  return { status: 'missed', rtt_ms: null, error_code: code, error };
+}
@@ -0,0 +1,43 @@
+/**
+ * HTTP GET driver: measures time to response headers from probe_url.
+ * Any response below 500 is a success; 5xx, timeouts and connection
+ * failures count as missed.
+ */
+
+import { PROBE_TIMEOUT_MS } from '../config.js';
+import { unreachableErrorCode, probeError, probeMissed, roundMs, type ProbeDriver } from './driver.js';
+
+export const probeHttp: ProbeDriver = async (job) => {
+  if (!job.probe_url) return probeError('no_target', 'HTTP probe needs a URL');
+
+  const startedAt = performance.now();
+  try {
+    const response = await fetch(job.probe_url, {
+      method: 'GET',
+      redirect: 'manual',
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+    const rtt_ms = roundMs(performance.now() - startedAt);
+
+    // Only the headers are timed; don't download the body
+    await response.body?.cancel();
+
+    if (response.status >= 500) {
+      return probeMissed('http_error', `HTTP ${response.status}`);
+    }
+    return { status: 'success', rtt_ms };
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      return probeMissed('timeout', 'HTTP timeout');
+    }
+
+    // fetch reports socket failures as a TypeError with the socket error as its cause
+    const code = (error as { cause?: { code?: string } }).cause?.code;
+    const errorCode = unreachableErrorCode(code);
+    if (errorCode) {
+      return probeMissed(errorCode, code as string);
+    }
+
+    return probeError('probe_failed', error instanceof Error ? error.message : 'Unknown error');
+  }
+};
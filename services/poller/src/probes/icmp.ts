@@ -0,0 +1,48 @@
+/**
+ * Direct ICMP driver: runs the system `ping` binary for a single echo.
+ *
+ * The container needs either the NET_RAW capability or a
+ * `net.ipv4.ping_group_range` sysctl that covers the poller's group, so that
+ * an unprivileged user can send echo requests.
+ */
+
+import { execFile } from 'node:child_process';
+import { isIPv6 } from 'node:net';
+import { PING_BINARY, PROBE_TIMEOUT_MS } from '../config.js';
+import { probeError, probeMissed, type ProbeDriver } from './driver.js';
+
+// iputils and busybox both report "time=12.3 ms" (iputils uses "time<1 ms" for sub-ms replies)
+const RTT_PATTERN = /time[=<]([\d.]+)\s*ms/;
+// e.g. "Destination Host Unreachable", "Destination Net Unreachable"
+const UNREACHABLE_PATTERN = /Destination \w+ Unreachable/i;
+
+export const probeIcmp: ProbeDriver = (job) => new Promise((resolve) => {
+  if (!job.target_ip) {
+    resolve(probeError('no_target', 'No target IP'));
+    return;
+  }
+
+  const waitSeconds = Math.max(1, Math.ceil(PROBE_TIMEOUT_MS / 1000));
+  const args = ['-n', '-c', '1', '-W', String(waitSeconds), job.target_ip];
+  if (isIPv6(job.target_ip)) args.unshift('-6');
+
+  execFile(PING_BINARY, args, { timeout: PROBE_TIMEOUT_MS + 1000 }, (error, stdout, stderr) => {
+    const match = RTT_PATTERN.exec(stdout);
+    if (match) {
+      resolve({ status: 'success', rtt_ms: parseFloat(match[1]) });
+      return;
+    }
+
+    // ping exits 1 when no reply arrived; anything else means it could not run
+    if (error?.code === 1) {
+      // A router on the way may have answered for the target
+      const unreachable = UNREACHABLE_PATTERN.exec(stdout);
+      resolve(unreachable
+        ? probeMissed('host_unreachable', unreachable[0])
+        : probeMissed('timeout', 'ICMP timeout'));
+      return;
+    }
+
+    resolve(probeError('probe_failed', stderr.trim() || error?.message || 'ping failed'));
+  });
+});
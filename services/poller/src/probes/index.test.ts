@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ProbeResult } from '../types.js';
+import { probeError, probeMissed } from './driver.js';
+import { summarizeBurst } from './index.js';
+
+// The drivers are not exercised here; keep their database client out of it
+vi.mock('../supabase.js', () => ({ supabase: {} }));
+
+function reply(rttMs: number): ProbeResult {
+  return { status: 'success', rtt_ms: rttMs };
+}
+
+describe('summarizeBurst', () => {
+  it('averages the replies and reports their spread', () => {
+    const result = summarizeBurst([reply(10), reply(20), reply(30), reply(40)]);
+
+    expect(result).toMatchObject({ status: 'success', rtt_ms: 25, error_code: undefined });
+    expect(result.burst).toEqual({
+      packets_sent: 4,
+      packets_lost: 0,
+      rtt_min_ms: 10,
+      rtt_max_ms: 40,
+      // ping's mdev: sqrt(mean(rtt^2) - mean(rtt)^2)
+      rtt_mdev_ms: 11.18,
+    });
+  });
+
+  it('counts lost packets and still succeeds while any reply came back', () => {
+    const result = summarizeBurst([
+      reply(12),
+      probeMissed('timeout', 'Ping timeout'),
+      reply(18),
+      probeMissed('timeout', 'Ping timeout'),
+      reply(15),
+    ]);
+
+    expect(result.status).toBe('success');
+    expect(result.rtt_ms).toBe(15);
+    expect(result.burst).toMatchObject({ packets_sent: 5, packets_lost: 2 });
+  });
+
+  it('leaves probes that failed on our side out of the loss', () => {
+    const result = summarizeBurst([
+      reply(20),
+      probeError('api_http_error', 'API error: 503'),
+      probeMissed('timeout', 'Ping timeout'),
+    ]);
+
+    expect(result.burst).toMatchObject({ packets_sent: 2, packets_lost: 1 });
+  });
+
+  it('is missed with the reason of a missed probe when nothing answered', () => {
+    const result = summarizeBurst([
+      probeError('api_timeout', 'API request timed out'),
+      probeMissed('host_unreachable', 'Destination Host Unreachable'),
+      probeMissed('timeout', 'Ping timeout'),
+    ]);
+
+    expect(result).toMatchObject({
+      status: 'missed',
+      rtt_ms: null,
+      error_code: 'host_unreachable',
+      error: 'Destination Host Unreachable',
+    });
+    expect(result.burst).toEqual({
+      packets_sent: 2,
+      packets_lost: 2,
+      rtt_min_ms: null,
+      rtt_max_ms: null,
+      rtt_mdev_ms: null,
+    });
+  });
+
+  it('is an upstream error when no packet was sent and the API was down', () => {
+    const upstream: ProbeResult = {
+      status: 'upstream_error',
+      rtt_ms: null,
+      error_code: 'api_circuit_open',
+      error: 'Latency API circuit open',
+    };
+
+    const result = summarizeBurst([upstream, probeError('api_http_error', 'API error: 503')]);
+
+    expect(result).toMatchObject({ status: 'upstream_error', error_code: 'api_circuit_open' });
+    expect(result.burst).toMatchObject({ packets_sent: 0, packets_lost: 0 });
+  });
+
+  it('is a system error when every probe failed on our side', () => {
+    const result = summarizeBurst([
+      probeError('probe_failed', 'spawn ping ENOENT'),
+      probeError('probe_failed', 'spawn ping ENOENT'),
+    ]);
+
+    expect(result).toMatchObject({ status: 'system_error', error_code: 'probe_failed' });
+  });
+});
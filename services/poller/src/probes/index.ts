@@ -0,0 +1,90 @@
+/**
+ * Probe drivers
+ *
+ * Each job picks how its target is measured via `probe_type`. Drivers share
+ * one signature and classify their own results, so the rest of the poller
+ * does not care which one produced a sample.
+ *
+ * Jobs with `burst_size` > 1 send several probes per tick, staggered by
+ * BURST_INTERVAL_MS, and store them as one sample with loss and RTT spread.
+ *
+ * Simulated jobs go through the simulated driver whatever their probe type.
+ */
+
+import { BURST_INTERVAL_MS } from '../config.js';
+import type { Job, ProbeResult, ProbeType } from '../types.js';
+import { roundMs, type ProbeDriver } from './driver.js';
+import { probeLatencyApi } from './latency-api.js';
+import { probeIcmp } from './icmp.js';
+import { probeTcp } from './tcp.js';
+import { probeHttp } from './http.js';
+import { probeSimulated } from './simulated.js';
+
+const DRIVERS: Record<ProbeType, ProbeDriver> = {
+  latency_api: probeLatencyApi,
+  icmp: probeIcmp,
+  tcp: probeTcp,
+  http: probeHttp,
+};
+
+// Run one probe for a job with its configured driver. `slot` is the cadence
+// slot the probe is for and `probe` its place in the burst; only simulated
+// probes use them, to make up the same outcome on every replica.
+export function runProbe(job: Job, slot: number, probe = 0): Promise<ProbeResult> {
+  if (job.monitoring_mode === 'simulated') return probeSimulated(job, slot, probe);
+  const driver = DRIVERS[job.probe_type] ?? probeLatencyApi;
+  return driver(job);
+}
+
+// Run a job's burst of probes and fold them into one result
+export async function runProbeBurst(job: Job, slot: number): Promise<ProbeResult> {
+  const count = Math.max(1, job.burst_size ?? 1);
+  if (count === 1) return runProbe(job, slot);
+
+  const results = await Promise.all(
+    Array.from({ length: count }, (_, i) =>
+      new Promise<ProbeResult>((resolve) => {
+        setTimeout(() => resolve(runProbe(job, slot, i)), i * BURST_INTERVAL_MS);
+      })
+    )
+  );
+
+  return summarizeBurst(results);
+}
+
+// Loss counts only packets that were actually sent; probes that failed on our
+// side or upstream are left out, as system errors are everywhere else
+export function summarizeBurst(results: ProbeResult[]): ProbeResult {
+  const replies = results
+    .filter(r => r.status === 'success' && r.rtt_ms !== null)
+    .map(r => r.rtt_ms as number);
+  const received = results.filter(r => r.status === 'success').length;
+  const sent = results.filter(r => r.status === 'success' || r.status === 'missed').length;
+
+  let avg: number | null = null;
+  let mdev: number | null = null;
+  if (replies.length > 0) {
+    avg = replies.reduce((sum, v) => sum + v, 0) / replies.length;
+    // Same definition ping uses: sqrt(mean(rtt^2) - mean(rtt)^2)
+    const meanSquare = replies.reduce((sum, v) => sum + v * v, 0) / replies.length;
+    mdev = Math.sqrt(Math.max(0, meanSquare - avg * avg));
+  }
+
+  const upstream = results.some(r => r.status === 'upstream_error');
+  const status = received > 0 ? 'success' : sent > 0 ? 'missed' : upstream ? 'upstream_error' : 'system_error';
+  const failure = results.find(r => r.status === status && r.error_code) ?? results.find(r => r.error_code);
+
+  return {
+    status,
+    rtt_ms: avg === null ? null : roundMs(avg),
+    error_code: status === 'success' ? undefined : failure?.error_code,
+    error: status === 'success' ? undefined : failure?.error,
+    burst: {
+      packets_sent: sent,
+      packets_lost: sent - received,
+      rtt_min_ms: replies.length > 0 ? roundMs(Math.min(...replies)) : null,
+      rtt_max_ms: replies.length > 0 ? roundMs(Math.max(...replies)) : null,
+      rtt_mdev_ms: mdev === null ? null : roundMs(mdev),
+    },
+  };
+}
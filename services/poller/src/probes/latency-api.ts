@@ -0,0 +1,68 @@
+/**
+ * SpreeDB Latency API driver: asks the API to ping the target on our behalf.
+ *
+ * Only the API's own verdict about the target can make a sample `missed`. When
+ * the request itself fails (timeout, network error, 5xx) the fault is ours or
+ * SpreeDB's, so the sample is a system error, or `upstream_error` once the
+ * circuit breaker has concluded the API is down.
+ */
+
+import { LATENCY_API_URL, PROBE_TIMEOUT_MS } from '../config.js';
+import { latencyApiDuration } from '../metrics.js';
+import { acquireRequestPermit, recordApiFailure, recordApiSuccess, isBreakerOpen } from '../latency-breaker.js';
+import type { ProbeResult, SampleErrorCode } from '../types.js';
+import { probeError, probeMissed, type ProbeDriver } from './driver.js';
+
+// A request the API never answered properly
+function upstreamFailure(target: string, code: SampleErrorCode, error: string): ProbeResult {
+  recordApiFailure(target, error);
+  return { status: isBreakerOpen() ? 'upstream_error' : 'system_error', rtt_ms: null, error_code: code, error };
+}
+
+export const probeLatencyApi: ProbeDriver = async (job) => {
+  if (!job.target_ip) return probeError('no_target', 'No target IP');
+
+  if (!acquireRequestPermit()) {
+    return { status: 'upstream_error', rtt_ms: null, error_code: 'api_circuit_open', error: 'Latency API circuit open' };
+  }
+
+  const endTimer = latencyApiDuration.startTimer();
+  try {
+    const response = await fetch(`${LATENCY_API_URL}/ping`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ip: job.target_ip }),
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      endTimer({ outcome: 'http_error' });
+      // 5xx and throttling mean the API is struggling; other 4xx are our request
+      if (response.status >= 500 || response.status === 429) {
+        return upstreamFailure(job.target_ip, 'api_http_error', `API error: ${response.status}`);
+      }
+      recordApiSuccess(job.target_ip);
+      return probeError('api_http_error', `API error: ${response.status}`);
+    }
+
+    const data = await response.json() as { success: boolean; rtt_ms?: number; error?: string };
+    endTimer({ outcome: 'ok' });
+    recordApiSuccess(job.target_ip);
+
+    if (data.success) {
+      return { status: 'success', rtt_ms: data.rtt_ms ?? null };
+    }
+    // The API reached its ping step; a timeout there is the target not answering
+    const detail = data.error ?? 'Latency API reported failure';
+    return data.error?.includes('timeout')
+      ? probeMissed('timeout', detail)
+      : probeError('api_error', detail);
+  } catch (error) {
+    const isTimeout = error instanceof Error && error.name === 'TimeoutError';
+    endTimer({ outcome: isTimeout ? 'timeout' : 'network_error' });
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return isTimeout
+      ? upstreamFailure(job.target_ip, 'api_timeout', `API request timed out: ${message}`)
+      : upstreamFailure(job.target_ip, 'api_unreachable', message);
+  }
+};
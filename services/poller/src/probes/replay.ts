@@ -0,0 +1,184 @@
+/**
+ * Replayed jobs
+ *
+ * A simulated job with `replay_of_job_id` plays back a finished job's samples
+ * instead of making its own, `replay_speed` times faster: its cadence and
+ * duration are the original's divided by the speed. Slot n of the replay gets
+ * the sample recorded for slot n of the original, with its status, RTT, burst
+ * statistics and failure reason; slots the original has no sample for stay
+ * empty. Replayed samples then take the same path as probed ones, so alerts,
+ * failure detection and the completion email fire as they did live. The
+ * original's target events (MAC resolutions, IP changes) are recorded again
+ * on the replay at the matching point.
+ *
+ * A recording is read once per replica and kept until the job is forgotten.
+ */
+
+import { supabase } from '../supabase.js';
+import type { Job, ProbeResult, SampleErrorCode, SampleStatus } from '../types.js';
+
+const PAGE_SIZE = 1000;
+const REPLAYED_EVENT_TYPES = ['target_resolved', 'target_ip_changed'];
+
+interface RecordedEvent {
+  // Since the original job started
+  offsetMs: number;
+  event_type: string;
+  details: Record<string, unknown> | null;
+}
+
+interface Recording {
+  samplesBySlot: Map<number, ProbeResult>;
+  events: RecordedEvent[];
+  // Events already recorded on the replay, by this or an earlier owner
+  replayedEvents: number;
+}
+
+interface RecordedSample {
+  status: SampleStatus;
+  rtt_ms: number | null;
+  packets_sent: number | null;
+  packets_lost: number | null;
+  rtt_min_ms: number | null;
+  rtt_max_ms: number | null;
+  rtt_mdev_ms: number | null;
+  scheduled_at: string | null;
+  probe_sent_at: string;
+  error_code: SampleErrorCode | null;
+  error_detail: string | null;
+}
+
+const recordings = new Map<string, Promise<Recording>>();
+
+function toProbeResult(sample: RecordedSample): ProbeResult {
+  return {
+    status: sample.status,
+    rtt_ms: sample.rtt_ms === null ? null : Number(sample.rtt_ms),
+    error_code: sample.error_code ?? undefined,
+    error: sample.error_detail ?? undefined,
+    burst: sample.packets_sent === null ? undefined : {
+      packets_sent: sample.packets_sent,
+      packets_lost: sample.packets_lost ?? 0,
+      rtt_min_ms: sample.rtt_min_ms,
+      rtt_max_ms: sample.rtt_max_ms,
+      rtt_mdev_ms: sample.rtt_mdev_ms,
+    },
+  };
+}
+
+async function loadRecording(job: Job): Promise<Recording> {
+  const originalId = job.replay_of_job_id as string;
+
+  const { data: original, error: jobError } = await supabase
+    .from('jobs')
+    .select('started_at, cadence_seconds')
+    .eq('id', originalId)
+    .single();
+  if (jobError || !original) {
+    throw new Error(`original job ${originalId} not found: ${jobError?.message ?? 'no row'}`);
+  }
+  const startedAt = new Date(original.started_at).getTime();
+  const cadenceMs = original.cadence_seconds * 1000;
+
+  const samplesBySlot = new Map<number, ProbeResult>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('samples')
+      .select('status, rtt_ms, packets_sent, packets_lost, rtt_min_ms, rtt_max_ms, rtt_mdev_ms, scheduled_at, probe_sent_at, error_code, error_detail')
+      .eq('job_id', originalId)
+      .order('probe_sent_at', { ascending: true })
+      .order('sequence_number', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`failed to load samples of ${originalId}: ${error.message}`);
+
+    for (const sample of (data ?? []) as RecordedSample[]) {
+      // Samples from before slot scheduling only have their send time
+      const at = new Date(sample.scheduled_at ?? sample.probe_sent_at).getTime();
+      const slot = Math.max(0, Math.floor((at - startedAt) / cadenceMs));
+      if (!samplesBySlot.has(slot)) samplesBySlot.set(slot, toProbeResult(sample));
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const { data: events, error: eventsError } = await supabase
+    .from('job_events')
+    .select('event_type, details, created_at')
+    .eq('job_id', originalId)
+    .in('event_type', REPLAYED_EVENT_TYPES)
+    .order('created_at', { ascending: true });
+  if (eventsError) throw new Error(`failed to load events of ${originalId}: ${eventsError.message}`);
+
+  const { count, error: countError } = await supabase
+    .from('job_events')
+    .select('id', { count: 'exact', head: true })
+    .eq('job_id', job.id)
+    .in('event_type', REPLAYED_EVENT_TYPES);
+  if (countError) throw new Error(`failed to count replayed events: ${countError.message}`);
+
+  console.log(`Job ${job.id}: replaying ${samplesBySlot.size} samples of job ${originalId} at ${job.replay_speed ?? 1}x`);
+
+  return {
+    samplesBySlot,
+    events: (events ?? []).map(e => ({
+      offsetMs: new Date(e.created_at).getTime() - startedAt,
+      event_type: e.event_type,
+      details: e.details,
+    })),
+    replayedEvents: count ?? 0,
+  };
+}
+
+// Record the original's events that happened by this point of the replay
+async function replayEvents(job: Job, recording: Recording, scheduledAt: number): Promise<void> {
+  const elapsedMs = (scheduledAt - new Date(job.started_at).getTime()) * (job.replay_speed ?? 1);
+
+  while (recording.replayedEvents < recording.events.length) {
+    const event = recording.events[recording.replayedEvents];
+    if (event.offsetMs > elapsedMs) return;
+
+    const { error } = await supabase.from('job_events').insert({
+      job_id: job.id,
+      event_type: event.event_type,
+      details: { ...event.details, replayed: true },
+    });
+    if (error) {
+      console.error(`Failed to replay ${event.event_type} for job ${job.id}:`, error);
+      return;
+    }
+    recording.replayedEvents++;
+  }
+}
+
+// The original's sample for the slot due at scheduledAt; null where the
+// original has none, or while the recording cannot be read
+export async function replayProbe(job: Job, scheduledAt: number): Promise<ProbeResult | null> {
+  let loading = recordings.get(job.id);
+  if (!loading) {
+    loading = loadRecording(job);
+    recordings.set(job.id, loading);
+  }
+
+  let recording: Recording;
+  try {
+    recording = await loading;
+  } catch (error) {
+    // Try again on the next slot
+    recordings.delete(job.id);
+    console.error(`Job ${job.id}: failed to load the recording to replay:`, error);
+    return null;
+  }
+
+  await replayEvents(job, recording, scheduledAt);
+
+  const slot = Math.round((scheduledAt - new Date(job.started_at).getTime()) / (job.cadence_seconds * 1000));
+  const result = recording.samplesBySlot.get(slot) ?? null;
+  // Replies take their RTT to arrive, as in the original
+  if (result?.status === 'success' && result.rtt_ms !== null) {
+    await new Promise(resolve => setTimeout(resolve, result.rtt_ms as number));
+  }
+  return result;
+}
+
+export function forgetReplay(jobId: string): void {
+  recordings.delete(jobId);
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Job, SimulationScenario } from '../types.js';
+import { generateConfigured, probeSimulated } from './simulated.js';
+
+vi.mock('../supabase.js', () => ({ supabase: {} }));
+
+function makeScenario(overrides: Partial<SimulationScenario> = {}): SimulationScenario {
+  return {
+    id: 'test',
+    name: 'Test',
+    seed: 4242,
+    rtt: { distribution: 'normal', mean_ms: 30, spread_ms: 8 },
+    loss_percent: 20,
+    system_error_percent: 5,
+    outages: [],
+    latency_steps: [],
+    flapping: null,
+    ...overrides,
+  };
+}
+
+// Outcomes of every probe of a burst over the first `slots` slots
+function run(scenario: SimulationScenario, slots: number, burst = 1) {
+  return Array.from({ length: slots }, (_, slot) =>
+    Array.from({ length: burst }, (_, probe) => generateConfigured(scenario, slot, 60, probe))
+  );
+}
+
+describe('generateConfigured', () => {
+  it('produces the same outcomes for the same seed, slot and probe', () => {
+    expect(run(makeScenario(), 50, 3)).toEqual(run(makeScenario(), 50, 3));
+  });
+
+  it('produces other outcomes for another seed', () => {
+    expect(run(makeScenario({ seed: 4243 }), 50)).not.toEqual(run(makeScenario(), 50));
+  });
+
+  it('gives each probe of a burst its own outcome', () => {
+    const bursts = run(makeScenario(), 50, 5);
+
+    // With 20% loss, some bursts must lose some of their probes but not all
+    const partlyLost = bursts.filter(probes => {
+      const lost = probes.filter(p => p.status === 'missed').length;
+      return lost > 0 && lost < probes.length;
+    });
+    expect(partlyLost.length).toBeGreaterThan(0);
+    expect(bursts.every(probes => new Set(probes.map(p => p.rtt_ms)).size > 1)).toBe(true);
+  });
+
+  it('loses every probe inside a full outage', () => {
+    const scenario = makeScenario({
+      loss_percent: 0,
+      system_error_percent: 0,
+      outages: [{ start_minute: 10, duration_minutes: 5, loss_percent: 100 }],
+    });
+
+    const statuses = run(scenario, 20).map(([probe]) => probe.status);
+
+    expect(statuses.slice(10, 15)).toEqual(Array(5).fill('missed'));
+    expect(statuses.filter((_, slot) => slot < 10 || slot >= 15)).toEqual(Array(15).fill('success'));
+    expect(generateConfigured(scenario, 12, 60).error_code).toBe('host_unreachable');
+  });
+
+  it('adds latency steps from their minute on', () => {
+    const scenario = makeScenario({
+      loss_percent: 0,
+      system_error_percent: 0,
+      rtt: { distribution: 'uniform', mean_ms: 20, spread_ms: 0 },
+      latency_steps: [{ at_minute: 5, delta_ms: 100 }],
+    });
+
+    expect(generateConfigured(scenario, 4, 60).rtt_ms).toBe(20);
+    expect(generateConfigured(scenario, 5, 60).rtt_ms).toBe(120);
+  });
+});
+
+describe('probeSimulated', () => {
+  it('answers from the job scenario for the slot it was scheduled for', async () => {
+    vi.useFakeTimers();
+    const scenario = makeScenario();
+    const job = { id: 'job-1', cadence_seconds: 60, simulator_config: scenario } as Job;
+
+    const probe = probeSimulated(job, 12, 2);
+    await vi.runAllTimersAsync();
+
+    expect(await probe).toEqual(generateConfigured(scenario, 12, 60, 2));
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Simulated probes
+ *
+ * Jobs in `simulated` monitoring mode (test accounts, demos, training) are
+ * scheduled, buffered, alerted on and completed exactly like real ones; only
+ * the probe itself is made up.
+ *
+ * Jobs created from an admin-defined scenario carry a copy of it in
+ * `simulator_config`: RTT distribution, loss and system error rates, outage
+ * windows, latency steps and flapping. Each outcome is drawn from a generator
+ * seeded with the scenario's seed, the job slot and the probe's place in its
+ * burst, so a scenario produces the same samples on every run and the probes
+ * of a burst do not all share one fate.
+ *
+ * Older jobs name one of the built-in patterns in `simulator_scenario`:
+ *
+ * - `healthy`: 98% success at 15-45 ms
+ * - `intermittent`: 5 bad slots in every 20, with heavy loss and 50-200 ms RTT
+ * - `offline`: a few good slots, then mostly missed
+ *
+ * Outcomes follow the job slot (`started_at + n * cadence_seconds`), so a
+ * replica taking a job over carries on with the same pattern. A job with
+ * neither gets a random built-in pattern, weighted toward healthy, stored on
+ * the job so every replica agrees.
+ */
+
+import { supabase } from '../supabase.js';
+import type { Job, ProbeResult, SimulationScenario, SimulatorScenario } from '../types.js';
+import { probeError, probeMissed, roundMs } from './driver.js';
+
+// Scenarios picked for jobs that had none, until the job row catches up
+const pickedScenarios = new Map<string, SimulatorScenario>();
+
+function pickRandomScenario(): SimulatorScenario {
+  const rand = Math.random();
+  if (rand < 0.7) return 'healthy';
+  if (rand < 0.9) return 'intermittent';
+  return 'offline';
+}
+
+function scenarioFor(job: Job): string {
+  if (job.simulator_scenario) return job.simulator_scenario;
+
+  let scenario = pickedScenarios.get(job.id);
+  if (!scenario) {
+    scenario = pickRandomScenario();
+    pickedScenarios.set(job.id, scenario);
+    // Only the first replica to pick gets to store it
+    supabase
+      .from('jobs')
+      .update({ simulator_scenario: scenario })
+      .eq('id', job.id)
+      .is('simulator_scenario', null)
+      .then(({ error }) => {
+        if (error) console.error(`Failed to store simulator scenario for job ${job.id}:`, error);
+      });
+  }
+  return scenario;
+}
+
+function success(rttMs: number): ProbeResult {
+  return { status: 'success', rtt_ms: roundMs(rttMs) };
+}
+
+function missed(): ProbeResult {
+  return Math.random() < 0.5
+    ? probeMissed('timeout', 'Ping timeout')
+    : probeMissed('host_unreachable', 'Destination Host Unreachable');
+}
+
+function systemError(): ProbeResult {
+  return Math.random() < 0.5
+    ? probeError('api_http_error', 'API error: 503')
+    : probeError('api_timeout', 'API request timed out');
+}
+
+function generate(scenario: string, slot: number): ProbeResult {
+  const rand = Math.random();
+
+  switch (scenario) {
+    case 'intermittent': {
+      // Bursts of trouble: 5 slots in every 20
+      if (slot % 20 < 5) {
+        if (rand < 0.5) return success(50 + Math.random() * 150);
+        return rand < 0.9 ? missed() : systemError();
+      }
+      return rand < 0.95 ? success(20 + Math.random() * 40) : missed();
+    }
+
+    case 'offline': {
+      if (slot < 3) return success(25 + Math.random() * 35);
+      if (rand < 0.05) return success(100 + Math.random() * 200);
+      return rand < 0.95 ? missed() : systemError();
+    }
+
+    case 'healthy':
+    default: {
+      if (rand < 0.98) return success(15 + Math.random() * 30);
+      return rand < 0.99 ? missed() : systemError();
+    }
+  }
+}
+
+// mulberry32, seeded from the scenario seed, the slot and the probe within its burst
+function slotRandom(seed: number, slot: number, probe: number): () => number {
+  let state = (
+    Math.imul(seed ^ 0x9e3779b9, 0x85ebca6b) ^ Math.imul(slot + 1, 0xc2b2ae35) ^ Math.imul(probe, 0x27d4eb2f)
+  ) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Loss from outage and flapping windows covering this minute of the job
+function windowLossPercent(scenario: SimulationScenario, minute: number): number {
+  let loss = 0;
+  for (const outage of scenario.outages) {
+    const end = outage.duration_minutes === null ? Infinity : outage.start_minute + outage.duration_minutes;
+    if (minute >= outage.start_minute && minute < end) loss = Math.max(loss, outage.loss_percent);
+  }
+  const flapping = scenario.flapping;
+  if (flapping && flapping.period_minutes > 0 && minute >= flapping.start_minute) {
+    if ((minute - flapping.start_minute) % flapping.period_minutes < flapping.down_minutes) {
+      loss = Math.max(loss, flapping.loss_percent);
+    }
+  }
+  return loss;
+}
+
+// The outcome of probe `probe` of a burst in one cadence slot of a job (0 at its start)
+export function generateConfigured(
+  scenario: SimulationScenario,
+  slot: number,
+  cadenceSeconds: number,
+  probe = 0,
+): ProbeResult {
+  const random = slotRandom(scenario.seed, slot, probe);
+  const minute = (slot * cadenceSeconds) / 60;
+
+  if (random() * 100 < scenario.system_error_percent) {
+    return probeError('api_http_error', 'API error: 503');
+  }
+
+  const windowLoss = windowLossPercent(scenario, minute);
+  if (random() * 100 < Math.max(scenario.loss_percent, windowLoss)) {
+    // Losses inside a window look like the modem dropping off, the rest like a stray lost ping
+    return random() * 100 < windowLoss
+      ? probeMissed('host_unreachable', 'Destination Host Unreachable')
+      : probeMissed('timeout', 'Ping timeout');
+  }
+
+  const { distribution, mean_ms, spread_ms } = scenario.rtt;
+  const u1 = random();
+  const u2 = random();
+  const variation = distribution === 'normal'
+    ? Math.sqrt(-2 * Math.log(1 - u1)) * Math.cos(2 * Math.PI * u2) * spread_ms
+    : (u1 * 2 - 1) * spread_ms;
+  const step = scenario.latency_steps
+    .filter(s => minute >= s.at_minute)
+    .reduce((total, s) => total + s.delta_ms, 0);
+
+  return success(Math.max(1, mean_ms + variation + step));
+}
+
+// Make up probe `probe` of a burst for the job's cadence slot `slot`
+export async function probeSimulated(job: Job, slot: number, probe: number): Promise<ProbeResult> {
+  const result = job.simulator_config
+    ? generateConfigured(job.simulator_config, slot, job.cadence_seconds, probe)
+    : generate(scenarioFor(job), slot);
+  // Replies take their RTT to arrive, so response times look like real ones
+  if (result.status === 'success' && result.rtt_ms !== null) {
+    await new Promise(resolve => setTimeout(resolve, result.rtt_ms as number));
+  }
+  return result;
+}
+
+export function forgetSimulatorState(jobId: string): void {
+  pickedScenarios.delete(jobId);
+}
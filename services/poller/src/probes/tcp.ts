@@ -0,0 +1,38 @@
+/**
+ * TCP connect driver: measures the time to complete a handshake with
+ * target_ip:probe_port. A refused connection counts as missed, since the
+ * service on that port did not answer.
+ */
+
+import { connect } from 'node:net';
+import { PROBE_TIMEOUT_MS } from '../config.js';
+import { unreachableErrorCode, probeError, probeMissed, roundMs, type ProbeDriver } from './driver.js';
+import type { ProbeResult } from '../types.js';
+
+export const probeTcp: ProbeDriver = (job) => new Promise((resolve) => {
+  if (!job.target_ip || !job.probe_port) {
+    resolve(probeError('no_target', 'TCP probe needs a target IP and port'));
+    return;
+  }
+
+  const startedAt = performance.now();
+  const socket = connect({ host: job.target_ip, port: job.probe_port });
+  socket.setTimeout(PROBE_TIMEOUT_MS);
+
+  const finish = (result: ProbeResult) => {
+    socket.destroy();
+    resolve(result);
+  };
+
+  socket.once('connect', () => {
+    finish({ status: 'success', rtt_ms: roundMs(performance.now() - startedAt) });
+  });
+  socket.once('timeout', () => {
+    finish(probeMissed('timeout', 'TCP connect timeout'));
+  });
+  socket.once('error', (error: NodeJS.ErrnoException) => {
+    const code = unreachableErrorCode(error.code);
+    const detail = error.code ?? error.message;
+    finish(code ? probeMissed(code, detail) : probeError('probe_failed', detail));
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Streaming sample rollups
+ *
+ * Every `ROLLUP_INTERVAL_MS` the replica asks `refresh_job_rollups` to bring
+ * the 1-minute, 5-minute and 1-hour buckets of the jobs it owns up to date, so
+ * long-running jobs can be charted from `sample_rollups` while they run. Each
+ * refresh rebuilds only a tier's newest bucket onwards, and rebuilt buckets
+ * overwrite the old row. At completion every tier of the job is rolled up once
+ * more as a final pass.
+ */
+
+import { supabase } from './supabase.js';
+import { rollupRefreshFailures } from './metrics.js';
+
+let lastRefreshAt: string | null = null;
+let lastRefreshError: string | null = null;
+let bucketsWritten = 0;
+
+// Rebuild the open (and just-closed) buckets of the given jobs
+export async function refreshRollups(jobIds: string[]): Promise<void> {
+  if (jobIds.length === 0) return;
+
+  const { data, error } = await supabase.rpc('refresh_job_rollups', { p_job_ids: jobIds });
+  if (error) {
+    lastRefreshError = error.message;
+    rollupRefreshFailures.inc();
+    console.error('Failed to refresh rollups:', error);
+    return;
+  }
+
+  bucketsWritten += (data as number | null) ?? 0;
+  lastRefreshAt = new Date().toISOString();
+  lastRefreshError = null;
+}
+
+// Roll up every sample of a completed job, in every tier
+export async function finalizeRollups(jobId: string): Promise<void> {
+  const { error } = await supabase.rpc('create_job_rollups', { p_job_id: jobId });
+  if (error) {
+    rollupRefreshFailures.inc();
+    console.error(`Failed to create rollups for job ${jobId}:`, error);
+  }
+}
+
+// Snapshot for the /health endpoint
+export function getRollupSnapshot() {
+  return {
+    lastRefreshAt,
+    lastRefreshError,
+    bucketsWritten,
+  };
+}
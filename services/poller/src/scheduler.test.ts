@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Job } from './types.js';
+
+const skipped = vi.hoisted(() => ({ inc: vi.fn() }));
+vi.mock('./metrics.js', () => ({ scheduleSlotsSkipped: skipped }));
+
+type Scheduler = typeof import('./scheduler.js');
+
+const START = Date.parse('2026-03-01T12:00:00.000Z');
+
+function makeJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 'job-1',
+    started_at: new Date(START).toISOString(),
+    cadence_seconds: 10,
+    duration_minutes: 60,
+    ...overrides,
+  } as Job;
+}
+
+describe('scheduler', () => {
+  let scheduler: Scheduler;
+  let fired: Array<{ jobId: string; at: number }>;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+    skipped.inc.mockClear();
+    // The heap and job table are module state; start each test with fresh ones
+    vi.resetModules();
+    scheduler = await import('./scheduler.js');
+    fired = [];
+    scheduler.startScheduler((job, scheduledAt) => fired.push({ jobId: job.id, at: scheduledAt }));
+  });
+
+  afterEach(() => {
+    scheduler.stopScheduler();
+    vi.useRealTimers();
+  });
+
+  it('fires each slot at started_at + n * cadence', () => {
+    scheduler.scheduleJob(makeJob());
+
+    vi.advanceTimersByTime(35_000);
+
+    expect(fired.map(f => f.at - START)).toEqual([0, 10_000, 20_000, 30_000]);
+  });
+
+  it('fires the slots of several jobs in due order', () => {
+    scheduler.scheduleJob(makeJob({ id: 'slow', cadence_seconds: 15 }));
+    scheduler.scheduleJob(makeJob({ id: 'fast', cadence_seconds: 10, started_at: new Date(START + 2_000).toISOString() }));
+
+    vi.advanceTimersByTime(31_000);
+
+    expect(fired.map(f => [f.jobId, f.at - START])).toEqual([
+      ['slow', 0],
+      ['fast', 2_000],
+      ['fast', 12_000],
+      ['slow', 15_000],
+      ['fast', 22_000],
+      ['slow', 30_000],
+    ]);
+  });
+
+  it('starts a job picked up mid-run at its next slot', () => {
+    vi.setSystemTime(START + 25_000);
+    scheduler.scheduleJob(makeJob());
+
+    expect(scheduler.nextFireTimes().get('job-1')).toBe(START + 30_000);
+    vi.advanceTimersByTime(5_000);
+    expect(fired.map(f => f.at - START)).toEqual([30_000]);
+  });
+
+  it('fires no slot at or after the end of the job', () => {
+    scheduler.scheduleJob(makeJob({ duration_minutes: 1, cadence_seconds: 20 }));
+
+    vi.advanceTimersByTime(120_000);
+
+    expect(fired.map(f => f.at - START)).toEqual([0, 20_000, 40_000]);
+  });
+
+  it('drops slots queued before the job was rescheduled with new timing', () => {
+    scheduler.scheduleJob(makeJob({ cadence_seconds: 10 }));
+    vi.advanceTimersByTime(1_000);
+    scheduler.scheduleJob(makeJob({ cadence_seconds: 30 }));
+
+    vi.advanceTimersByTime(60_000);
+
+    // The slot at 10s was queued under the old cadence and must not fire
+    expect(fired.map(f => f.at - START)).toEqual([0, 30_000, 60_000]);
+  });
+
+  it('keeps the schedule when a job is refreshed with the same timing', () => {
+    scheduler.scheduleJob(makeJob());
+    vi.advanceTimersByTime(1_000);
+    scheduler.scheduleJob(makeJob({ status: 'running' }));
+
+    vi.advanceTimersByTime(20_000);
+
+    expect(fired.map(f => f.at - START)).toEqual([0, 10_000, 20_000]);
+  });
+
+  it('stops firing a job once it is unscheduled', () => {
+    scheduler.scheduleJob(makeJob());
+    vi.advanceTimersByTime(1_000);
+    scheduler.unscheduleJob('job-1');
+
+    vi.advanceTimersByTime(60_000);
+
+    expect(fired).toHaveLength(1);
+    expect(scheduler.scheduledJobIds()).toEqual([]);
+    expect(scheduler.nextFireTimes().size).toBe(0);
+  });
+
+  it('skips to the latest due slot after falling behind', () => {
+    scheduler.scheduleJob(makeJob());
+    vi.advanceTimersByTime(1_000);
+    fired = [];
+
+    // The clock jumps 45s while the timer for the 10s slot is still pending,
+    // as after a long block of the event loop
+    vi.setSystemTime(START + 46_000);
+    vi.advanceTimersToNextTimer();
+
+    expect(fired.map(f => f.at - START)).toEqual([50_000]);
+    expect(skipped.inc).toHaveBeenCalledWith({ reason: 'behind' }, 4);
+    expect(scheduler.nextFireTimes().get('job-1')).toBe(START + 60_000);
+  });
+
+  it('numbers slots from the job start, rounding to the nearest', () => {
+    const job = makeJob();
+
+    expect(scheduler.slotOf(job, START)).toBe(0);
+    expect(scheduler.slotOf(job, START + 30_000)).toBe(3);
+    expect(scheduler.slotOf(job, START + 34_000)).toBe(3);
+    expect(scheduler.slotOf(job, START + 36_000)).toBe(4);
+    expect(scheduler.slotOf(job, START - 5_000)).toBe(0);
+  });
+});
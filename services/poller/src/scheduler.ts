@@ -0,0 +1,217 @@
+/**
+ * Per-job cadence scheduler
+ *
+ * Each owned job fires on exact slots relative to its start:
+ * `started_at + n * cadence_seconds`. Slots live in a min-heap ordered by due
+ * time, and one timer is armed for the earliest of them, so a 10s job pings
+ * every 10s on the dot instead of whenever the next poll loop notices it.
+ *
+ * If the process falls behind by more than a whole cadence (a blocked event
+ * loop, a long GC pause), the missed slots are skipped rather than fired in a
+ * burst, and the job resumes on its latest slot.
+ */
+
+import { scheduleSlotsSkipped } from './metrics.js';
+import type { Job } from './types.js';
+
+export type SlotHandler = (job: Job, scheduledAt: number) => void;
+
+interface HeapEntry {
+  jobId: string;
+  dueAt: number;
+  slot: number;
+  generation: number;
+}
+
+interface ScheduledJob {
+  job: Job;
+  generation: number;
+}
+
+// Longest delay setTimeout accepts
+const MAX_TIMER_MS = 2 ** 31 - 1;
+// Recent lateness values kept for the /health skew summary
+const LATENESS_WINDOW = 1000;
+
+const heap: HeapEntry[] = [];
+const jobs = new Map<string, ScheduledJob>();
+const recentLateness: number[] = [];
+let handler: SlotHandler | null = null;
+let timer: NodeJS.Timeout | null = null;
+let timerDueAt = Infinity;
+let nextGeneration = 1;
+
+function push(entry: HeapEntry): void {
+  heap.push(entry);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent].dueAt <= heap[i].dueAt) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+}
+
+function pop(): HeapEntry | undefined {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length > 0 && last) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < heap.length && heap[left].dueAt < heap[smallest].dueAt) smallest = left;
+      if (right < heap.length && heap[right].dueAt < heap[smallest].dueAt) smallest = right;
+      if (smallest === i) break;
+      [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+      i = smallest;
+    }
+  }
+  return top;
+}
+
+function cadenceMs(job: Job): number {
+  return job.cadence_seconds * 1000;
+}
+
+function endOf(job: Job): number {
+  return new Date(job.started_at).getTime() + job.duration_minutes * 60 * 1000;
+}
+
+function slotTime(job: Job, slot: number): number {
+  return new Date(job.started_at).getTime() + slot * cadenceMs(job);
+}
+
+// The slot a time falls in, counted from 0 at the job's start. The same on
+// every replica, so it can number the slot's sample.
+export function slotOf(job: Job, at: number): number {
+  return Math.max(0, Math.round((at - new Date(job.started_at).getTime()) / cadenceMs(job)));
+}
+
+// Queue a job's slot unless it falls after the job ends
+function enqueueSlot(jobId: string, scheduled: ScheduledJob, slot: number): void {
+  const dueAt = slotTime(scheduled.job, slot);
+  if (dueAt >= endOf(scheduled.job)) return;
+  push({ jobId, dueAt, slot, generation: scheduled.generation });
+  if (dueAt < timerDueAt) armTimer();
+}
+
+function armTimer(): void {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  timerDueAt = Infinity;
+  if (!handler || heap.length === 0) return;
+
+  timerDueAt = heap[0].dueAt;
+  timer = setTimeout(fireDueSlots, Math.min(MAX_TIMER_MS, Math.max(0, timerDueAt - Date.now())));
+}
+
+function fireDueSlots(): void {
+  timer = null;
+  timerDueAt = Infinity;
+  const now = Date.now();
+
+  while (heap.length > 0 && heap[0].dueAt <= now) {
+    const entry = pop()!;
+    const scheduled = jobs.get(entry.jobId);
+    // Superseded by a reschedule or unschedule
+    if (!scheduled || scheduled.generation !== entry.generation) continue;
+
+    // Fell more than a cadence behind: skip to the latest slot that is due
+    const interval = cadenceMs(scheduled.job);
+    let slot = entry.slot;
+    const latestDue = Math.floor((now - new Date(scheduled.job.started_at).getTime()) / interval);
+    if (latestDue > slot) {
+      scheduleSlotsSkipped.inc({ reason: 'behind' }, latestDue - slot);
+      slot = latestDue;
+    }
+
+    enqueueSlot(entry.jobId, scheduled, slot + 1);
+    try {
+      handler?.(scheduled.job, slotTime(scheduled.job, slot));
+    } catch (error) {
+      console.error(`Failed to fire slot for job ${entry.jobId}:`, error);
+    }
+  }
+
+  armTimer();
+}
+
+// Start firing slots through the given handler
+export function startScheduler(onSlot: SlotHandler): void {
+  handler = onSlot;
+  armTimer();
+}
+
+export function stopScheduler(): void {
+  handler = null;
+  armTimer();
+}
+
+// Add a job, or refresh its row. Its slots are recomputed only when the
+// timing changed, so refreshing every poll does not disturb the schedule.
+export function scheduleJob(job: Job): void {
+  const existing = jobs.get(job.id);
+  if (
+    existing &&
+    existing.job.started_at === job.started_at &&
+    existing.job.cadence_seconds === job.cadence_seconds &&
+    existing.job.duration_minutes === job.duration_minutes
+  ) {
+    existing.job = job;
+    return;
+  }
+
+  const scheduled: ScheduledJob = { job, generation: nextGeneration++ };
+  jobs.set(job.id, scheduled);
+
+  // Next slot at or after now; slots that passed while we did not own the job are gaps
+  const elapsed = Date.now() - new Date(job.started_at).getTime();
+  enqueueSlot(job.id, scheduled, Math.max(0, Math.ceil(elapsed / cadenceMs(job))));
+}
+
+export function unscheduleJob(jobId: string): void {
+  jobs.delete(jobId);
+}
+
+export function scheduledJobIds(): string[] {
+  return [...jobs.keys()];
+}
+
+// Next due slot of every scheduled job, by job id
+export function nextFireTimes(): Map<string, number> {
+  const next = new Map<string, number>();
+  for (const entry of heap) {
+    const scheduled = jobs.get(entry.jobId);
+    if (!scheduled || scheduled.generation !== entry.generation) continue;
+    const current = next.get(entry.jobId);
+    if (current === undefined || entry.dueAt < current) next.set(entry.jobId, entry.dueAt);
+  }
+  return next;
+}
+
+// Lateness of a slot's probe behind its scheduled time, for the skew summary
+export function recordLateness(ms: number): void {
+  recentLateness.push(ms);
+  if (recentLateness.length > LATENESS_WINDOW) recentLateness.shift();
+}
+
+// Snapshot for the /health endpoint
+export function getSchedulerSnapshot() {
+  const sorted = [...recentLateness].sort((a, b) => a - b);
+  const percentile = (q: number) =>
+    sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * q))] : null;
+
+  return {
+    scheduledJobs: jobs.size,
+    nextFireAt: heap.length > 0 && Number.isFinite(timerDueAt) ? new Date(timerDueAt).toISOString() : null,
+    latenessMs: {
+      samples: sorted.length,
+      p50: percentile(0.5),
+      p95: percentile(0.95),
+      max: sorted.length > 0 ? sorted[sorted.length - 1] : null,
+    },
+  };
+}
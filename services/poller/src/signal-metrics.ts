@@ -0,0 +1,166 @@
+/**
+ * DOCSIS signal metrics
+ *
+ * Jobs with `collect_signal_metrics` also have the modem's RF levels read
+ * from the CM Info API every `signal_cadence_seconds`, independently of the
+ * ping cadence. The MIB objects come back in tenths (TenthdBmV, TenthdB) and
+ * per bonded channel; a reading stores power and SNR averaged across channels
+ * and the codeword counters summed. A reading the API could not give is still
+ * stored, with `error` set, so gaps in the chart are explained.
+ *
+ * Readings are buffered in memory and inserted alongside the sample flush. A
+ * failed insert keeps them for the next one, up to `MAX_PENDING` readings.
+ */
+
+import { supabase } from './supabase.js';
+import { fetchCmInfo, numericValues, type CmInfoRecord } from './cm-info.js';
+import { resolveTarget } from './target-resolver.js';
+import { signalCollections } from './metrics.js';
+import type { Job, SignalSample } from './types.js';
+
+const MAX_PENDING = 1000;
+
+// jobId -> when its last reading was started
+const lastCollectedAt = new Map<string, number>();
+const inFlight = new Set<string>();
+let pending: SignalSample[] = [];
+let lastFlushAt: string | null = null;
+let lastFlushError: string | null = null;
+let droppedReadings = 0;
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((total, v) => total + v, 0) / values.length;
+}
+
+function sum(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((total, v) => total + v, 0) : null;
+}
+
+// Tenths of a unit to the unit, rounded to 0.1
+function fromTenths(value: number | null): number | null {
+  return value === null ? null : Math.round(value) / 10;
+}
+
+function parseReading(jobId: string, data: CmInfoRecord): SignalSample {
+  const downstreamPower = numericValues(data.docsIfDownChannelPower);
+  const downstreamSnr = numericValues(data.docsIfSigQSignalNoise);
+  const upstreamPower = numericValues(data.docsIfCmStatusTxPower);
+
+  return {
+    job_id: jobId,
+    recorded_at: new Date().toISOString(),
+    downstream_power_dbmv: fromTenths(average(downstreamPower)),
+    downstream_snr_db: fromTenths(average(downstreamSnr)),
+    upstream_power_dbmv: fromTenths(average(upstreamPower)),
+    corrected_codewords: sum(numericValues(data.docsIfSigQCorrecteds)),
+    uncorrectable_codewords: sum(numericValues(data.docsIfSigQUncorrectables)),
+    downstream_channels: downstreamPower.length || null,
+    upstream_channels: upstreamPower.length || null,
+    error: null,
+  };
+}
+
+function failedReading(jobId: string, error: string): SignalSample {
+  return {
+    job_id: jobId,
+    recorded_at: new Date().toISOString(),
+    downstream_power_dbmv: null,
+    downstream_snr_db: null,
+    upstream_power_dbmv: null,
+    corrected_codewords: null,
+    uncorrectable_codewords: null,
+    downstream_channels: null,
+    upstream_channels: null,
+    error,
+  };
+}
+
+// Oldest readings go first when the database has been unreachable for long
+function trimPending(): void {
+  if (pending.length > MAX_PENDING) {
+    droppedReadings += pending.length - MAX_PENDING;
+    pending = pending.slice(-MAX_PENDING);
+  }
+}
+
+function enqueue(reading: SignalSample): void {
+  pending.push(reading);
+  trimPending();
+}
+
+async function collect(job: Job): Promise<void> {
+  // The CM Info API knows the modem by IP or MAC; prefer where we probe it
+  const key = (job.probe_type === 'http' ? job.target_ip : await resolveTarget(job)) ?? job.target_mac;
+  if (!key) {
+    signalCollections.inc({ outcome: 'not_found' });
+    enqueue(failedReading(job.id, 'No IP or MAC known for the modem'));
+    return;
+  }
+
+  try {
+    const data = await fetchCmInfo(key);
+    if (!data) {
+      signalCollections.inc({ outcome: 'not_found' });
+      enqueue(failedReading(job.id, `CM Info API has no modem at ${key}`));
+      return;
+    }
+    signalCollections.inc({ outcome: 'success' });
+    enqueue(parseReading(job.id, data));
+  } catch (error) {
+    signalCollections.inc({ outcome: 'error' });
+    console.error(`Job ${job.id}: failed to read signal metrics:`, error);
+    enqueue(failedReading(job.id, error instanceof Error ? error.message : String(error)));
+  }
+}
+
+// Take a reading for a job if its signal cadence has elapsed. Runs in the
+// background; the poll loop calls this for every owned job on each pass.
+export function maybeCollectSignal(job: Job): void {
+  // A simulated job's modem is not there to ask
+  if (!job.collect_signal_metrics || job.monitoring_mode === 'simulated' || inFlight.has(job.id)) return;
+
+  const last = lastCollectedAt.get(job.id);
+  if (last !== undefined && Date.now() - last < job.signal_cadence_seconds * 1000) return;
+
+  lastCollectedAt.set(job.id, Date.now());
+  inFlight.add(job.id);
+  collect(job).finally(() => {
+    inFlight.delete(job.id);
+  });
+}
+
+export async function flushSignalSamples(): Promise<void> {
+  if (pending.length === 0) return;
+
+  const batch = pending;
+  pending = [];
+  const { error } = await supabase.from('signal_samples').insert(batch);
+
+  if (error) {
+    lastFlushError = error.message;
+    console.error('Failed to store signal samples:', error);
+    // Put them back ahead of anything collected while the insert was in flight
+    pending = batch.concat(pending);
+    trimPending();
+    return;
+  }
+
+  lastFlushAt = new Date().toISOString();
+  lastFlushError = null;
+}
+
+export function forgetSignalState(jobId: string): void {
+  lastCollectedAt.delete(jobId);
+}
+
+// Snapshot for the /health endpoint
+export function getSignalSnapshot() {
+  return {
+    jobs: lastCollectedAt.size,
+    pendingReadings: pending.length,
+    droppedReadings,
+    lastFlushAt,
+    lastFlushError,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * MAC-to-IP resolution for MAC-targeted jobs
+ *
+ * A job may name its modem only by MAC, and a modem's management IP can
+ * change on DHCP renewal during a multi-day job. Such jobs are probed at the
+ * IP the CM Info API currently reports for the MAC: it is looked up before the
+ * first probe, and again once `MAC_RERESOLVE_MISSES` probes in a row have
+ * been missed (at most every `MAC_RESOLVE_INTERVAL_MS`). A new address is
+ * written to the job's `target_ip`, so a replica taking the job over starts
+ * from it, and recorded as a `job_events` row.
+ *
+ * Jobs with only an IP are probed at that IP and never looked up.
+ */
+
+import { supabase } from './supabase.js';
+import { MAC_RERESOLVE_MISSES, MAC_RESOLVE_INTERVAL_MS } from './config.js';
+import { fetchCmInfo } from './cm-info.js';
+import { targetResolutions } from './metrics.js';
+import type { Job, SampleStatus } from './types.js';
+
+interface TargetState {
+  ip: string | null;
+  consecutiveMisses: number;
+  // Set when the current IP should be checked before the next probe
+  stale: boolean;
+  lastLookupAt: number;
+}
+
+const targets = new Map<string, TargetState>();
+
+function normalizeMac(mac: string): string {
+  return mac.replace(/[^0-9a-f]/gi, '').toLowerCase();
+}
+
+// Ask the CM Info API which IP the modem with this MAC currently has.
+// Null when the API does not know the modem (offline or deprovisioned).
+async function lookupModemIp(mac: string): Promise<string | null> {
+  const data = await fetchCmInfo(mac);
+  if (!data) return null;
+  // Guard against the API answering for a different modem
+  const reportedMac = typeof data.ifPhysAddress === 'string' ? data.ifPhysAddress : null;
+  if (reportedMac && normalizeMac(reportedMac) !== normalizeMac(mac)) {
+    throw new Error(`CM Info API returned MAC ${reportedMac} for ${mac}`);
+  }
+  return typeof data.ipAddress === 'string' && data.ipAddress ? data.ipAddress : null;
+}
+
+async function recordIpChange(job: Job, previousIp: string | null, ip: string, reason: string): Promise<void> {
+  console.log(`Job ${job.id}: ${job.target_mac} resolved to ${ip}${previousIp ? ` (was ${previousIp})` : ''}`);
+
+  const { error: updateError } = await supabase
+    .from('jobs')
+    .update({ target_ip: ip })
+    .eq('id', job.id);
+  if (updateError) {
+    console.error(`Failed to store resolved IP for job ${job.id}:`, updateError);
+  }
+
+  const { error: eventError } = await supabase.from('job_events').insert({
+    job_id: job.id,
+    event_type: previousIp ? 'target_ip_changed' : 'target_resolved',
+    details: { mac: job.target_mac, previous_ip: previousIp, ip, reason },
+  });
+  if (eventError) {
+    console.error(`Failed to record IP change for job ${job.id}:`, eventError);
+  }
+}
+
+// The IP to probe for a job, looking the MAC up first when needed. Falls back
+// to the last known IP while the lookup fails; null if there has never been one.
+export async function resolveTarget(job: Job): Promise<string | null> {
+  if (!job.target_mac) return job.target_ip;
+
+  let state = targets.get(job.id);
+  if (!state) {
+    state = { ip: job.target_ip, consecutiveMisses: 0, stale: !job.target_ip, lastLookupAt: 0 };
+    targets.set(job.id, state);
+  }
+
+  const due = state.stale && Date.now() - state.lastLookupAt >= MAC_RESOLVE_INTERVAL_MS;
+  if (!due) return state.ip;
+
+  state.lastLookupAt = Date.now();
+  const reason = state.ip ? 'repeated_misses' : 'initial';
+  try {
+    const ip = await lookupModemIp(job.target_mac);
+    if (!ip) {
+      targetResolutions.inc({ outcome: 'not_found' });
+      console.warn(`Job ${job.id}: CM Info API has no IP for ${job.target_mac}`);
+      return state.ip;
+    }
+
+    state.stale = false;
+    state.consecutiveMisses = 0;
+    if (ip === state.ip) {
+      targetResolutions.inc({ outcome: 'unchanged' });
+      return ip;
+    }
+
+    targetResolutions.inc({ outcome: 'changed' });
+    const previousIp = state.ip;
+    state.ip = ip;
+    await recordIpChange(job, previousIp, ip, reason);
+    return ip;
+  } catch (error) {
+    targetResolutions.inc({ outcome: 'error' });
+    console.error(`Job ${job.id}: failed to resolve ${job.target_mac}:`, error);
+    return state.ip;
+  }
+}
+
+// Track probe outcomes; enough misses in a row suggest the modem has moved
+export function noteProbeOutcome(jobId: string, status: SampleStatus): void {
+  const state = targets.get(jobId);
+  if (!state) return;
+
+  if (status === 'success') {
+    state.consecutiveMisses = 0;
+  } else if (status === 'missed' && ++state.consecutiveMisses >= MAC_RERESOLVE_MISSES) {
+    state.stale = true;
+  }
+}
+
+export function forgetTarget(jobId: string): void {
+  targets.delete(jobId);
+}
@@ -0,0 +1,129 @@
+/**
+ * Row shapes shared across poller modules.
+ */
+
+export type SampleStatus = 'success' | 'missed' | 'system_error' | 'upstream_error';
+export type BreakerState = 'closed' | 'open' | 'half_open';
+export type AlertState = 'ok' | 'offline_alerted';
+export type ProbeType = 'latency_api' | 'icmp' | 'tcp' | 'http';
+// Why a probe did not succeed; see the samples.error_code constraint
+export type SampleErrorCode =
+  | 'timeout'
+  | 'host_unreachable'
+  | 'connection_refused'
+  | 'connection_reset'
+  | 'connection_failed'
+  | 'http_error'
+  | 'api_http_error'
+  | 'api_timeout'
+  | 'api_unreachable'
+  | 'api_error'
+  | 'api_circuit_open'
+  | 'no_target'
+  | 'unsupported_probe'
+  | 'probe_failed';
+export type FailureReason = 'target_unresolved' | 'system_errors' | 'probe_backend_unreachable';
+export type MonitoringMode = 'simulated' | 'real_polling';
+export type SimulatorScenario = 'healthy' | 'intermittent' | 'offline';
+
+export interface Job {
+  id: string;
+  target_ip: string | null;
+  target_mac: string | null;
+  cadence_seconds: number;
+  duration_minutes: number;
+  started_at: string;
+  last_ping_at: string | null;
+  status: string;
+  monitoring_mode: MonitoringMode;
+  // Simulated jobs: the scenario's id, and a copy of its definition for jobs
+  // created with configurable scenarios. Older jobs name a built-in pattern,
+  // or null until one is picked.
+  simulator_scenario: string | null;
+  simulator_config: SimulationScenario | null;
+  // Set on simulated jobs that play back another job's samples
+  replay_of_job_id: string | null;
+  replay_speed: number | null;
+  probe_type: ProbeType;
+  probe_port: number | null;
+  probe_url: string | null;
+  burst_size: number;
+  alert_on_offline: boolean;
+  alert_on_recovery: boolean;
+  alert_state: AlertState;
+  // Set while an operator has paused polling through the admin API
+  polling_paused_at: string | null;
+  collect_signal_metrics: boolean;
+  signal_cadence_seconds: number;
+}
+
+// One DOCSIS signal reading, averaged across the modem's bonded channels
+// An admin-defined simulation scenario, as copied onto the job (see
+// src/lib/simulation-scenarios.ts in the web app). Minutes count from the
+// job's start.
+export interface SimulationScenario {
+  id: string;
+  name: string;
+  seed: number;
+  rtt: { distribution: 'uniform' | 'normal'; mean_ms: number; spread_ms: number };
+  loss_percent: number;
+  system_error_percent: number;
+  outages: { start_minute: number; duration_minutes: number | null; loss_percent: number }[];
+  latency_steps: { at_minute: number; delta_ms: number }[];
+  flapping: { start_minute: number; period_minutes: number; down_minutes: number; loss_percent: number } | null;
+}
+
+export interface SignalSample {
+  job_id: string;
+  recorded_at: string;
+  downstream_power_dbmv: number | null;
+  downstream_snr_db: number | null;
+  upstream_power_dbmv: number | null;
+  corrected_codewords: number | null;
+  uncorrectable_codewords: number | null;
+  downstream_channels: number | null;
+  upstream_channels: number | null;
+  error: string | null;
+}
+
+export interface Sample {
+  job_id: string;
+  sequence_number: number;
+  status: SampleStatus;
+  rtt_ms: number | null;
+  jitter_ms: number | null;
+  packets_sent: number | null;
+  packets_lost: number | null;
+  rtt_min_ms: number | null;
+  rtt_max_ms: number | null;
+  rtt_mdev_ms: number | null;
+  // Cadence slot the probe was for, and how late it started
+  scheduled_at: string | null;
+  schedule_lateness_ms: number | null;
+  // When the probe went out and when its (last) reply came back; the row's
+  // recorded_at is only when the flush stored it
+  probe_sent_at: string;
+  probe_responded_at: string | null;
+  // Why the probe did not succeed; null on success
+  error_code: SampleErrorCode | null;
+  error_detail: string | null;
+}
+
+// Outcome of a single probe, already classified by the driver that ran it
+export interface ProbeResult {
+  status: SampleStatus;
+  rtt_ms: number | null;
+  error_code?: SampleErrorCode;
+  // Raw message behind error_code
+  error?: string;
+  burst?: BurstStats;
+}
+
+// Spread of a multi-probe burst; rtt_ms on the result is the burst average
+export interface BurstStats {
+  packets_sent: number;
+  packets_lost: number;
+  rtt_min_ms: number | null;
+  rtt_max_ms: number | null;
+  rtt_mdev_ms: number | null;
+}
@@ -0,0 +1,132 @@
+import { appendFile, mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Sample } from './types.js';
+
+type Wal = typeof import('./wal.js');
+
+function makeSample(jobId: string, sequence: number, rtt: number | null = 20): Sample {
+  return {
+    job_id: jobId,
+    sequence_number: sequence,
+    status: rtt === null ? 'missed' : 'success',
+    rtt_ms: rtt,
+    probe_sent_at: new Date(Date.UTC(2026, 2, 1, 12, 0, sequence)).toISOString(),
+  } as Sample;
+}
+
+describe('write-ahead buffer', () => {
+  let dir: string;
+  let wal: Wal;
+
+  // A fresh module stands in for a restarted process reading the same directory
+  async function restart(): Promise<number> {
+    await wal?.closeWal();
+    vi.resetModules();
+    wal = await import('./wal.js');
+    return wal.openWal();
+  }
+
+  async function segmentFiles(): Promise<string[]> {
+    return (await readdir(dir)).filter(name => name.endsWith('.wal')).sort();
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'poller-wal-'));
+    vi.stubEnv('WAL_DIR', dir);
+    // Small segments, so a handful of samples spans several
+    vi.stubEnv('WAL_SEGMENT_BYTES', '400');
+    await restart();
+  });
+
+  afterEach(async () => {
+    await wal.closeWal();
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('hands samples back in append order until they are committed', async () => {
+    for (let i = 1; i <= 3; i++) await wal.appendSample(makeSample('job-1', i));
+
+    expect((await wal.peekSamples(2)).map(s => s.sequence_number)).toEqual([1, 2]);
+    // Peeking alone removes nothing
+    expect((await wal.peekSamples(10)).map(s => s.sequence_number)).toEqual([1, 2, 3]);
+
+    await wal.commitSamples(2);
+
+    expect((await wal.peekSamples(10)).map(s => s.sequence_number)).toEqual([3]);
+    expect(wal.walDepth()).toBe(1);
+  });
+
+  it('tracks buffered samples per job until they are stored', async () => {
+    await wal.appendSample(makeSample('job-1', 1, 12));
+    await wal.appendSample(makeSample('job-2', 1));
+    await wal.appendSample(makeSample('job-1', 2, null));
+
+    expect(wal.pendingJobIds().sort()).toEqual(['job-1', 'job-2']);
+    expect(wal.pendingForJob('job-1')).toMatchObject({ count: 2, lastRtt: 12 });
+    expect(wal.pendingForJob('job-1')?.recent.map(s => s.sequence_number)).toEqual([1, 2]);
+
+    await wal.commitSamples(2);
+
+    expect(wal.pendingJobIds()).toEqual(['job-1']);
+    expect(wal.pendingForJob('job-1')?.count).toBe(1);
+  });
+
+  it('rolls over to a new segment and deletes segments once they are stored', async () => {
+    for (let i = 1; i <= 12; i++) await wal.appendSample(makeSample('job-1', i));
+    const written = await segmentFiles();
+    expect(written.length).toBeGreaterThan(2);
+
+    // Commit in small steps, as the flush does, reading each head segment in turn
+    for (;;) {
+      const batch = await wal.peekSamples(2);
+      if (batch.length === 0) break;
+      await wal.commitSamples(batch.length);
+    }
+
+    expect(wal.walDepth()).toBe(0);
+    // Only the active segment is left
+    expect(await segmentFiles()).toEqual([written[written.length - 1]]);
+  });
+
+  it('replays samples that were not stored before a restart', async () => {
+    for (let i = 1; i <= 12; i++) await wal.appendSample(makeSample('job-1', i));
+    // A peek stops at the end of the head segment, so this may be fewer than 5
+    const stored = (await wal.peekSamples(5)).length;
+    await wal.commitSamples(stored);
+
+    const replayed = await restart();
+
+    expect(replayed).toBe(12 - stored);
+    const remaining: number[] = [];
+    for (;;) {
+      const next = await wal.peekSamples(3);
+      if (next.length === 0) break;
+      remaining.push(...next.map(s => s.sequence_number));
+      await wal.commitSamples(next.length);
+    }
+    expect(remaining).toEqual(Array.from({ length: 12 - stored }, (_, i) => stored + i + 1));
+  });
+
+  it('resumes from the checkpoint inside a partly stored segment', async () => {
+    await wal.appendSample(makeSample('job-1', 1));
+    await wal.appendSample(makeSample('job-1', 2));
+    await wal.commitSamples(1);
+
+    expect(await restart()).toBe(1);
+    expect((await wal.peekSamples(10)).map(s => s.sequence_number)).toEqual([2]);
+    expect(wal.pendingForJob('job-1')?.count).toBe(1);
+  });
+
+  it('ignores a record torn by a crash mid-write', async () => {
+    await wal.appendSample(makeSample('job-1', 1));
+    await wal.closeWal();
+    const [segment] = await segmentFiles();
+    await appendFile(join(dir, segment), '{"job_id":"job-1","sequ');
+
+    expect(await restart()).toBe(1);
+    expect((await wal.peekSamples(10)).map(s => s.sequence_number)).toEqual([1]);
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Durable write-ahead buffer for samples
+ *
+ * Every sample is appended to a local segment file (one JSON line per sample)
+ * before it is acknowledged, and removed only once it is stored in Postgres.
+ * A replica that is restarted, OOM-killed, evicted or rescheduled during a
+ * database outage replays its buffer in order on startup, as long as WAL_DIR is
+ * on storage that outlives the pod (the StatefulSet's volume claim). A batch that was stored just before a crash is
+ * sent again and skipped as a duplicate of the replica's own rows. Samples are
+ * numbered by cadence slot and a job's lease is kept while it has samples
+ * here, so a row with the same key but other content is a conflict between
+ * replicas; the flush logs those rather than dropping them silently.
+ *
+ * Segments are named by an increasing id. The last segment takes appends;
+ * when it reaches WAL_SEGMENT_BYTES a new one is started. `checkpoint.json`
+ * records how many samples of the oldest segment are stored, and a segment is
+ * deleted once all of its samples are. Only the oldest and the newest segment
+ * are held in memory, so an outage costs disk rather than heap.
+ */
+
+import { mkdir, open, readdir, readFile, rename, stat, unlink, writeFile, type FileHandle } from 'node:fs/promises';
+import { join } from 'node:path';
+import { WAL_DIR, WAL_MAX_BYTES, WAL_SEGMENT_BYTES } from './config.js';
+import type { Sample } from './types.js';
+
+interface Segment {
+  id: number;
+  bytes: number;
+  count: number;
+  // Loaded for the oldest (head) and newest (active) segments only
+  records: Sample[] | null;
+}
+
+interface Checkpoint {
+  segment: number;
+  offset: number;
+}
+
+// Samples still to be stored for a job, and the newest of them
+interface PendingJob {
+  count: number;
+  lastRtt: number | null;
+  // The newest RECENT_PER_JOB samples, oldest first; some may be stored already
+  recent: Sample[];
+}
+
+const CHECKPOINT_FILE = 'checkpoint.json';
+const RECENT_PER_JOB = 10;
+
+const segments: Segment[] = [];
+const pendingByJob = new Map<string, PendingJob>();
+let activeHandle: FileHandle | null = null;
+// Samples of the head segment already stored
+let headOffset = 0;
+let totalBytes = 0;
+let depth = 0;
+// Appends run one at a time so file order matches call order
+let appendChain: Promise<void> = Promise.resolve();
+let lastCommitAt: string | null = null;
+
+function segmentPath(id: number): string {
+  return join(WAL_DIR, `${String(id).padStart(10, '0')}.wal`);
+}
+
+// Parse a segment file, ignoring a torn final line left by a crash mid-write
+function parseSegment(contents: string): Sample[] {
+  const records: Sample[] = [];
+  for (const line of contents.split('\n')) {
+    if (!line) continue;
+    try {
+      records.push(JSON.parse(line) as Sample);
+    } catch {
+      console.warn('Ignoring unreadable write-ahead buffer record');
+    }
+  }
+  return records;
+}
+
+function trackPending(sample: Sample): void {
+  const pending = pendingByJob.get(sample.job_id) ?? { count: 0, lastRtt: null, recent: [] };
+  pending.count++;
+  if (sample.status === 'success' && sample.rtt_ms !== null) {
+    pending.lastRtt = sample.rtt_ms;
+  }
+  pending.recent.push(sample);
+  if (pending.recent.length > RECENT_PER_JOB) pending.recent.shift();
+  pendingByJob.set(sample.job_id, pending);
+}
+
+function untrackPending(sample: Sample): void {
+  const pending = pendingByJob.get(sample.job_id);
+  if (!pending) return;
+  pending.count--;
+  if (pending.count <= 0) {
+    pendingByJob.delete(sample.job_id);
+  }
+}
+
+async function writeCheckpoint(): Promise<void> {
+  const checkpoint: Checkpoint = { segment: segments[0].id, offset: headOffset };
+  const tmp = join(WAL_DIR, `${CHECKPOINT_FILE}.tmp`);
+  await writeFile(tmp, JSON.stringify(checkpoint));
+  await rename(tmp, join(WAL_DIR, CHECKPOINT_FILE));
+}
+
+async function readCheckpoint(): Promise<Checkpoint | null> {
+  try {
+    return JSON.parse(await readFile(join(WAL_DIR, CHECKPOINT_FILE), 'utf8')) as Checkpoint;
+  } catch {
+    return null;
+  }
+}
+
+async function startSegment(id: number): Promise<void> {
+  activeHandle = await open(segmentPath(id), 'a');
+  segments.push({ id, bytes: 0, count: 0, records: [] });
+}
+
+// Delete fully stored segments from the head, never the active one
+async function dropStoredSegments(): Promise<void> {
+  let dropped = false;
+  while (segments.length > 1 && headOffset >= segments[0].count) {
+    const [head] = segments.splice(0, 1);
+    totalBytes -= head.bytes;
+    headOffset = 0;
+    await unlink(segmentPath(head.id));
+    dropped = true;
+  }
+  if (dropped) {
+    await writeCheckpoint();
+  }
+}
+
+// Load the buffer left by a previous run and start a fresh active segment.
+// Returns the number of samples waiting to be replayed.
+export async function openWal(): Promise<number> {
+  await mkdir(WAL_DIR, { recursive: true });
+
+  const ids = (await readdir(WAL_DIR))
+    .filter(name => name.endsWith('.wal'))
+    .map(name => parseInt(name, 10))
+    .filter(id => Number.isFinite(id))
+    .sort((a, b) => a - b);
+  const checkpoint = await readCheckpoint();
+
+  for (const id of ids) {
+    // Segments before the checkpoint were stored but not yet deleted
+    if (checkpoint && id < checkpoint.segment) {
+      await unlink(segmentPath(id));
+      continue;
+    }
+
+    const records = parseSegment(await readFile(segmentPath(id), 'utf8'));
+    const skip = checkpoint && id === checkpoint.segment ? Math.min(checkpoint.offset, records.length) : 0;
+    if (segments.length === 0) headOffset = skip;
+    for (const record of records.slice(skip)) trackPending(record);
+
+    const { size } = await stat(segmentPath(id));
+    segments.push({ id, bytes: size, count: records.length, records: null });
+    totalBytes += size;
+    depth += records.length - skip;
+  }
+
+  await startSegment((ids.at(-1) ?? 0) + 1);
+  await dropStoredSegments();
+  await writeCheckpoint();
+  return depth;
+}
+
+// Durably append a sample; resolves once it is on disk
+export function appendSample(sample: Sample): Promise<void> {
+  const append = appendChain.then(async () => {
+    let active = segments[segments.length - 1];
+    if (active.bytes >= WAL_SEGMENT_BYTES) {
+      await activeHandle?.close();
+      // Keep the outgoing segment's records only if it is the next to replay
+      if (segments.length > 1) active.records = null;
+      await startSegment(active.id + 1);
+      await dropStoredSegments();
+      active = segments[segments.length - 1];
+    }
+
+    const line = `${JSON.stringify(sample)}\n`;
+    await activeHandle!.write(line);
+    await activeHandle!.datasync();
+
+    const bytes = Buffer.byteLength(line);
+    active.bytes += bytes;
+    active.count++;
+    active.records!.push(sample);
+    totalBytes += bytes;
+    depth++;
+    trackPending(sample);
+  });
+  // Keep the chain alive after a failed append
+  appendChain = append.catch(() => {});
+  return append;
+}
+
+// The oldest samples not yet stored, in append order. Call commitSamples with
+// the number stored; nothing is removed until then.
+export async function peekSamples(max: number): Promise<Sample[]> {
+  const head = segments[0];
+  if (!head || headOffset >= head.count) return [];
+  if (!head.records) {
+    head.records = parseSegment(await readFile(segmentPath(head.id), 'utf8'));
+  }
+  return head.records.slice(headOffset, headOffset + max);
+}
+
+// Mark the first `count` peeked samples as stored
+export async function commitSamples(count: number): Promise<void> {
+  const head = segments[0];
+  if (!head?.records) return;
+  count = Math.min(count, head.count - headOffset);
+  if (count <= 0) return;
+
+  for (const sample of head.records.slice(headOffset, headOffset + count)) {
+    untrackPending(sample);
+  }
+  headOffset += count;
+  depth -= count;
+  lastCommitAt = new Date().toISOString();
+
+  await writeCheckpoint();
+  await dropStoredSegments();
+}
+
+// Samples for a job that are buffered but not yet stored
+export function pendingForJob(jobId: string): PendingJob | undefined {
+  return pendingByJob.get(jobId);
+}
+
+// Jobs with samples buffered but not yet stored
+export function pendingJobIds(): string[] {
+  return [...pendingByJob.keys()];
+}
+
+export function walDepth(): number {
+  return depth;
+}
+
+export function walBytes(): number {
+  return totalBytes;
+}
+
+// Once the buffer reaches its size cap, new pings must wait for it to drain
+export function isWalFull(): boolean {
+  return totalBytes >= WAL_MAX_BYTES;
+}
+
+export async function closeWal(): Promise<void> {
+  await appendChain;
+  await activeHandle?.close();
+  activeHandle = null;
+}
+
+// Snapshot for the /health endpoint
+export function getWalSnapshot() {
+  return {
+    dir: WAL_DIR,
+    depth,
+    bytes: totalBytes,
+    maxBytes: WAL_MAX_BYTES,
+    full: isWalFull(),
+    segments: segments.length,
+    jobs: pendingByJob.size,
+    lastCommitAt,
+  };
+}
@@ -0,0 +1,262 @@
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+import type { RttDistribution, SimulationScenario } from '@/types';
+
+interface SimulationScenarioEditorProps {
+  scenario: SimulationScenario;
+  onChange: (scenario: SimulationScenario) => void;
+  onDelete: () => void;
+  canDelete: boolean;
+}
+
+function toNumber(value: string): number {
+  return parseFloat(value) || 0;
+}
+
+function RemoveButton({ onClick, disabled }: { onClick: () => void; disabled?: boolean }) {
+  return (
+    <Button
+      type="button"
+      variant="ghost"
+      size="icon"
+      onClick={onClick}
+      disabled={disabled}
+      className="h-9 w-9 text-muted-foreground hover:text-destructive"
+    >
+      <X className="h-4 w-4" />
+    </Button>
+  );
+}
+
+export function SimulationScenarioEditor({
+  scenario,
+  onChange,
+  onDelete,
+  canDelete,
+}: SimulationScenarioEditorProps) {
+  function update(changes: Partial<SimulationScenario>) {
+    onChange({ ...scenario, ...changes });
+  }
+
+  return (
+    <div className="rounded-md border p-4 space-y-4">
+      <div className="flex items-end gap-2">
+        <div className="flex-1 space-y-1">
+          <Label className="text-xs">Name</Label>
+          <Input value={scenario.name} onChange={(e) => update({ name: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Seed</Label>
+          <Input
+            type="number"
+            value={scenario.seed}
+            onChange={(e) => update({ seed: parseInt(e.target.value) || 0 })}
+            className="w-28"
+          />
+        </div>
+        <RemoveButton onClick={onDelete} disabled={!canDelete} />
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Description</Label>
+        <Input value={scenario.description} onChange={(e) => update({ description: e.target.value })} />
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-5">
+        <div className="space-y-1">
+          <Label className="text-xs">RTT Distribution</Label>
+          <Select
+            value={scenario.rtt.distribution}
+            onValueChange={(distribution: RttDistribution) => update({ rtt: { ...scenario.rtt, distribution } })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover">
+              <SelectItem value="uniform">Uniform</SelectItem>
+              <SelectItem value="normal">Normal</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Mean RTT (ms)</Label>
+          <Input
+            type="number"
+            min={1}
+            value={scenario.rtt.mean_ms}
+            onChange={(e) => update({ rtt: { ...scenario.rtt, mean_ms: toNumber(e.target.value) } })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">{scenario.rtt.distribution === 'normal' ? 'Std Dev (ms)' : '± Spread (ms)'}</Label>
+          <Input
+            type="number"
+            min={0}
+            value={scenario.rtt.spread_ms}
+            onChange={(e) => update({ rtt: { ...scenario.rtt, spread_ms: toNumber(e.target.value) } })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Loss (%)</Label>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            step="0.1"
+            value={scenario.loss_percent}
+            onChange={(e) => update({ loss_percent: toNumber(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">System Errors (%)</Label>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            step="0.1"
+            value={scenario.system_error_percent}
+            onChange={(e) => update({ system_error_percent: toNumber(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      {/* Outage windows */}
+      <div className="space-y-2">
+        <Label className="text-xs">Outages (start minute, duration in minutes or blank for the rest of the job, loss %)</Label>
+        {scenario.outages.map((outage, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={0}
+              value={outage.start_minute}
+              onChange={(e) => update({
+                outages: scenario.outages.map((o, i) => i === index ? { ...o, start_minute: toNumber(e.target.value) } : o),
+              })}
+              className="w-24"
+            />
+            <Input
+              type="number"
+              min={1}
+              placeholder="to end"
+              value={outage.duration_minutes ?? ''}
+              onChange={(e) => update({
+                outages: scenario.outages.map((o, i) => i === index
+                  ? { ...o, duration_minutes: e.target.value === '' ? null : toNumber(e.target.value) }
+                  : o),
+              })}
+              className="w-24"
+            />
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={outage.loss_percent}
+              onChange={(e) => update({
+                outages: scenario.outages.map((o, i) => i === index ? { ...o, loss_percent: toNumber(e.target.value) } : o),
+              })}
+              className="w-20"
+            />
+            <RemoveButton onClick={() => update({ outages: scenario.outages.filter((_, i) => i !== index) })} />
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          onClick={() => update({
+            outages: [...scenario.outages, { start_minute: 0, duration_minutes: 10, loss_percent: 100 }],
+          })}
+        >
+          <Plus className="h-3 w-3" />
+          Add Outage
+        </Button>
+      </div>
+
+      {/* Latency step changes */}
+      <div className="space-y-2">
+        <Label className="text-xs">Latency Steps (from minute, added RTT in ms)</Label>
+        {scenario.latency_steps.map((step, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={0}
+              value={step.at_minute}
+              onChange={(e) => update({
+                latency_steps: scenario.latency_steps.map((s, i) => i === index ? { ...s, at_minute: toNumber(e.target.value) } : s),
+              })}
+              className="w-24"
+            />
+            <Input
+              type="number"
+              value={step.delta_ms}
+              onChange={(e) => update({
+                latency_steps: scenario.latency_steps.map((s, i) => i === index ? { ...s, delta_ms: toNumber(e.target.value) } : s),
+              })}
+              className="w-24"
+            />
+            <RemoveButton onClick={() => update({ latency_steps: scenario.latency_steps.filter((_, i) => i !== index) })} />
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          onClick={() => update({ latency_steps: [...scenario.latency_steps, { at_minute: 30, delta_ms: 50 }] })}
+        >
+          <Plus className="h-3 w-3" />
+          Add Step
+        </Button>
+      </div>
+
+      {/* Flapping */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id={`flapping-${scenario.id}`}
+            checked={scenario.flapping !== null}
+            onCheckedChange={(checked) => update({
+              flapping: checked
+                ? { start_minute: 0, period_minutes: 20, down_minutes: 5, loss_percent: 100 }
+                : null,
+            })}
+          />
+          <Label htmlFor={`flapping-${scenario.id}`} className="text-xs font-normal">
+            Flapping (down for part of every period)
+          </Label>
+        </div>
+        {scenario.flapping && (
+          <div className="grid gap-3 sm:grid-cols-4">
+            {([
+              ['start_minute', 'From Minute'],
+              ['period_minutes', 'Period (min)'],
+              ['down_minutes', 'Down (min)'],
+              ['loss_percent', 'Loss While Down (%)'],
+            ] as const).map(([field, label]) => (
+              <div key={field} className="space-y-1">
+                <Label className="text-xs">{label}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={scenario.flapping![field]}
+                  onChange={(e) => update({ flapping: { ...scenario.flapping!, [field]: toNumber(e.target.value) } })}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
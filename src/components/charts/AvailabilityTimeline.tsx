@@ -1,13 +1,21 @@
-import { useMemo } from 'react';
+import { Fragment, useMemo } from 'react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { cn } from '@/lib/utils';
-import type { Sample, SampleStatus } from '@/types';
+import { rollupNoDataCount } from '@/lib/calculations';
+import { formatSampleError } from '@/lib/format';
+import type { DataGap, Sample, SampleRollup, SampleStatus } from '@/types';
 import { format } from 'date-fns';
 
 interface AvailabilityTimelineProps {
   samples: Sample[];
+  // When given, show these buckets instead of the raw samples
+  rollups?: SampleRollup[];
   startTime: Date;
   endTime?: Date;
+  // Stretches with no samples, drawn between the samples around them
+  gaps?: DataGap[];
+  // With endTime, lets buckets show the share of their slots that has no sample
+  cadenceSeconds?: number;
   height?: number;
 }
 
@@ -15,36 +23,92 @@ const STATUS_COLORS: Record<SampleStatus, string> = {
   success: 'bg-emerald-500',
   missed: 'bg-destructive',
   system_error: 'bg-amber-500',
+  upstream_error: 'bg-slate-400',
+  no_data: 'bg-muted',
 };
 
 const STATUS_LABELS: Record<SampleStatus, string> = {
   success: 'Success',
   missed: 'Missed',
   system_error: 'System Error',
+  upstream_error: 'Upstream Outage',
+  no_data: 'No Data',
 };
 
+// Slot counts per status within a bucket, in stacking order
+function rollupSegments(rollup: SampleRollup, noDataCount: number): { status: SampleStatus; count: number }[] {
+  return [
+    { status: 'success' as const, count: rollup.success_count },
+    { status: 'missed' as const, count: rollup.missed_count },
+    { status: 'system_error' as const, count: rollup.system_error_count },
+    { status: 'upstream_error' as const, count: rollup.upstream_error_count },
+    // An empty bucket is all gap even when its slots cannot be counted
+    { status: 'no_data' as const, count: rollup.sample_count === 0 ? Math.max(1, noDataCount) : noDataCount },
+  ].filter(segment => segment.count > 0);
+}
+
+function formatGapRange(gap: DataGap): string {
+  return `${format(new Date(gap.start), 'MMM d, h:mm:ss a')} – ${format(new Date(gap.end), 'h:mm:ss a')}`;
+}
+
+function formatBucketRange(rollup: SampleRollup): string {
+  const pattern = rollup.bucket_minutes >= 60 ? 'MMM d, h a' : 'MMM d, h:mm a';
+  return `${format(new Date(rollup.bucket_start), pattern)} – ${format(new Date(rollup.bucket_end), rollup.bucket_minutes >= 60 ? 'h a' : 'h:mm a')}`;
+}
+
+// A stretch with no samples, as wide as the slots it should have held
+function GapBar({ gap }: { gap: DataGap }) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div
+          className={cn('flex-1 min-w-[2px] transition-opacity hover:opacity-80 cursor-pointer', STATUS_COLORS.no_data)}
+          style={{ flexGrow: gap.missingSamples, flexShrink: 1 }}
+        />
+      </TooltipTrigger>
+      <TooltipContent>
+        <div className="text-xs space-y-1">
+          <p className="font-medium">{STATUS_LABELS.no_data}</p>
+          <p>{formatGapRange(gap)}</p>
+          <p className="text-muted-foreground">
+            {gap.missingSamples} expected {gap.missingSamples === 1 ? 'sample' : 'samples'} never taken
+          </p>
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
 export function AvailabilityTimeline({
   samples,
+  rollups,
   startTime,
   endTime,
+  gaps = [],
+  cadenceSeconds,
   height = 32,
 }: AvailabilityTimelineProps) {
   const sortedSamples = useMemo(
     () =>
       [...samples].sort((a, b) => {
-        const at = new Date(a.recorded_at).getTime();
-        const bt = new Date(b.recorded_at).getTime();
+        const at = new Date(a.probe_sent_at).getTime();
+        const bt = new Date(b.probe_sent_at).getTime();
         if (at !== bt) return at - bt;
         return a.sequence_number - b.sequence_number;
       }),
     [samples]
   );
 
+  const isBucketed = !!rollups && rollups.length > 0;
+
   const timeMarkers = useMemo(() => {
     if (sortedSamples.length === 0) return [];
     
     const start = new Date(startTime);
-    const end = endTime ? new Date(endTime) : new Date(sortedSamples[sortedSamples.length - 1]?.recorded_at || startTime);
+    const lastSeenAt = isBucketed
+      ? rollups[rollups.length - 1].bucket_end
+      : sortedSamples[sortedSamples.length - 1]?.probe_sent_at;
+    const end = endTime ? new Date(endTime) : new Date(lastSeenAt || startTime);
     const duration = end.getTime() - start.getTime();
     
     // Generate 5 time markers
@@ -57,7 +121,29 @@ export function AvailabilityTimeline({
       });
     }
     return markers;
-  }, [sortedSamples, startTime, endTime]);
+  }, [sortedSamples, rollups, isBucketed, startTime, endTime]);
+
+  const bucketNoData = (rollup: SampleRollup) =>
+    cadenceSeconds && endTime
+      ? rollupNoDataCount(rollup, cadenceSeconds, { start: startTime.getTime(), end: endTime.getTime() })
+      : 0;
+
+  // Gaps sit before the sample that ends them; trailing gaps after the last
+  const gapsBefore = useMemo(() => {
+    const byIndex = new Map<number, DataGap[]>();
+    for (const gap of gaps) {
+      byIndex.set(gap.beforeIndex, [...(byIndex.get(gap.beforeIndex) ?? []), gap]);
+    }
+    return byIndex;
+  }, [gaps]);
+
+  const hasNoData = isBucketed
+    ? rollups.some(r => r.sample_count === 0 || bucketNoData(r) > 0)
+    : gaps.length > 0;
+
+  const hasUpstreamErrors = isBucketed
+    ? rollups.some(r => r.upstream_error_count > 0)
+    : sortedSamples.some(s => s.status === 'upstream_error');
 
   if (sortedSamples.length === 0) {
     return (
@@ -75,40 +161,102 @@ export function AvailabilityTimeline({
           className="flex rounded-md overflow-hidden border"
           style={{ height }}
         >
-          {sortedSamples.map((sample, index) => (
-            <Tooltip key={sample.id}>
-              <TooltipTrigger asChild>
-                <div
-                  className={cn(
-                    'flex-1 min-w-[2px] transition-opacity hover:opacity-80 cursor-pointer',
-                    STATUS_COLORS[sample.status]
-                  )}
-                  style={{
-                    flexGrow: 1,
-                    flexShrink: 1,
-                  }}
-                />
-              </TooltipTrigger>
-              <TooltipContent>
-                <div className="text-xs space-y-1">
-                  <p className="font-medium">Sample #{sample.sequence_number}</p>
-                  <p>{format(new Date(sample.recorded_at), 'MMM d, h:mm:ss a')}</p>
-                  <p className={cn(
-                    'font-medium',
-                    sample.status === 'success' && 'text-emerald-500',
-                    sample.status === 'missed' && 'text-destructive',
-                    sample.status === 'system_error' && 'text-amber-500'
-                  )}>
-                    {STATUS_LABELS[sample.status]}
-                    {sample.status === 'success' && sample.rtt_ms !== null && (
-                      <span className="text-muted-foreground ml-1">
-                        ({sample.rtt_ms.toFixed(1)} ms)
-                      </span>
+          {isBucketed && rollups.map((rollup) => {
+            const noDataCount = bucketNoData(rollup);
+            const segments = rollupSegments(rollup, noDataCount);
+            return (
+              <Tooltip key={rollup.id}>
+                <TooltipTrigger asChild>
+                  {/* Stacked by share of slots, so partial loss and gaps stay visible */}
+                  <div
+                    className="flex flex-col flex-1 min-w-[2px] transition-opacity hover:opacity-80 cursor-pointer"
+                    style={{ flexGrow: 1, flexShrink: 1 }}
+                  >
+                    {segments.map(segment => (
+                      <div
+                        key={segment.status}
+                        className={STATUS_COLORS[segment.status]}
+                        style={{ flexGrow: segment.count }}
+                      />
+                    ))}
+                  </div>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <div className="text-xs space-y-1">
+                    <p className="font-medium">{formatBucketRange(rollup)}</p>
+                    {rollup.sample_count === 0 && <p>No samples</p>}
+                    {segments.filter(segment => segment.status !== 'no_data').map(segment => (
+                      <p key={segment.status}>
+                        {STATUS_LABELS[segment.status]}: {segment.count}/{rollup.sample_count + noDataCount}
+                      </p>
+                    ))}
+                    {rollup.sample_count > 0 && noDataCount > 0 && (
+                      <p>
+                        {STATUS_LABELS.no_data}: {noDataCount}/{rollup.sample_count + noDataCount}
+                      </p>
+                    )}
+                    {rollup.avg_rtt_ms !== null && (
+                      <p className="text-muted-foreground">
+                        avg {Number(rollup.avg_rtt_ms).toFixed(1)} ms
+                        {rollup.p95_rtt_ms !== null && ` · p95 ${Number(rollup.p95_rtt_ms).toFixed(1)} ms`}
+                      </p>
                     )}
-                  </p>
-                </div>
-              </TooltipContent>
-            </Tooltip>
+                  </div>
+                </TooltipContent>
+              </Tooltip>
+            );
+          })}
+          {!isBucketed && sortedSamples.map((sample, index) => {
+            const errorReason = sample.status === 'success' ? null : formatSampleError(sample);
+            return (
+              <Fragment key={sample.id}>
+                {gapsBefore.get(index)?.map(gap => (
+                  <GapBar key={gap.start} gap={gap} />
+                ))}
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <div
+                      className={cn(
+                        'flex-1 min-w-[2px] transition-opacity hover:opacity-80 cursor-pointer',
+                        STATUS_COLORS[sample.status]
+                      )}
+                      style={{
+                        flexGrow: 1,
+                        flexShrink: 1,
+                      }}
+                    />
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <div className="text-xs space-y-1">
+                      <p className="font-medium">Sample #{sample.sequence_number}</p>
+                      <p>{format(new Date(sample.probe_sent_at), 'MMM d, h:mm:ss a')}</p>
+                      <p className={cn(
+                        'font-medium',
+                        sample.status === 'success' && 'text-emerald-500',
+                        sample.status === 'missed' && 'text-destructive',
+                        sample.status === 'system_error' && 'text-amber-500',
+                        sample.status === 'upstream_error' && 'text-slate-400'
+                      )}>
+                        {STATUS_LABELS[sample.status]}
+                        {sample.status === 'success' && sample.rtt_ms !== null && (
+                          <span className="text-muted-foreground ml-1">
+                            ({sample.rtt_ms.toFixed(1)} ms)
+                          </span>
+                        )}
+                      </p>
+                      {errorReason && (
+                        <p className="text-muted-foreground max-w-[240px] break-words">
+                          {errorReason}
+                        </p>
+                      )}
+                    </div>
+                  </TooltipContent>
+                </Tooltip>
+              </Fragment>
+            );
+          })}
+          {!isBucketed && gapsBefore.get(sortedSamples.length)?.map(gap => (
+            <GapBar key={gap.start} gap={gap} />
           ))}
         </div>
       </TooltipProvider>
@@ -140,6 +288,18 @@ export function AvailabilityTimeline({
           <div className="w-3 h-3 rounded-sm bg-amber-500" />
           <span className="text-muted-foreground">System Error</span>
         </div>
+        {hasUpstreamErrors && (
+          <div className="flex items-center gap-1.5">
+            <div className="w-3 h-3 rounded-sm bg-slate-400" />
+            <span className="text-muted-foreground">Upstream Outage</span>
+          </div>
+        )}
+        {hasNoData && (
+          <div className="flex items-center gap-1.5">
+            <div className="w-3 h-3 rounded-sm bg-muted border" />
+            <span className="text-muted-foreground">No Data</span>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,6 +1,7 @@
 import { useMemo } from 'react';
 import {
-  LineChart,
+  ComposedChart,
+  Area,
   Line,
   XAxis,
   YAxis,
@@ -11,18 +12,38 @@ import {
   ReferenceArea,
 } from 'recharts';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import type { Sample } from '@/types';
+import { format } from 'date-fns';
+import { rollupStatus, samplePackets } from '@/lib/calculations';
+import { formatSampleError } from '@/lib/format';
+import type { DataGap, Sample, SampleRollup, SampleStatus } from '@/types';
 
 interface RTTChartProps {
   samples: Sample[];
+  // When given, chart these buckets instead of the raw samples
+  rollups?: SampleRollup[];
+  // Stretches with no samples, charted as breaks between raw samples
+  gaps?: DataGap[];
 }
 
 interface ChartDataPoint {
   time: string;
   rtt: number | null;
-  status: 'success' | 'missed' | 'system_error';
+  // [min, max] RTT within a burst sample
+  rttRange: [number, number] | null;
+  packetsSent: number;
+  packetsLost: number;
+  status: SampleStatus;
   index: number;
-  recordedAt: string;
+  probedAt: string;
+  // How late the probe started behind its cadence slot
+  latenessMs: number | null;
+  // Why a raw sample failed, e.g. "Timed out (ICMP timeout)"
+  errorReason: string | null;
+  // Samples aggregated into this point, and their p95; null for a raw sample
+  bucketSamples: number | null;
+  bucketP95: number | null;
+  // Slots a no-data point stands for; null for anything else
+  missingSamples: number | null;
 }
 
 interface OutageRegion {
@@ -30,6 +51,99 @@ interface OutageRegion {
   end: number;
 }
 
+// Round up to nearest "nice" number for stable Y-axis
+function roundToNice(value: number): number {
+  if (value <= 50) return 50;
+  if (value <= 100) return 100;
+  if (value <= 200) return 200;
+  return Math.ceil(value / 100) * 100;
+}
+
+function rollupChartData(rollups: SampleRollup[]) {
+  const data: ChartDataPoint[] = rollups.map((rollup, index) => {
+    const status = rollupStatus(rollup);
+    const hasRange = status === 'success' && rollup.min_rtt_ms !== null && rollup.max_rtt_ms !== null;
+    const bucketStart = new Date(rollup.bucket_start);
+    return {
+      // Hourly buckets usually span days, so they carry the date
+      time: rollup.bucket_minutes >= 60 ? format(bucketStart, 'MMM d, h a') : bucketStart.toLocaleTimeString(),
+      rtt: status === 'success' && rollup.avg_rtt_ms !== null ? Number(rollup.avg_rtt_ms) : null,
+      rttRange: hasRange ? [Number(rollup.min_rtt_ms), Number(rollup.max_rtt_ms)] : null,
+      packetsSent: rollup.success_count + rollup.missed_count,
+      packetsLost: rollup.missed_count,
+      status,
+      index,
+      probedAt: rollup.bucket_start,
+      latenessMs: null,
+      errorReason: null,
+      bucketSamples: rollup.sample_count,
+      bucketP95: rollup.p95_rtt_ms !== null ? Number(rollup.p95_rtt_ms) : null,
+      missingSamples: null,
+    };
+  });
+
+  // Buckets without a single answer are outages in their own right
+  const regions: OutageRegion[] = [];
+  let streakStart: number | null = null;
+  data.forEach((point, index) => {
+    if (point.status === 'missed') {
+      if (streakStart === null) streakStart = index;
+    } else if (point.status === 'success') {
+      if (streakStart !== null) regions.push({ start: streakStart, end: index - 1 });
+      streakStart = null;
+    }
+  });
+  if (streakStart !== null) regions.push({ start: streakStart, end: data.length - 1 });
+
+  const rttValues = data.map(d => d.rttRange?.[1] ?? d.rtt).filter((v): v is number => v !== null);
+  const maxRtt = rttValues.length > 0 ? Math.max(...rttValues) : 50;
+
+  return {
+    chartData: data,
+    outageRegions: regions,
+    noDataRegions: noDataRegions(data),
+    yDomain: [0, roundToNice(maxRtt * 1.1)] as [number, number],
+    totalSamples: rollups.reduce((sum, r) => sum + r.sample_count, 0),
+    displayedSamples: data.length,
+    hasBursts: data.some(d => d.rttRange !== null),
+    hasUpstreamErrors: rollups.some(r => r.upstream_error_count > 0),
+  };
+}
+
+// Runs of no-data points, widened to the points either side so the shading
+// spans the break in the line
+function noDataRegions(data: ChartDataPoint[]): OutageRegion[] {
+  const regions: OutageRegion[] = [];
+  let runStart: number | null = null;
+  data.forEach((point, index) => {
+    if (point.status === 'no_data') {
+      if (runStart === null) runStart = index;
+    } else if (runStart !== null) {
+      regions.push({ start: Math.max(0, runStart - 1), end: index });
+      runStart = null;
+    }
+  });
+  if (runStart !== null) regions.push({ start: Math.max(0, runStart - 1), end: data.length - 1 });
+  return regions;
+}
+
+function gapPoint(gap: DataGap): Omit<ChartDataPoint, 'index'> {
+  return {
+    time: new Date(gap.start).toLocaleTimeString(),
+    rtt: null,
+    rttRange: null,
+    packetsSent: 0,
+    packetsLost: 0,
+    status: 'no_data',
+    probedAt: gap.start,
+    latenessMs: null,
+    errorReason: null,
+    bucketSamples: null,
+    bucketP95: null,
+    missingSamples: gap.missingSamples,
+  };
+}
+
 // Downsample samples for performance when there are too many data points
 function downsample(samples: Sample[], maxPoints: number = 500): Sample[] {
   if (samples.length <= maxPoints) return samples;
@@ -38,29 +152,54 @@ function downsample(samples: Sample[], maxPoints: number = 500): Sample[] {
   return samples.filter((_, i) => i % step === 0);
 }
 
-export function RTTChart({ samples }: RTTChartProps) {
-  const { chartData, outageRegions, yDomain, totalSamples, displayedSamples } = useMemo(() => {
+export function RTTChart({ samples, rollups, gaps = [] }: RTTChartProps) {
+  const isBucketed = !!rollups && rollups.length > 0;
+  const bucketLabel = isBucketed && rollups[0].bucket_minutes >= 60
+    ? `${rollups[0].bucket_minutes / 60}-hour`
+    : `${rollups?.[0]?.bucket_minutes ?? 5}-minute`;
+  const { chartData, outageRegions, noDataRegions: gapRegions, yDomain, totalSamples, displayedSamples, hasBursts, hasUpstreamErrors } = useMemo(() => {
+    if (rollups && rollups.length > 0) return rollupChartData(rollups);
+
     // Downsample for performance - limit to 500 points max
     const displaySamples = downsample(samples, 500);
-    
-    const data: ChartDataPoint[] = displaySamples.map((sample, index) => ({
-      time: new Date(sample.recorded_at).toLocaleTimeString(),
-      rtt: sample.status === 'success' ? sample.rtt_ms : null,
-      status: sample.status,
-      index,
-      recordedAt: sample.recorded_at,
-    }));
+    // Same stride downsample() keeps every nth sample at
+    const step = samples.length > 500 ? Math.ceil(samples.length / 500) : 1;
 
-    // Round up to nearest "nice" number for stable Y-axis
-    const roundToNice = (value: number): number => {
-      if (value <= 50) return 50;
-      if (value <= 100) return 100;
-      if (value <= 200) return 200;
-      return Math.ceil(value / 100) * 100;
-    };
+    // Each gap goes before the first displayed sample at or after the one ending it
+    const gapsBefore = new Map<number, DataGap[]>();
+    for (const gap of gaps) {
+      const at = Math.ceil(gap.beforeIndex / step);
+      gapsBefore.set(at, [...(gapsBefore.get(at) ?? []), gap]);
+    }
+
+    const points: Omit<ChartDataPoint, 'index'>[] = [];
+    displaySamples.forEach((sample, displayIndex) => {
+      gapsBefore.get(displayIndex)?.forEach(gap => points.push(gapPoint(gap)));
+      const { sent, lost } = samplePackets(sample);
+      const hasRange = sample.status === 'success' && sample.rtt_min_ms !== null && sample.rtt_max_ms !== null;
+      points.push({
+        time: new Date(sample.probe_sent_at).toLocaleTimeString(),
+        rtt: sample.status === 'success' ? sample.rtt_ms : null,
+        rttRange: hasRange ? [Number(sample.rtt_min_ms), Number(sample.rtt_max_ms)] : null,
+        packetsSent: sent,
+        packetsLost: lost,
+        status: sample.status,
+        probedAt: sample.probe_sent_at,
+        latenessMs: sample.schedule_lateness_ms ?? null,
+        errorReason: sample.status === 'success' ? null : formatSampleError(sample),
+        bucketSamples: null,
+        bucketP95: null,
+        missingSamples: null,
+      });
+    });
+    gapsBefore.get(displaySamples.length)?.forEach(gap => points.push(gapPoint(gap)));
+
+    const data: ChartDataPoint[] = points.map((point, index) => ({ ...point, index }));
+    const hasBursts = data.some(d => d.packetsSent > 1);
+    const hasUpstreamErrors = data.some(d => d.status === 'upstream_error');
 
     // Calculate Y-axis domain from actual RTT values
-    const rttValues = data.map(d => d.rtt).filter((v): v is number => v !== null);
+    const rttValues = data.map(d => d.rttRange?.[1] ?? d.rtt).filter((v): v is number => v !== null);
     const maxRtt = rttValues.length > 0 ? Math.max(...rttValues) : 50;
     const calculatedYDomain: [number, number] = [0, roundToNice(maxRtt * 1.1)];
 
@@ -69,7 +208,7 @@ export function RTTChart({ samples }: RTTChartProps) {
     let streakStart: number | null = null;
     let streakCount = 0;
 
-    displaySamples.forEach((sample, index) => {
+    data.forEach((sample, index) => {
       if (sample.status === 'missed') {
         if (streakStart === null) {
           streakStart = index;
@@ -86,17 +225,20 @@ export function RTTChart({ samples }: RTTChartProps) {
 
     // Handle trailing streak
     if (streakCount >= 5 && streakStart !== null) {
-      regions.push({ start: streakStart, end: displaySamples.length - 1 });
+      regions.push({ start: streakStart, end: data.length - 1 });
     }
 
     return { 
       chartData: data, 
       outageRegions: regions, 
+      noDataRegions: noDataRegions(data),
       yDomain: calculatedYDomain,
       totalSamples: samples.length,
       displayedSamples: displaySamples.length,
+      hasBursts,
+      hasUpstreamErrors,
     };
-  }, [samples]);
+  }, [samples, rollups, gaps]);
 
   if (chartData.length === 0) {
     return null;
@@ -110,23 +252,38 @@ export function RTTChart({ samples }: RTTChartProps) {
       <CardHeader>
         <CardTitle>Latency Over Time</CardTitle>
         <CardDescription>
-          RTT (ms) for each ping attempt. Red markers indicate missed pings, yellow indicates system errors.
-          Shaded areas show outage periods (5+ consecutive misses).
-          {totalSamples > displayedSamples && (
-            <span className="block mt-1 text-xs text-muted-foreground">
-              Showing {displayedSamples} of {totalSamples} samples (downsampled for performance)
-            </span>
+          {isBucketed ? (
+            <>
+              Average RTT (ms) per {bucketLabel} bucket. Red markers indicate buckets where every ping was missed, hollow markers buckets with some misses.
+              {hasUpstreamErrors && ' Grey markers are buckets where the Latency API was down throughout.'}
+              {' '}Shaded areas show outage periods{gapRegions.length > 0 && ', grey ones periods with no samples'}. The band around the line shows the min-max RTT within each bucket.
+              <span className="block mt-1 text-xs text-muted-foreground">
+                Showing {displayedSamples} buckets covering {totalSamples} samples
+              </span>
+            </>
+          ) : (
+            <>
+              RTT (ms) for each ping attempt. Red markers indicate missed pings, yellow indicates system errors.
+              {hasUpstreamErrors && ' Grey markers are samples taken while the Latency API was down.'}
+              {' '}Shaded areas show outage periods (5+ consecutive misses){gapRegions.length > 0 && ', grey ones periods with no samples'}.
+              {hasBursts && ' The band around the line shows the min-max RTT within each burst.'}
+              {totalSamples > displayedSamples && (
+                <span className="block mt-1 text-xs text-muted-foreground">
+                  Showing {displayedSamples} of {totalSamples} samples (downsampled for performance)
+                </span>
+              )}
+            </>
           )}
         </CardDescription>
       </CardHeader>
       <CardContent>
         <div className="h-[300px]">
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={chartData}>
+            <ComposedChart data={chartData}>
               <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
               <XAxis
                 dataKey="index"
-                tickFormatter={(i) => `#${i + 1}`}
+                tickFormatter={(i) => isBucketed ? chartData[i]?.time ?? '' : `#${i + 1}`}
                 interval={xAxisInterval}
                 tick={{ fontSize: 10 }}
                 className="text-xs"
@@ -145,14 +302,52 @@ export function RTTChart({ samples }: RTTChartProps) {
                         <p className="text-xs text-muted-foreground">{data.time}</p>
                         <p className="font-medium">
                           {data.status === 'success' && data.rtt !== null
-                            ? `${Number(data.rtt).toFixed(1)} ms`
+                            ? `${Number(data.rtt).toFixed(1)} ms${data.packetsSent > 1 ? ' avg' : ''}`
                             : data.status === 'missed'
                             ? 'Missed'
+                            : data.status === 'upstream_error'
+                            ? 'Upstream Outage'
+                            : data.status === 'no_data'
+                            ? 'No Data'
                             : 'System Error'}
                         </p>
+                        {data.missingSamples !== null && (
+                          <p className="text-xs text-muted-foreground">
+                            {data.missingSamples} expected {data.missingSamples === 1 ? 'sample' : 'samples'} never taken
+                          </p>
+                        )}
+                        {data.bucketP95 !== null && (
+                          <p className="text-xs text-muted-foreground">
+                            p95: {data.bucketP95.toFixed(1)} ms
+                          </p>
+                        )}
+                        {data.rttRange && (
+                          <p className="text-xs text-muted-foreground">
+                            Range: {data.rttRange[0].toFixed(1)}-{data.rttRange[1].toFixed(1)} ms
+                          </p>
+                        )}
+                        {data.bucketSamples === 0 ? null : data.bucketSamples !== null ? (
+                          <p className="text-xs text-muted-foreground">
+                            Missed: {data.packetsLost}/{data.bucketSamples} samples
+                          </p>
+                        ) : data.packetsSent > 1 && (
+                          <p className="text-xs text-muted-foreground">
+                            Loss: {data.packetsLost}/{data.packetsSent} ({((data.packetsLost / data.packetsSent) * 100).toFixed(0)}%)
+                          </p>
+                        )}
                         <p className="text-xs text-muted-foreground capitalize">
                           Status: {data.status.replace('_', ' ')}
                         </p>
+                        {data.errorReason && (
+                          <p className="text-xs text-muted-foreground max-w-[240px] break-words">
+                            Reason: {data.errorReason}
+                          </p>
+                        )}
+                        {data.latenessMs !== null && data.latenessMs > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            Started {data.latenessMs} ms after its slot
+                          </p>
+                        )}
                       </div>
                     );
                   }
@@ -171,6 +366,17 @@ export function RTTChart({ samples }: RTTChartProps) {
                 />
               ))}
 
+              {/* No-data shading */}
+              {gapRegions.map((region, idx) => (
+                <ReferenceArea
+                  key={`no-data-${idx}`}
+                  x1={region.start}
+                  x2={region.end}
+                  fill="hsl(var(--muted-foreground))"
+                  fillOpacity={0.12}
+                />
+              ))}
+
               {/* p95 threshold line */}
               <ReferenceLine
                 y={100}
@@ -179,6 +385,20 @@ export function RTTChart({ samples }: RTTChartProps) {
                 label={{ value: 'p95 threshold', position: 'right', fontSize: 10 }}
               />
 
+              {/* Min-max RTT band for burst samples */}
+              {hasBursts && (
+                <Area
+                  type="monotone"
+                  dataKey="rttRange"
+                  stroke="none"
+                  fill="hsl(var(--primary))"
+                  fillOpacity={0.15}
+                  isAnimationActive={false}
+                  connectNulls={false}
+                  activeDot={false}
+                />
+              )}
+
               {/* RTT line with custom dots for status markers */}
               <Line
                 type="monotone"
@@ -214,6 +434,31 @@ export function RTTChart({ samples }: RTTChartProps) {
                       />
                     );
                   }
+                  if (payload.status === 'upstream_error') {
+                    return (
+                      <circle
+                        key={`dot-${index}`}
+                        cx={cx}
+                        cy={props.yAxis?.y + props.yAxis?.height || 0}
+                        r={4}
+                        fill="hsl(215, 16%, 65%)"
+                      />
+                    );
+                  }
+                  if (payload.status === 'success' && cy !== null && payload.packetsLost > 0) {
+                    // Burst with partial loss: hollow marker on the RTT point
+                    return (
+                      <circle
+                        key={`dot-${index}`}
+                        cx={cx}
+                        cy={cy}
+                        r={4}
+                        fill="hsl(var(--background))"
+                        stroke="hsl(var(--destructive))"
+                        strokeWidth={2}
+                      />
+                    );
+                  }
                   if (payload.status === 'success' && cy !== null) {
                     return (
                       <circle
@@ -228,7 +473,7 @@ export function RTTChart({ samples }: RTTChartProps) {
                   return null;
                 }}
               />
-            </LineChart>
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
 
@@ -242,14 +487,38 @@ export function RTTChart({ samples }: RTTChartProps) {
             <div className="w-3 h-3 rounded-full bg-destructive" />
             <span className="text-muted-foreground">Missed</span>
           </div>
+          {hasBursts && (
+            <>
+              <div className="flex items-center gap-1.5">
+                <div className="w-4 h-3 bg-primary/15" />
+                <span className="text-muted-foreground">RTT Range</span>
+              </div>
+              <div className="flex items-center gap-1.5">
+                <div className="w-3 h-3 rounded-full border-2 border-destructive" />
+                <span className="text-muted-foreground">Partial Loss</span>
+              </div>
+            </>
+          )}
           <div className="flex items-center gap-1.5">
             <div className="w-3 h-3 bg-amber-500" />
             <span className="text-muted-foreground">System Error</span>
           </div>
+          {hasUpstreamErrors && (
+            <div className="flex items-center gap-1.5">
+              <div className="w-3 h-3 rounded-full bg-slate-400" />
+              <span className="text-muted-foreground">Upstream Outage</span>
+            </div>
+          )}
           <div className="flex items-center gap-1.5">
             <div className="w-4 h-3 bg-destructive/10 border border-destructive/30" />
             <span className="text-muted-foreground">Outage Period</span>
           </div>
+          {gapRegions.length > 0 && (
+            <div className="flex items-center gap-1.5">
+              <div className="w-4 h-3 bg-muted-foreground/10 border border-muted-foreground/30" />
+              <span className="text-muted-foreground">No Data</span>
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,190 @@
+import { useMemo } from 'react';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { SignalSample } from '@/types';
+
+interface SignalChartProps {
+  signalSamples: SignalSample[];
+}
+
+interface SignalDataPoint {
+  time: string;
+  index: number;
+  downstreamPower: number | null;
+  downstreamSnr: number | null;
+  upstreamPower: number | null;
+  downstreamChannels: number | null;
+  upstreamChannels: number | null;
+  // Codeword errors since the previous reading
+  corrected: number | null;
+  uncorrectable: number | null;
+  error: string | null;
+}
+
+function toNumber(value: number | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+// Growth of a cumulative counter since the previous reading. A drop means the
+// modem rebooted and its counters restarted from zero.
+function counterDelta(current: number | null, previous: number | null): number | null {
+  if (current === null) return null;
+  if (previous === null) return null;
+  return current >= previous ? current - previous : current;
+}
+
+export function SignalChart({ signalSamples }: SignalChartProps) {
+  const { chartData, hasErrors, failedReadings } = useMemo(() => {
+    let previousCorrected: number | null = null;
+    let previousUncorrectable: number | null = null;
+
+    const data: SignalDataPoint[] = signalSamples.map((reading, index) => {
+      const corrected = toNumber(reading.corrected_codewords);
+      const uncorrectable = toNumber(reading.uncorrectable_codewords);
+      const point: SignalDataPoint = {
+        time: new Date(reading.recorded_at).toLocaleTimeString(),
+        index,
+        downstreamPower: toNumber(reading.downstream_power_dbmv),
+        downstreamSnr: toNumber(reading.downstream_snr_db),
+        upstreamPower: toNumber(reading.upstream_power_dbmv),
+        downstreamChannels: reading.downstream_channels,
+        upstreamChannels: reading.upstream_channels,
+        corrected: counterDelta(corrected, previousCorrected),
+        uncorrectable: counterDelta(uncorrectable, previousUncorrectable),
+        error: reading.error,
+      };
+      // Failed readings leave the previous totals in place for the next delta
+      if (corrected !== null) previousCorrected = corrected;
+      if (uncorrectable !== null) previousUncorrectable = uncorrectable;
+      return point;
+    });
+
+    return {
+      chartData: data,
+      hasErrors: data.some(d => (d.corrected ?? 0) > 0 || (d.uncorrectable ?? 0) > 0),
+      failedReadings: data.filter(d => d.error !== null).length,
+    };
+  }, [signalSamples]);
+
+  if (chartData.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Signal Levels</CardTitle>
+          <CardDescription>
+            No signal readings yet. The first is taken shortly after the poller picks the job up.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const xAxisInterval = chartData.length <= 20 ? 0 : Math.floor(chartData.length / 10);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Signal Levels</CardTitle>
+        <CardDescription>
+          DOCSIS power (dBmV) and SNR (dB) from the CM Info API, averaged across bonded channels.
+          Bars show codeword errors between readings; uncorrectable errors with steady RTT point at the RF plant rather than routing.
+          {failedReadings > 0 && (
+            <span className="block mt-1 text-xs text-muted-foreground">
+              {failedReadings} of {chartData.length} readings could not be taken and are left blank
+            </span>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis
+                dataKey="index"
+                tickFormatter={(i) => chartData[i]?.time ?? ''}
+                interval={xAxisInterval}
+                tick={{ fontSize: 10 }}
+                className="text-xs"
+              />
+              <YAxis yAxisId="level" className="text-xs" />
+              <YAxis yAxisId="errors" orientation="right" allowDecimals={false} className="text-xs" hide={!hasErrors} />
+              <Tooltip
+                content={({ active, payload }) => {
+                  if (active && payload?.length) {
+                    const data = payload[0].payload as SignalDataPoint;
+                    return (
+                      <div className="rounded-lg border bg-background p-2 shadow-sm">
+                        <p className="text-xs text-muted-foreground">{data.time}</p>
+                        {data.error ? (
+                          <p className="font-medium">No reading: {data.error}</p>
+                        ) : (
+                          <>
+                            <p className="text-xs">
+                              DS power: {data.downstreamPower?.toFixed(1) ?? '—'} dBmV
+                              {data.downstreamChannels !== null && ` (${data.downstreamChannels} ch)`}
+                            </p>
+                            <p className="text-xs">DS SNR: {data.downstreamSnr?.toFixed(1) ?? '—'} dB</p>
+                            <p className="text-xs">
+                              US power: {data.upstreamPower?.toFixed(1) ?? '—'} dBmV
+                              {data.upstreamChannels !== null && ` (${data.upstreamChannels} ch)`}
+                            </p>
+                            {data.corrected !== null && (
+                              <p className="text-xs text-muted-foreground">
+                                Codewords: {data.corrected} corrected, {data.uncorrectable ?? 0} uncorrectable
+                              </p>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    );
+                  }
+                  return null;
+                }}
+              />
+
+              <Bar yAxisId="errors" dataKey="corrected" stackId="codewords" fill="hsl(38, 92%, 50%)" fillOpacity={0.5} isAnimationActive={false} />
+              <Bar yAxisId="errors" dataKey="uncorrectable" stackId="codewords" fill="hsl(var(--destructive))" fillOpacity={0.7} isAnimationActive={false} />
+              <Line yAxisId="level" type="monotone" dataKey="downstreamPower" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} connectNulls={false} isAnimationActive={false} />
+              <Line yAxisId="level" type="monotone" dataKey="upstreamPower" stroke="hsl(262, 83%, 58%)" strokeWidth={2} dot={false} connectNulls={false} isAnimationActive={false} />
+              <Line yAxisId="level" type="monotone" dataKey="downstreamSnr" stroke="hsl(142, 71%, 45%)" strokeWidth={2} dot={false} connectNulls={false} isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Legend */}
+        <div className="flex items-center justify-center gap-6 mt-4 text-xs">
+          <div className="flex items-center gap-1.5">
+            <div className="w-4 h-0.5 bg-primary" />
+            <span className="text-muted-foreground">DS Power</span>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <div className="w-4 h-0.5 bg-violet-500" />
+            <span className="text-muted-foreground">US Power</span>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <div className="w-4 h-0.5 bg-green-500" />
+            <span className="text-muted-foreground">DS SNR</span>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <div className="w-3 h-3 bg-amber-500/50" />
+            <span className="text-muted-foreground">Corrected</span>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <div className="w-3 h-3 bg-destructive/70" />
+            <span className="text-muted-foreground">Uncorrectable</span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,7 +3,8 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { AlertTriangle, CheckCircle2, XCircle, ExternalLink } from 'lucide-react';
-import { formatMs, formatPercent, formatDurationFromMinutes, formatCadence } from '@/lib/format';
+import { formatMs, formatPercent, formatDurationFromMinutes, formatCadence, formatCoverage } from '@/lib/format';
+import { calculateCoverage } from '@/lib/calculations';
 import type { Job, JobSummary, Sample } from '@/types';
 
 interface CompletionEmailPreviewProps {
@@ -23,6 +24,7 @@ export function CompletionEmailPreview({
     ? (summary.systemErrorCount / summary.totalSamples) * 100
     : 0;
   const showSystemErrorWarning = systemErrorPercent > 5;
+  const coverage = calculateCoverage(job, summary.totalSamples);
 
   return (
     <div className="bg-background text-foreground font-sans max-w-2xl mx-auto">
@@ -81,6 +83,8 @@ export function CompletionEmailPreview({
           <div>{format(new Date(job.started_at), 'MMM d, yyyy h:mm a')}</div>
           <div className="text-muted-foreground">Completed:</div>
           <div>{job.completed_at ? format(new Date(job.completed_at), 'MMM d, yyyy h:mm a') : '—'}</div>
+          <div className="text-muted-foreground">Monitored:</div>
+          <div>{formatCoverage(coverage)}</div>
         </div>
       </div>
 
@@ -6,26 +6,30 @@ import {
   XCircle, 
   AlertTriangle, 
   Bell,
-  BellRing
+  BellRing,
+  Mail,
+  Network,
+  OctagonX
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import type { Job, Alert } from '@/types';
+import type { Job, Alert, JobEvent } from '@/types';
 
 interface JobEventLogProps {
   job: Job;
   alerts?: Alert[];
+  events?: JobEvent[];
 }
 
 interface EventItem {
   id: string;
   timestamp: Date;
-  type: 'created' | 'started' | 'alert_offline' | 'alert_recovery' | 'completed' | 'cancelled';
+  type: 'created' | 'started' | 'alert_offline' | 'alert_recovery' | 'completion_email' | 'failure_email' | 'completed' | 'cancelled' | 'failed' | 'target_ip';
   label: string;
   icon: React.ElementType;
   iconColor: string;
 }
 
-export function JobEventLog({ job, alerts = [] }: JobEventLogProps) {
+export function JobEventLog({ job, alerts = [], events: jobEvents = [] }: JobEventLogProps) {
   const events = useMemo<EventItem[]>(() => {
     const items: EventItem[] = [];
 
@@ -53,6 +57,36 @@ export function JobEventLog({ job, alerts = [] }: JobEventLogProps) {
 
     // Alerts
     alerts.forEach((alert) => {
+      if (alert.alert_type === 'completion_email') {
+        const delivered = alert.delivery_status === 'delivered';
+        items.push({
+          id: alert.id,
+          timestamp: new Date(alert.delivered_at ?? alert.triggered_at),
+          type: 'completion_email',
+          label: delivered
+            ? 'Completion email sent'
+            : alert.delivery_status === 'failed'
+            ? `Completion email failed (attempt ${alert.attempts})`
+            : 'Completion email pending',
+          icon: Mail,
+          iconColor: delivered ? 'text-primary' : 'text-amber-500',
+        });
+        return;
+      }
+
+      if (alert.alert_type === 'job_failed') {
+        const delivered = alert.delivery_status === 'delivered';
+        items.push({
+          id: alert.id,
+          timestamp: new Date(alert.delivered_at ?? alert.triggered_at),
+          type: 'failure_email',
+          label: delivered ? 'Failure notification sent' : 'Failure notification not delivered',
+          icon: Mail,
+          iconColor: delivered ? 'text-primary' : 'text-amber-500',
+        });
+        return;
+      }
+
       const isOffline = alert.alert_type === 'offline';
       items.push({
         id: alert.id,
@@ -64,6 +98,22 @@ export function JobEventLog({ job, alerts = [] }: JobEventLogProps) {
       });
     });
 
+    // Target IP resolved or changed (MAC-targeted jobs)
+    jobEvents.forEach((event) => {
+      const ip = event.details?.ip as string | undefined;
+      const previousIp = event.details?.previous_ip as string | undefined;
+      items.push({
+        id: event.id,
+        timestamp: new Date(event.created_at),
+        type: 'target_ip',
+        label: event.event_type === 'target_ip_changed'
+          ? `Modem IP changed from ${previousIp} to ${ip}`
+          : `Modem resolved to ${ip}`,
+        icon: Network,
+        iconColor: event.event_type === 'target_ip_changed' ? 'text-amber-500' : 'text-primary',
+      });
+    });
+
     // Job completed
     if (job.completed_at) {
       items.push({
@@ -88,9 +138,21 @@ export function JobEventLog({ job, alerts = [] }: JobEventLogProps) {
       });
     }
 
+    // Job failed
+    if (job.failed_at) {
+      items.push({
+        id: 'failed',
+        timestamp: new Date(job.failed_at),
+        type: 'failed',
+        label: 'Job failed',
+        icon: OctagonX,
+        iconColor: 'text-destructive',
+      });
+    }
+
     // Sort by timestamp
     return items.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-  }, [job, alerts]);
+  }, [job, alerts, jobEvents]);
 
   return (
     <div className="space-y-0">
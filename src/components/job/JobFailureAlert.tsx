@@ -0,0 +1,35 @@
+import { OctagonX } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { formatDateTime } from '@/lib/format';
+import type { Job, JobFailureReason } from '@/types';
+
+const FAILURE_REASON_TITLES: Record<JobFailureReason, string> = {
+  target_unresolved: 'Modem Could Not Be Found',
+  system_errors: 'Too Many System Errors',
+  probe_backend_unreachable: 'Latency API Unreachable',
+};
+
+const FAILURE_REASON_HINTS: Record<JobFailureReason, string> = {
+  target_unresolved: 'Check that the MAC address is right and the modem is provisioned, then start a new job.',
+  system_errors: 'The poller could not probe the target reliably. Check the probe settings, or ask an admin to check the poller.',
+  probe_backend_unreachable: 'The samples stopped measuring the modem. Start a new job once the Latency API is back.',
+};
+
+// Why the poller stopped a job it could not measure
+export function JobFailureAlert({ job }: { job: Job }) {
+  if (job.status !== 'failed') return null;
+
+  const reason = job.failure_reason;
+
+  return (
+    <Alert variant="destructive">
+      <OctagonX className="h-4 w-4" />
+      <AlertTitle>{reason ? FAILURE_REASON_TITLES[reason] : 'Monitoring Failed'}</AlertTitle>
+      <AlertDescription>
+        {job.failure_detail ?? 'The job was stopped before the end of its duration.'}
+        {job.failed_at && ` Failed ${formatDateTime(job.failed_at)}.`}
+        {reason && <span className="block mt-1">{FAILURE_REASON_HINTS[reason]}</span>}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -1,8 +1,8 @@
-import { Clock, Activity, AlertTriangle, XCircle, Zap } from 'lucide-react';
+import { Clock, Activity, AlertTriangle, XCircle, Zap, CalendarClock } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { formatPercent, formatMs } from '@/lib/format';
-import type { JobSummary } from '@/types';
+import { formatPercent, formatMs, formatDurationFromMinutes } from '@/lib/format';
+import type { JobCoverage, JobSummary } from '@/types';
 
 interface MetricTileProps {
   label: string;
@@ -46,16 +46,17 @@ function MetricTile({
 
 interface JobMetricsGridProps {
   summary: JobSummary;
+  coverage: JobCoverage;
 }
 
-export function JobMetricsGrid({ summary }: JobMetricsGridProps) {
+export function JobMetricsGrid({ summary, coverage }: JobMetricsGridProps) {
   return (
     <>
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
         <MetricTile
           label="Packet Loss"
           value={formatPercent(summary.packetLossPercent)}
-          subValue="Threshold: ≤2%"
+          subValue={`${summary.packetsLost}/${summary.packetsSent} packets lost · Threshold: ≤2%`}
           pass={summary.passPacketLoss}
         />
         <MetricTile
@@ -84,7 +85,7 @@ export function JobMetricsGrid({ summary }: JobMetricsGridProps) {
         />
       </div>
 
-      <div className="grid gap-4 md:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
         <MetricTile
           label="Max Jitter"
           value={formatMs(summary.maxJitterMs)}
@@ -104,9 +105,21 @@ export function JobMetricsGrid({ summary }: JobMetricsGridProps) {
         <MetricTile
           label="System Errors"
           value={summary.systemErrorCount.toString()}
-          subValue={formatPercent((summary.systemErrorCount / summary.totalSamples) * 100)}
+          subValue={
+            formatPercent((summary.systemErrorCount / summary.totalSamples) * 100) +
+            (summary.upstreamErrorCount > 0 ? ` · ${summary.upstreamErrorCount} during Latency API outage` : '')
+          }
           icon={AlertTriangle}
         />
+        <MetricTile
+          label="Coverage"
+          value={formatPercent(coverage.coveragePercent)}
+          subValue={
+            `${formatDurationFromMinutes(coverage.monitoredMinutes)} of ${formatDurationFromMinutes(coverage.windowMinutes)} monitored` +
+            (coverage.noDataCount > 0 ? ` · ${coverage.noDataCount} slots with no data` : '')
+          }
+          icon={CalendarClock}
+        />
       </div>
     </>
   );
@@ -0,0 +1,28 @@
+import { CloudOff } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useLatencyApiBreaker } from '@/hooks/use-poller-status';
+import { formatDateTime } from '@/lib/format';
+
+// Shown while any poller replica has its Latency API circuit breaker tripped
+export function LatencyApiOutageAlert() {
+  const breaker = useLatencyApiBreaker();
+
+  if (breaker.state === 'closed') return null;
+
+  return (
+    <Alert>
+      <CloudOff className="h-4 w-4" />
+      <AlertTitle>
+        {breaker.state === 'open' ? 'Latency API Outage' : 'Latency API Recovering'}
+      </AlertTitle>
+      <AlertDescription>
+        {breaker.state === 'open'
+          ? 'The SpreeDB Latency API is not responding, so Latency API jobs are recording upstream outage samples instead of pings. Offline alerts for those jobs are paused.'
+          : 'The poller is testing whether the SpreeDB Latency API is back. Offline alerts for Latency API jobs stay paused until it is.'}
+        {' '}
+        {breaker.affectedReplicas} of {breaker.totalReplicas} poller replicas affected
+        {breaker.since && ` since ${formatDateTime(breaker.since)}`}.
+      </AlertDescription>
+    </Alert>
+  );
+}
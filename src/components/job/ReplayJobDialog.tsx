@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuthContext } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useCreateJob, checkUsageLimits } from '@/hooks/use-jobs';
+import { createAuditLogEntry } from '@/hooks/use-audit-log';
+import { jobWindow } from '@/lib/calculations';
+import { formatCadence, formatDurationFromMinutes } from '@/lib/format';
+import type { Job } from '@/types';
+
+const REPLAY_SPEEDS = [1, 2, 5, 10, 30, 60];
+
+// Speeds that keep the replay's cadence a whole number of seconds, so its
+// slots line up one-to-one with the original's
+function replaySpeedsFor(cadenceSeconds: number): number[] {
+  return REPLAY_SPEEDS.filter((speed) => cadenceSeconds % speed === 0);
+}
+
+// How long the original actually ran, which may be less than it asked for
+function recordedMinutes(job: Job): number {
+  const { start, end } = jobWindow(job);
+  return Math.max(1, Math.ceil((end - start) / 60000));
+}
+
+// Play a finished job's samples back as a new simulated job
+export function ReplayJobDialog({ job }: { job: Job }) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user, profile } = useAuthContext();
+  const createJobMutation = useCreateJob();
+
+  const speeds = replaySpeedsFor(job.cadence_seconds);
+  const [speed, setSpeed] = useState(speeds[speeds.length - 1]);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const cadenceSeconds = job.cadence_seconds / speed;
+  const durationMinutes = Math.max(1, Math.ceil(recordedMinutes(job) / speed));
+
+  async function handleReplay() {
+    if (!user) return;
+
+    setIsStarting(true);
+    try {
+      const limitCheck = await checkUsageLimits(user.id);
+      if (!limitCheck.canCreate) {
+        toast({
+          title: 'Limit Exceeded',
+          description: limitCheck.reason,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      const replay = await createJobMutation.mutateAsync({
+        account_number: job.account_number,
+        target_mac: job.target_mac,
+        target_ip: job.target_ip,
+        duration_minutes: durationMinutes,
+        cadence_seconds: cadenceSeconds,
+        reason: job.reason,
+        notification_email: user.email || job.notification_email,
+        alert_on_offline: job.alert_on_offline,
+        alert_on_recovery: job.alert_on_recovery,
+        requester_id: user.id,
+        requester_name: profile?.display_name || user.email || 'Unknown',
+        source: 'web_app',
+        monitoring_mode: 'simulated',
+        probe_type: job.probe_type,
+        probe_port: job.probe_port,
+        probe_url: job.probe_url,
+        burst_size: job.burst_size,
+        collect_signal_metrics: false,
+        replay_of_job_id: job.id,
+        replay_speed: speed,
+      });
+
+      await createAuditLogEntry({
+        action: 'job.create',
+        entityType: 'job',
+        entityId: replay.id,
+        actorId: user.id,
+        actorName: profile?.display_name || user.email || 'Unknown',
+        details: {
+          account_number: job.account_number,
+          duration_minutes: durationMinutes,
+          cadence_seconds: cadenceSeconds,
+          monitoring_mode: 'simulated',
+          replay_of_job_id: job.id,
+          replay_speed: speed,
+        },
+      });
+
+      toast({
+        title: 'Replay Started',
+        description: `The poller is playing this job back at ${speed}x.`,
+      });
+      navigate(`/jobs/${replay.id}`);
+    } catch (error) {
+      console.error('Failed to start replay:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to start the replay. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <RotateCcw className="h-4 w-4" />
+          Replay
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Replay Job</DialogTitle>
+          <DialogDescription>
+            Starts a new simulated job that plays back this job's samples in order.
+            Alerts, failure detection and the completion email run as they did live, and go to you.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label>Speed</Label>
+          <Select value={speed.toString()} onValueChange={(v) => setSpeed(parseInt(v))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover">
+              {speeds.map((s) => (
+                <SelectItem key={s} value={s.toString()}>
+                  {s === 1 ? 'Original speed' : `${s}x`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            One sample every {formatCadence(cadenceSeconds)}, for {formatDurationFromMinutes(durationMinutes)}.
+          </p>
+        </div>
+        <DialogFooter>
+          <Button className="gap-2" onClick={handleReplay} disabled={isStarting}>
+            {isStarting ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+            Start Replay
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
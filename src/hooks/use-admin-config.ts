@@ -1,8 +1,9 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import type { AdminConfig, DurationPresetsConfig, CadencePresetsConfig, ThresholdsConfig, UsageLimitsConfig, WebhookConfig, DurationPreset } from '@/types';
+import type { AdminConfig, DurationPresetsConfig, CadencePresetsConfig, ThresholdsConfig, UsageLimitsConfig, WebhookConfig, DurationPreset, SimulationScenariosConfig } from '@/types';
 import type { Json } from '@/integrations/supabase/types';
 import { findBestUnit } from '@/lib/format';
+import { DEFAULT_SIMULATION_SCENARIOS } from '@/lib/simulation-scenarios';
 
 // Default configurations
 const DEFAULT_DURATION_PRESETS: DurationPresetsConfig = {
@@ -60,7 +61,11 @@ const DEFAULT_WEBHOOK: WebhookConfig = {
   secret: null,
 };
 
-type ConfigKey = 'duration_presets' | 'cadence_presets' | 'thresholds' | 'usage_limits' | 'webhook_config';
+const DEFAULT_SIMULATION_SCENARIOS_CONFIG: SimulationScenariosConfig = {
+  scenarios: DEFAULT_SIMULATION_SCENARIOS,
+};
+
+type ConfigKey = 'duration_presets' | 'cadence_presets' | 'thresholds' | 'usage_limits' | 'webhook_config' | 'simulation_scenarios';
 
 type ConfigValueMap = {
   duration_presets: DurationPresetsConfig;
@@ -68,6 +73,7 @@ type ConfigValueMap = {
   thresholds: ThresholdsConfig;
   usage_limits: UsageLimitsConfig;
   webhook_config: WebhookConfig;
+  simulation_scenarios: SimulationScenariosConfig;
 };
 
 const DEFAULT_VALUES: ConfigValueMap = {
@@ -76,6 +82,7 @@ const DEFAULT_VALUES: ConfigValueMap = {
   thresholds: DEFAULT_THRESHOLDS,
   usage_limits: DEFAULT_USAGE_LIMITS,
   webhook_config: DEFAULT_WEBHOOK,
+  simulation_scenarios: DEFAULT_SIMULATION_SCENARIOS_CONFIG,
 };
 
 // Fetch all admin configuration
@@ -100,6 +107,7 @@ export function useAdminConfig() {
         thresholds: (configMap.thresholds?.value as unknown as ThresholdsConfig) ?? DEFAULT_THRESHOLDS,
         usageLimits: (configMap.usage_limits?.value as unknown as UsageLimitsConfig) ?? DEFAULT_USAGE_LIMITS,
         webhook: (configMap.webhook_config?.value as unknown as WebhookConfig) ?? DEFAULT_WEBHOOK,
+        simulationScenarios: (configMap.simulation_scenarios?.value as unknown as SimulationScenariosConfig) ?? DEFAULT_SIMULATION_SCENARIOS_CONFIG,
         raw: configMap,
       };
     },
@@ -116,6 +124,7 @@ export function useConfigValue<K extends ConfigKey>(key: K) {
     thresholds: 'thresholds',
     usage_limits: 'usageLimits',
     webhook_config: 'webhook',
+    simulation_scenarios: 'simulationScenarios',
   };
 
   return {
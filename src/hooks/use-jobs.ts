@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import type { Job, Sample, JobStatus } from '@/types';
+import type { Job, JobEvent, Sample, SampleRollup, SignalSample, RollupTier, JobStatus } from '@/types';
+import { chooseRollupTier } from '@/lib/calculations';
 import type { TablesInsert } from '@/integrations/supabase/types';
 
 // Response type for paginated queries
@@ -88,8 +89,8 @@ export function useJobSamples(jobId: string | undefined, options?: { limit?: num
         .from('samples')
         .select('*')
         .eq('job_id', jobId)
-        // recorded_at is the canonical ordering; sequence_number may reset when poller replicas restart
-        .order('recorded_at', { ascending: false })
+        // probe_sent_at is the canonical ordering; sequence_number (unique per job) breaks ties
+        .order('probe_sent_at', { ascending: false })
         .order('sequence_number', { ascending: false })
         .limit(limit);
       if (error) throw error;
@@ -100,6 +101,77 @@ export function useJobSamples(jobId: string | undefined, options?: { limit?: num
   });
 }
 
+// Fetch one tier of a job's rollup buckets in chronological order
+export function useJobRollups(
+  jobId: string | undefined,
+  bucketMinutes: RollupTier,
+  options?: { enabled?: boolean }
+) {
+  return useQuery({
+    queryKey: ['rollups', jobId, bucketMinutes],
+    queryFn: async () => {
+      if (!jobId) return [];
+      const { data, error } = await supabase
+        .from('sample_rollups')
+        .select('*')
+        .eq('job_id', jobId)
+        .eq('bucket_minutes', bucketMinutes)
+        .order('bucket_start', { ascending: true });
+      if (error) throw error;
+      return data as SampleRollup[];
+    },
+    enabled: !!jobId && (options?.enabled ?? true),
+  });
+}
+
+// Rollups for the job charts once the loaded raw samples no longer cover the
+// whole job, in the finest tier that fits the job's time range. Undefined
+// while the raw samples should be charted instead.
+export function useJobChartRollups(job: Job | undefined, loadedSamples: number) {
+  const hasTruncatedHistory = !!job && job.total_samples > loadedSamples;
+  const rangeMs = job
+    ? (job.completed_at ? new Date(job.completed_at).getTime() : Date.now()) - new Date(job.started_at).getTime()
+    : 0;
+  const tier = chooseRollupTier(rangeMs);
+  const { data: rollups = [] } = useJobRollups(job?.id, tier, { enabled: hasTruncatedHistory });
+  return hasTruncatedHistory && rollups.length > 0 ? rollups : undefined;
+}
+
+// Fetch a job's events in chronological order
+export function useJobEvents(jobId: string | undefined) {
+  return useQuery({
+    queryKey: ['job-events', jobId],
+    queryFn: async () => {
+      if (!jobId) return [];
+      const { data, error } = await supabase
+        .from('job_events')
+        .select('*')
+        .eq('job_id', jobId)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return data as JobEvent[];
+    },
+    enabled: !!jobId,
+  });
+}
+
+export function useJobSignalSamples(jobId: string | undefined, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: ['signal-samples', jobId],
+    queryFn: async () => {
+      if (!jobId) return [];
+      const { data, error } = await supabase
+        .from('signal_samples')
+        .select('*')
+        .eq('job_id', jobId)
+        .order('recorded_at', { ascending: true });
+      if (error) throw error;
+      return data as SignalSample[];
+    },
+    enabled: !!jobId && (options?.enabled ?? true),
+  });
+}
+
 // Fetch samples with pagination and total count
 export function useJobSamplesWindowed(
   jobId: string | undefined,
@@ -117,8 +189,8 @@ export function useJobSamplesWindowed(
         .from('samples')
         .select('*', { count: 'exact' })
         .eq('job_id', jobId)
-        // recorded_at is the canonical ordering; sequence_number may reset when poller replicas restart
-        .order('recorded_at', { ascending: false })
+        // probe_sent_at is the canonical ordering; sequence_number (unique per job) breaks ties
+        .order('probe_sent_at', { ascending: false })
         .order('sequence_number', { ascending: false })
         .range(offset, offset + limit - 1);
         
@@ -0,0 +1,70 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { BreakerState, PollerReplica } from '@/types';
+
+// Replicas whose heartbeat is older than this are treated as gone
+const REPLICA_STALE_MS = 2 * 60 * 1000;
+
+// Live poller replicas, kept current via realtime
+export function usePollerReplicas() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const channel = supabase
+      .channel('poller-replicas')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'poller_replicas' },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['poller-replicas'] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient]);
+
+  return useQuery({
+    queryKey: ['poller-replicas'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('poller_replicas')
+        .select('*')
+        .order('replica_id');
+      if (error) throw error;
+      const cutoff = Date.now() - REPLICA_STALE_MS;
+      return (data as PollerReplica[]).filter(
+        (replica) => new Date(replica.last_heartbeat_at).getTime() >= cutoff
+      );
+    },
+    refetchInterval: 30000,
+  });
+}
+
+// Worst Latency API circuit breaker state across live replicas
+export function useLatencyApiBreaker(): {
+  state: BreakerState;
+  since: string | null;
+  affectedReplicas: number;
+  totalReplicas: number;
+} {
+  const { data: replicas = [] } = usePollerReplicas();
+
+  const open = replicas.filter((r) => r.latency_api_breaker === 'open');
+  const halfOpen = replicas.filter((r) => r.latency_api_breaker === 'half_open');
+  const affected = open.length > 0 ? open : halfOpen;
+  const since = affected
+    .map((r) => r.latency_api_breaker_changed_at)
+    .filter((t): t is string => t !== null)
+    .sort()[0] ?? null;
+
+  return {
+    state: open.length > 0 ? 'open' : halfOpen.length > 0 ? 'half_open' : 'closed',
+    since,
+    affectedReplicas: affected.length,
+    totalReplicas: replicas.length,
+  };
+}
@@ -41,26 +41,35 @@ export type Database = {
       alerts: {
         Row: {
           alert_type: string
+          attempts: number
           delivered_at: string | null
           delivery_status: string | null
           id: string
           job_id: string
+          last_attempt_at: string | null
+          last_error: string | null
           triggered_at: string
         }
         Insert: {
           alert_type: string
+          attempts?: number
           delivered_at?: string | null
           delivery_status?: string | null
           id?: string
           job_id: string
+          last_attempt_at?: string | null
+          last_error?: string | null
           triggered_at?: string
         }
         Update: {
           alert_type?: string
+          attempts?: number
           delivered_at?: string | null
           delivery_status?: string | null
           id?: string
           job_id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
           triggered_at?: string
         }
         Relationships: [
@@ -106,84 +115,288 @@ export type Database = {
         }
         Relationships: []
       }
+      job_events: {
+        Row: {
+          created_at: string
+          details: Json | null
+          event_type: string
+          id: string
+          job_id: string
+        }
+        Insert: {
+          created_at?: string
+          details?: Json | null
+          event_type: string
+          id?: string
+          job_id: string
+        }
+        Update: {
+          created_at?: string
+          details?: Json | null
+          event_type?: string
+          id?: string
+          job_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_events_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_leases: {
+        Row: {
+          acquired_at: string
+          expires_at: string
+          job_id: string
+          owner_id: string
+          renewed_at: string
+        }
+        Insert: {
+          acquired_at?: string
+          expires_at: string
+          job_id: string
+          owner_id: string
+          renewed_at?: string
+        }
+        Update: {
+          acquired_at?: string
+          expires_at?: string
+          job_id?: string
+          owner_id?: string
+          renewed_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_leases_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: true
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       jobs: {
         Row: {
           account_number: string
           alert_on_offline: boolean
           alert_on_recovery: boolean
           alert_state: Database["public"]["Enums"]["alert_state"]
+          avg_jitter_ms: number | null
           avg_rtt_ms: number | null
+          burst_size: number
           cadence_seconds: number
           cancelled_at: string | null
+          collect_signal_metrics: boolean
           completed_at: string | null
+          coverage_percent: number | null
           created_at: string
+          current_miss_streak: number
           duration_minutes: number
+          failed_at: string | null
+          failure_detail: string | null
+          failure_reason: string | null
           id: string
+          in_outage: boolean
+          jitter_count: number
+          jitter_sum_ms: number
           last_ping_at: string | null
+          longest_miss_streak: number
+          max_jitter_ms: number | null
+          max_rtt_ms: number | null
+          missed_count: number
+          monitored_minutes: number | null
           monitoring_mode: string
           notification_email: string
+          outage_event_count: number
+          p95_rtt_ms: number | null
           packet_loss_percent: number | null
+          packets_lost: number
+          packets_sent: number
+          polling_paused_at: string | null
+          polling_paused_by: string | null
+          probe_port: number | null
+          probe_type: string
+          probe_url: string | null
           reason: Database["public"]["Enums"]["job_reason"]
+          replay_of_job_id: string | null
+          replay_speed: number | null
           requester_id: string
           requester_name: string
+          rtt_replies: number
+          rtt_sketch: Json
+          rtt_sum_ms: number
+          signal_cadence_seconds: number
+          simulator_config: Json | null
+          simulator_scenario: string | null
           source: string
           started_at: string
           status: Database["public"]["Enums"]["job_status"]
+          success_count: number
+          system_error_count: number
           target_ip: string | null
           target_mac: string | null
           total_samples: number | null
+          upstream_error_count: number
         }
         Insert: {
           account_number: string
           alert_on_offline?: boolean
           alert_on_recovery?: boolean
           alert_state?: Database["public"]["Enums"]["alert_state"]
+          avg_jitter_ms?: number | null
           avg_rtt_ms?: number | null
+          burst_size?: number
           cadence_seconds: number
           cancelled_at?: string | null
+          collect_signal_metrics?: boolean
           completed_at?: string | null
+          coverage_percent?: number | null
           created_at?: string
+          current_miss_streak?: number
           duration_minutes: number
+          failed_at?: string | null
+          failure_detail?: string | null
+          failure_reason?: string | null
           id?: string
+          in_outage?: boolean
+          jitter_count?: number
+          jitter_sum_ms?: number
           last_ping_at?: string | null
+          longest_miss_streak?: number
+          max_jitter_ms?: number | null
+          max_rtt_ms?: number | null
+          missed_count?: number
+          monitored_minutes?: number | null
           monitoring_mode?: string
           notification_email: string
+          outage_event_count?: number
+          p95_rtt_ms?: number | null
           packet_loss_percent?: number | null
+          packets_lost?: number
+          packets_sent?: number
+          polling_paused_at?: string | null
+          polling_paused_by?: string | null
+          probe_port?: number | null
+          probe_type?: string
+          probe_url?: string | null
           reason: Database["public"]["Enums"]["job_reason"]
+          replay_of_job_id?: string | null
+          replay_speed?: number | null
           requester_id: string
           requester_name: string
+          rtt_replies?: number
+          rtt_sketch?: Json
+          rtt_sum_ms?: number
+          signal_cadence_seconds?: number
+          simulator_config?: Json | null
+          simulator_scenario?: string | null
           source?: string
           started_at?: string
           status?: Database["public"]["Enums"]["job_status"]
+          success_count?: number
+          system_error_count?: number
           target_ip?: string | null
           target_mac?: string | null
           total_samples?: number | null
+          upstream_error_count?: number
         }
         Update: {
           account_number?: string
           alert_on_offline?: boolean
           alert_on_recovery?: boolean
           alert_state?: Database["public"]["Enums"]["alert_state"]
+          avg_jitter_ms?: number | null
           avg_rtt_ms?: number | null
+          burst_size?: number
           cadence_seconds?: number
           cancelled_at?: string | null
+          collect_signal_metrics?: boolean
           completed_at?: string | null
+          coverage_percent?: number | null
           created_at?: string
+          current_miss_streak?: number
           duration_minutes?: number
+          failed_at?: string | null
+          failure_detail?: string | null
+          failure_reason?: string | null
           id?: string
+          in_outage?: boolean
+          jitter_count?: number
+          jitter_sum_ms?: number
           last_ping_at?: string | null
+          longest_miss_streak?: number
+          max_jitter_ms?: number | null
+          max_rtt_ms?: number | null
+          missed_count?: number
+          monitored_minutes?: number | null
           monitoring_mode?: string
           notification_email?: string
+          outage_event_count?: number
+          p95_rtt_ms?: number | null
           packet_loss_percent?: number | null
+          packets_lost?: number
+          packets_sent?: number
+          polling_paused_at?: string | null
+          polling_paused_by?: string | null
+          probe_port?: number | null
+          probe_type?: string
+          probe_url?: string | null
           reason?: Database["public"]["Enums"]["job_reason"]
+          replay_of_job_id?: string | null
+          replay_speed?: number | null
           requester_id?: string
           requester_name?: string
+          rtt_replies?: number
+          rtt_sketch?: Json
+          rtt_sum_ms?: number
+          signal_cadence_seconds?: number
+          simulator_config?: Json | null
+          simulator_scenario?: string | null
           source?: string
           started_at?: string
           status?: Database["public"]["Enums"]["job_status"]
+          success_count?: number
+          system_error_count?: number
           target_ip?: string | null
           target_mac?: string | null
           total_samples?: number | null
+          upstream_error_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "jobs_replay_of_job_id_fkey"
+            columns: ["replay_of_job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      poller_replicas: {
+        Row: {
+          last_heartbeat_at: string
+          latency_api_breaker: string
+          latency_api_breaker_changed_at: string | null
+          replica_id: string
+          started_at: string
+        }
+        Insert: {
+          last_heartbeat_at?: string
+          latency_api_breaker?: string
+          latency_api_breaker_changed_at?: string | null
+          replica_id: string
+          started_at?: string
+        }
+        Update: {
+          last_heartbeat_at?: string
+          latency_api_breaker?: string
+          latency_api_breaker_changed_at?: string | null
+          replica_id?: string
+          started_at?: string
         }
         Relationships: []
       }
@@ -213,6 +426,7 @@ export type Database = {
           avg_jitter_ms: number | null
           avg_rtt_ms: number | null
           bucket_end: string
+          bucket_minutes: number
           bucket_start: string
           created_at: string
           id: string
@@ -225,11 +439,14 @@ export type Database = {
           sample_count: number
           success_count: number
           system_error_count: number
+          updated_at: string
+          upstream_error_count: number
         }
         Insert: {
           avg_jitter_ms?: number | null
           avg_rtt_ms?: number | null
           bucket_end: string
+          bucket_minutes?: number
           bucket_start: string
           created_at?: string
           id?: string
@@ -242,11 +459,14 @@ export type Database = {
           sample_count?: number
           success_count?: number
           system_error_count?: number
+          updated_at?: string
+          upstream_error_count?: number
         }
         Update: {
           avg_jitter_ms?: number | null
           avg_rtt_ms?: number | null
           bucket_end?: string
+          bucket_minutes?: number
           bucket_start?: string
           created_at?: string
           id?: string
@@ -259,6 +479,8 @@ export type Database = {
           sample_count?: number
           success_count?: number
           system_error_count?: number
+          updated_at?: string
+          upstream_error_count?: number
         }
         Relationships: [
           {
@@ -272,29 +494,62 @@ export type Database = {
       }
       samples: {
         Row: {
+          error_code: string | null
+          error_detail: string | null
           id: string
           jitter_ms: number | null
           job_id: string
+          packets_lost: number | null
+          packets_sent: number | null
+          probe_responded_at: string | null
+          probe_sent_at: string
           recorded_at: string
+          rtt_max_ms: number | null
+          rtt_mdev_ms: number | null
+          rtt_min_ms: number | null
           rtt_ms: number | null
+          schedule_lateness_ms: number | null
+          scheduled_at: string | null
           sequence_number: number
           status: Database["public"]["Enums"]["sample_status"]
         }
         Insert: {
+          error_code?: string | null
+          error_detail?: string | null
           id?: string
           jitter_ms?: number | null
           job_id: string
+          packets_lost?: number | null
+          packets_sent?: number | null
+          probe_responded_at?: string | null
+          probe_sent_at?: string
           recorded_at?: string
+          rtt_max_ms?: number | null
+          rtt_mdev_ms?: number | null
+          rtt_min_ms?: number | null
           rtt_ms?: number | null
+          schedule_lateness_ms?: number | null
+          scheduled_at?: string | null
           sequence_number: number
           status: Database["public"]["Enums"]["sample_status"]
         }
         Update: {
+          error_code?: string | null
+          error_detail?: string | null
           id?: string
           jitter_ms?: number | null
           job_id?: string
+          packets_lost?: number | null
+          packets_sent?: number | null
+          probe_responded_at?: string | null
+          probe_sent_at?: string
           recorded_at?: string
+          rtt_max_ms?: number | null
+          rtt_mdev_ms?: number | null
+          rtt_min_ms?: number | null
           rtt_ms?: number | null
+          schedule_lateness_ms?: number | null
+          scheduled_at?: string | null
           sequence_number?: number
           status?: Database["public"]["Enums"]["sample_status"]
         }
@@ -308,6 +563,56 @@ export type Database = {
           },
         ]
       }
+      signal_samples: {
+        Row: {
+          corrected_codewords: number | null
+          downstream_channels: number | null
+          downstream_power_dbmv: number | null
+          downstream_snr_db: number | null
+          error: string | null
+          id: string
+          job_id: string
+          recorded_at: string
+          uncorrectable_codewords: number | null
+          upstream_channels: number | null
+          upstream_power_dbmv: number | null
+        }
+        Insert: {
+          corrected_codewords?: number | null
+          downstream_channels?: number | null
+          downstream_power_dbmv?: number | null
+          downstream_snr_db?: number | null
+          error?: string | null
+          id?: string
+          job_id: string
+          recorded_at?: string
+          uncorrectable_codewords?: number | null
+          upstream_channels?: number | null
+          upstream_power_dbmv?: number | null
+        }
+        Update: {
+          corrected_codewords?: number | null
+          downstream_channels?: number | null
+          downstream_power_dbmv?: number | null
+          downstream_snr_db?: number | null
+          error?: string | null
+          id?: string
+          job_id?: string
+          recorded_at?: string
+          uncorrectable_codewords?: number | null
+          upstream_channels?: number | null
+          upstream_power_dbmv?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "signal_samples_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -334,8 +639,16 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accumulate_job_summary: {
+        Args: { p_job_id: string; p_sample_ids: string[] }
+        Returns: undefined
+      }
+      claim_completion_email: {
+        Args: { p_job_id: string }
+        Returns: string
+      }
       create_job_rollups: {
-        Args: { p_bucket_minutes?: number; p_job_id: string }
+        Args: { p_bucket_minutes?: number; p_job_id: string; p_since?: string }
         Returns: number
       }
       has_role: {
@@ -345,13 +658,49 @@ export type Database = {
         }
         Returns: boolean
       }
+      queue_completion_email: {
+        Args: { p_job_id: string }
+        Returns: undefined
+      }
+      rebuild_job_summary: {
+        Args: { p_job_id: string }
+        Returns: undefined
+      }
+      record_job_coverage: {
+        Args: { p_job_id: string }
+        Returns: undefined
+      }
+      refresh_job_rollups: {
+        Args: { p_job_ids: string[] }
+        Returns: number
+      }
+      release_job_leases: {
+        Args: { p_job_ids?: string[]; p_owner_id: string }
+        Returns: number
+      }
+      rtt_sketch_bucket: {
+        Args: { p_rtt_ms: number }
+        Returns: number
+      }
+      rtt_sketch_quantile: {
+        Args: { p_quantile: number; p_sketch: Json }
+        Returns: number
+      }
+      sync_job_leases: {
+        Args: {
+          p_keep_job_ids?: string[]
+          p_lease_seconds?: number
+          p_owner_id: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       alert_state: "ok" | "offline_alerted"
       app_role: "admin" | "user"
       job_reason: "reactive" | "proactive"
       job_status: "running" | "completed" | "cancelled" | "failed"
-      sample_status: "success" | "missed" | "system_error"
+      sample_status: "success" | "missed" | "system_error" | "upstream_error"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -483,7 +832,7 @@ export const Constants = {
       app_role: ["admin", "user"],
       job_reason: ["reactive", "proactive"],
       job_status: ["running", "completed", "cancelled", "failed"],
-      sample_status: ["success", "missed", "system_error"],
+      sample_status: ["success", "missed", "system_error", "upstream_error"],
     },
   },
 } as const
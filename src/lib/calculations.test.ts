@@ -0,0 +1,309 @@
+import { describe, expect, it } from 'vitest';
+import type { Job, Sample, SampleRollup } from '@/types';
+import {
+  calculateCoverage,
+  chooseRollupTier,
+  detectDataGaps,
+  fillRollupGaps,
+  samplePackets,
+  summaryFromJob,
+} from './calculations';
+import { generateMockJob } from './mock-data';
+
+const START = Date.parse('2026-03-01T12:00:00.000Z');
+
+function makeSample(overrides: Partial<Sample> = {}): Sample {
+  const sentAt = new Date(START).toISOString();
+  return {
+    id: 'sample-1',
+    job_id: 'job-1',
+    status: 'success',
+    rtt_ms: 20,
+    jitter_ms: null,
+    recorded_at: sentAt,
+    sequence_number: 1,
+    packets_sent: null,
+    packets_lost: null,
+    rtt_min_ms: null,
+    rtt_max_ms: null,
+    rtt_mdev_ms: null,
+    scheduled_at: sentAt,
+    schedule_lateness_ms: 0,
+    probe_sent_at: sentAt,
+    probe_responded_at: null,
+    error_code: null,
+    error_detail: null,
+    ...overrides,
+  };
+}
+
+function makeJob(overrides: Partial<Job> = {}): Job {
+  return generateMockJob('user-1', 'Test User', {
+    status: 'running',
+    started_at: new Date(START).toISOString(),
+    duration_minutes: 60,
+    cadence_seconds: 60,
+    ...overrides,
+  });
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Samples probed at the given offsets from START, in order
+function samplesAt(offsetsMs: number[]): Sample[] {
+  return offsetsMs.map((offset, i) => makeSample({
+    id: `sample-${i}`,
+    sequence_number: i + 1,
+    probe_sent_at: new Date(START + offset).toISOString(),
+  }));
+}
+
+function makeRollup(minute: number, overrides: Partial<SampleRollup> = {}): SampleRollup {
+  const bucketStart = START + minute * MINUTE_MS;
+  return {
+    id: `rollup-${minute}`,
+    job_id: 'job-1',
+    bucket_minutes: 1,
+    bucket_start: new Date(bucketStart).toISOString(),
+    bucket_end: new Date(bucketStart + MINUTE_MS).toISOString(),
+    sample_count: 6,
+    success_count: 6,
+    missed_count: 0,
+    system_error_count: 0,
+    upstream_error_count: 0,
+    avg_rtt_ms: 20,
+    min_rtt_ms: 15,
+    max_rtt_ms: 25,
+    p95_rtt_ms: 24,
+    avg_jitter_ms: 2,
+    max_jitter_ms: 5,
+    updated_at: new Date(bucketStart + MINUTE_MS).toISOString(),
+    ...overrides,
+  };
+}
+
+describe('samplePackets', () => {
+  it('uses the counts a burst sample recorded', () => {
+    expect(samplePackets(makeSample({ packets_sent: 5, packets_lost: 2 }))).toEqual({ sent: 5, lost: 2 });
+  });
+
+  it('counts a single ping as one packet, lost when it was missed', () => {
+    expect(samplePackets(makeSample())).toEqual({ sent: 1, lost: 0 });
+    expect(samplePackets(makeSample({ status: 'missed', rtt_ms: null }))).toEqual({ sent: 1, lost: 1 });
+  });
+
+  it('counts no packet for a probe that failed on our side or upstream', () => {
+    expect(samplePackets(makeSample({ status: 'system_error', rtt_ms: null }))).toEqual({ sent: 0, lost: 0 });
+    expect(samplePackets(makeSample({ status: 'upstream_error', rtt_ms: null }))).toEqual({ sent: 0, lost: 0 });
+  });
+});
+
+describe('summaryFromJob', () => {
+  // A job an hour in with 60 samples, 3 of them missed and 1 a system error
+  const aggregates: Partial<Job> = {
+    total_samples: 60,
+    success_count: 56,
+    missed_count: 3,
+    system_error_count: 1,
+    upstream_error_count: 0,
+    packets_sent: 59,
+    packets_lost: 3,
+    longest_miss_streak: 2,
+    outage_event_count: 0,
+  };
+
+  it('reads the running aggregates, which arrive from the database as numeric strings', () => {
+    const job = makeJob({
+      ...aggregates,
+      packet_loss_percent: '5.08' as unknown as number,
+      avg_rtt_ms: '24.5' as unknown as number,
+      max_rtt_ms: '88.2' as unknown as number,
+      p95_rtt_ms: '41' as unknown as number,
+      avg_jitter_ms: '3.2' as unknown as number,
+      max_jitter_ms: '19' as unknown as number,
+    });
+
+    expect(summaryFromJob(job)).toMatchObject({
+      totalSamples: 60,
+      successCount: 56,
+      missedCount: 3,
+      systemErrorCount: 1,
+      packetsSent: 59,
+      packetsLost: 3,
+      packetLossPercent: 5.08,
+      avgRttMs: 24.5,
+      maxRttMs: 88.2,
+      p95RttMs: 41,
+      avgJitterMs: 3.2,
+      maxJitterMs: 19,
+      longestMissStreak: 2,
+    });
+    expect(summaryFromJob(job).successRate).toBeCloseTo(93.33, 2);
+  });
+
+  it('judges the job against the thresholds', () => {
+    const passing = makeJob({ ...aggregates, packet_loss_percent: 1.5, p95_rtt_ms: 80, avg_jitter_ms: 10 });
+    const lossy = makeJob({ ...aggregates, packet_loss_percent: 5.08, p95_rtt_ms: 80, avg_jitter_ms: 10 });
+
+    expect(summaryFromJob(passing)).toMatchObject({ passPacketLoss: true, passLatency: true, passJitter: true, overallPass: true });
+    expect(summaryFromJob(lossy)).toMatchObject({ passPacketLoss: false, overallPass: false });
+    expect(summaryFromJob(lossy, {
+      packet_loss_percent: 10,
+      p95_latency_ms: 100,
+      jitter_ms: 30,
+      system_error_percent: 5,
+    }).overallPass).toBe(true);
+  });
+
+  it('passes latency and jitter for a job with no replies yet', () => {
+    const summary = summaryFromJob(makeJob({ total_samples: 0, success_count: 0 }));
+
+    expect(summary).toMatchObject({ totalSamples: 0, successRate: 0, p95RttMs: null, passLatency: true, passJitter: true });
+  });
+});
+
+describe('chooseRollupTier', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+
+  it('picks the finest tier that fits the range into a chart', () => {
+    expect(chooseRollupTier(2 * HOUR_MS)).toBe(1);
+    // 720 one-minute buckets is the most a chart draws
+    expect(chooseRollupTier(12 * HOUR_MS)).toBe(1);
+    expect(chooseRollupTier(12 * HOUR_MS + 60_000)).toBe(5);
+    expect(chooseRollupTier(48 * HOUR_MS)).toBe(5);
+    expect(chooseRollupTier(72 * HOUR_MS)).toBe(60);
+  });
+
+  it('falls back to hourly buckets however long the range', () => {
+    expect(chooseRollupTier(90 * 24 * HOUR_MS)).toBe(60);
+  });
+});
+
+describe('detectDataGaps', () => {
+  it('finds no gap while samples keep to the cadence', () => {
+    expect(detectDataGaps(samplesAt([0, 60_000, 120_000, 180_000]), 60)).toEqual([]);
+  });
+
+  it('treats a sample up to half a cadence late as late, not as a gap', () => {
+    expect(detectDataGaps(samplesAt([0, 60_000, 145_000]), 60)).toEqual([]);
+  });
+
+  it('reports the empty slots between two samples', () => {
+    expect(detectDataGaps(samplesAt([0, 60_000, 240_000, 300_000]), 60)).toEqual([
+      {
+        start: new Date(START + 120_000).toISOString(),
+        end: new Date(START + 240_000).toISOString(),
+        missingSamples: 2,
+        beforeIndex: 2,
+      },
+    ]);
+  });
+
+  it('counts time before the first and after the last sample when asked to', () => {
+    const gaps = detectDataGaps(samplesAt([180_000, 240_000]), 60, { from: START, until: START + 480_000 });
+
+    expect(gaps).toEqual([
+      { start: new Date(START).toISOString(), end: new Date(START + 180_000).toISOString(), missingSamples: 3, beforeIndex: 0 },
+      {
+        start: new Date(START + 300_000).toISOString(),
+        end: new Date(START + 480_000).toISOString(),
+        missingSamples: 3,
+        beforeIndex: 2,
+      },
+    ]);
+  });
+
+  it('reports the whole window as one gap when there are no samples', () => {
+    expect(detectDataGaps([], 60, { from: START, until: START + 300_000 })).toEqual([
+      { start: new Date(START).toISOString(), end: new Date(START + 300_000).toISOString(), missingSamples: 5, beforeIndex: 0 },
+    ]);
+    expect(detectDataGaps([], 60)).toEqual([]);
+  });
+});
+
+describe('calculateCoverage', () => {
+  const INSERT_LAG_MS = 30_000;
+
+  it('measures a running job against the part of its window that has passed', () => {
+    const coverage = calculateCoverage(makeJob(), 8, START + 10 * MINUTE_MS + INSERT_LAG_MS);
+
+    expect(coverage).toEqual({
+      expectedSamples: 10,
+      noDataCount: 2,
+      coveragePercent: 80,
+      monitoredMinutes: 8,
+      windowMinutes: 10,
+    });
+  });
+
+  it('expects at least one sample from a job that has only just started', () => {
+    const coverage = calculateCoverage(makeJob(), 0, START + 20_000);
+
+    expect(coverage).toMatchObject({ expectedSamples: 1, noDataCount: 1, coveragePercent: 0, windowMinutes: 0 });
+  });
+
+  it('never reports more than full coverage', () => {
+    const coverage = calculateCoverage(makeJob(), 15, START + 10 * MINUTE_MS + INSERT_LAG_MS);
+
+    expect(coverage).toMatchObject({ coveragePercent: 100, noDataCount: 0 });
+  });
+
+  it('measures an ended job against its whole requested duration', () => {
+    const job = makeJob({ status: 'cancelled', cancelled_at: new Date(START + 30 * MINUTE_MS).toISOString() });
+
+    expect(calculateCoverage(job, 30, START + 2 * 60 * MINUTE_MS)).toEqual({
+      expectedSamples: 60,
+      noDataCount: 30,
+      coveragePercent: 50,
+      monitoredMinutes: 30,
+      windowMinutes: 60,
+    });
+  });
+
+  it('reports the coverage stored on a finished job, as its completion email does', () => {
+    const job = makeJob({
+      status: 'completed',
+      completed_at: new Date(START + 60 * MINUTE_MS).toISOString(),
+      coverage_percent: '75' as unknown as number,
+      monitored_minutes: 45,
+    });
+
+    // Samples stored after the job finished do not change it
+    expect(calculateCoverage(job, 60)).toEqual({
+      expectedSamples: 60,
+      noDataCount: 15,
+      coveragePercent: 75,
+      monitoredMinutes: 45,
+      windowMinutes: 60,
+    });
+  });
+});
+
+describe('fillRollupGaps', () => {
+  it('adds an empty bucket wherever the window has no rollup', () => {
+    const rollups = [makeRollup(0), makeRollup(1), makeRollup(4)];
+
+    const filled = fillRollupGaps(rollups, { start: START, end: START + 6 * MINUTE_MS });
+
+    expect(filled.map(r => r.sample_count)).toEqual([6, 6, 0, 0, 6, 0]);
+    expect(filled[2]).toMatchObject({
+      id: `no-data-${START + 2 * MINUTE_MS}`,
+      bucket_minutes: 1,
+      bucket_start: new Date(START + 2 * MINUTE_MS).toISOString(),
+      bucket_end: new Date(START + 3 * MINUTE_MS).toISOString(),
+      avg_rtt_ms: null,
+    });
+    // Existing buckets are kept as they are
+    expect(filled[4]).toBe(rollups[2]);
+  });
+
+  it('starts from the epoch-aligned bucket the window starts in', () => {
+    const filled = fillRollupGaps([makeRollup(2)], { start: START + 30_000, end: START + 3 * MINUTE_MS });
+
+    expect(filled.map(r => r.bucket_start)).toEqual([0, 1, 2].map(m => new Date(START + m * MINUTE_MS).toISOString()));
+  });
+
+  it('leaves no rollups as none', () => {
+    expect(fillRollupGaps([], { start: START, end: START + 6 * MINUTE_MS })).toEqual([]);
+  });
+});
@@ -1,4 +1,4 @@
-import type { Sample, JobSummary, ThresholdsConfig } from '@/types';
+import type { DataGap, Job, JobCoverage, Sample, SampleRollup, SampleStatus, RollupTier, JobSummary, ThresholdsConfig } from '@/types';
 
 const DEFAULT_THRESHOLDS: ThresholdsConfig = {
   packet_loss_percent: 2,
@@ -7,6 +7,16 @@ const DEFAULT_THRESHOLDS: ThresholdsConfig = {
   system_error_percent: 5,
 };
 
+// Packets behind a sample. Burst samples record their own counts; a
+// single-ping sample is one packet, unless it failed on our side or upstream.
+export function samplePackets(sample: Sample): { sent: number; lost: number } {
+  if (sample.packets_sent !== null && sample.packets_sent !== undefined) {
+    return { sent: sample.packets_sent, lost: sample.packets_lost ?? 0 };
+  }
+  if (sample.status === 'system_error' || sample.status === 'upstream_error') return { sent: 0, lost: 0 };
+  return { sent: 1, lost: sample.status === 'missed' ? 1 : 0 };
+}
+
 export function calculateJobSummary(
   samples: Sample[],
   thresholds: ThresholdsConfig = DEFAULT_THRESHOLDS
@@ -19,6 +29,9 @@ export function calculateJobSummary(
       successCount: 0,
       missedCount: 0,
       systemErrorCount: 0,
+      upstreamErrorCount: 0,
+      packetsSent: 0,
+      packetsLost: 0,
       packetLossPercent: 0,
       avgRttMs: null,
       maxRttMs: null,
@@ -38,25 +51,41 @@ export function calculateJobSummary(
   const successCount = samples.filter(s => s.status === 'success').length;
   const missedCount = samples.filter(s => s.status === 'missed').length;
   const systemErrorCount = samples.filter(s => s.status === 'system_error').length;
+  const upstreamErrorCount = samples.filter(s => s.status === 'upstream_error').length;
 
-  // Exclude system errors from packet loss calculation
-  const validAttempts = successCount + missedCount;
-  const packetLossPercent = validAttempts > 0 
-    ? (missedCount / validAttempts) * 100 
+  // Packet loss counts every packet in a burst; system and upstream errors are excluded
+  let packetsSent = 0;
+  let packetsLost = 0;
+  for (const sample of samples) {
+    const { sent, lost } = samplePackets(sample);
+    packetsSent += sent;
+    packetsLost += lost;
+  }
+  const packetLossPercent = packetsSent > 0
+    ? (packetsLost / packetsSent) * 100
     : 0;
 
   // RTT calculations from successful samples only
-  const rttValues = samples
-    .filter(s => s.status === 'success' && s.rtt_ms !== null)
-    .map(s => s.rtt_ms as number)
+  const successSamples = samples.filter(s => s.status === 'success' && s.rtt_ms !== null);
+  const rttValues = successSamples
+    .map(s => Number(s.rtt_ms))
     .sort((a, b) => a - b);
 
-  const avgRttMs = rttValues.length > 0
-    ? rttValues.reduce((sum, v) => sum + v, 0) / rttValues.length
+  // Burst averages are weighted by the replies behind them
+  let rttWeightedSum = 0;
+  let rttReplies = 0;
+  for (const sample of successSamples) {
+    const { sent, lost } = samplePackets(sample);
+    const replies = Math.max(1, sent - lost);
+    rttWeightedSum += Number(sample.rtt_ms) * replies;
+    rttReplies += replies;
+  }
+  const avgRttMs = rttReplies > 0
+    ? rttWeightedSum / rttReplies
     : null;
 
-  const maxRttMs = rttValues.length > 0
-    ? Math.max(...rttValues)
+  const maxRttMs = successSamples.length > 0
+    ? Math.max(...successSamples.map(s => Number(s.rtt_max_ms ?? s.rtt_ms)))
     : null;
 
   // P95 calculation
@@ -95,6 +124,9 @@ export function calculateJobSummary(
     successCount,
     missedCount,
     systemErrorCount,
+    upstreamErrorCount,
+    packetsSent,
+    packetsLost,
     packetLossPercent,
     avgRttMs,
     maxRttMs,
@@ -111,15 +143,234 @@ export function calculateJobSummary(
   };
 }
 
+// Build a summary from the running aggregates on the job row. Unlike
+// calculateJobSummary, this covers every sample, not just the loaded window.
+export function summaryFromJob(
+  job: Job,
+  thresholds: ThresholdsConfig = DEFAULT_THRESHOLDS
+): JobSummary {
+  const totalSamples = job.total_samples ?? 0;
+  const packetLossPercent = job.packet_loss_percent !== null ? Number(job.packet_loss_percent) : 0;
+  const avgRttMs = job.avg_rtt_ms !== null ? Number(job.avg_rtt_ms) : null;
+  const maxRttMs = job.max_rtt_ms !== null ? Number(job.max_rtt_ms) : null;
+  const p95RttMs = job.p95_rtt_ms !== null ? Number(job.p95_rtt_ms) : null;
+  const avgJitterMs = job.avg_jitter_ms !== null ? Number(job.avg_jitter_ms) : null;
+  const maxJitterMs = job.max_jitter_ms !== null ? Number(job.max_jitter_ms) : null;
+
+  const passPacketLoss = packetLossPercent <= thresholds.packet_loss_percent;
+  const passLatency = p95RttMs === null || p95RttMs <= thresholds.p95_latency_ms;
+  const passJitter = avgJitterMs === null || avgJitterMs <= thresholds.jitter_ms;
+
+  return {
+    totalSamples,
+    successCount: job.success_count,
+    missedCount: job.missed_count,
+    systemErrorCount: job.system_error_count,
+    upstreamErrorCount: job.upstream_error_count ?? 0,
+    packetsSent: Number(job.packets_sent),
+    packetsLost: Number(job.packets_lost),
+    packetLossPercent,
+    avgRttMs,
+    maxRttMs,
+    p95RttMs,
+    avgJitterMs,
+    maxJitterMs,
+    successRate: totalSamples > 0 ? (job.success_count / totalSamples) * 100 : 0,
+    outageEventCount: job.outage_event_count,
+    longestMissStreak: job.longest_miss_streak,
+    passPacketLoss,
+    passLatency,
+    passJitter,
+    overallPass: passPacketLoss && passLatency && passJitter,
+  };
+}
+
+// How far probes started behind their cadence slots, over samples that
+// recorded it. Null when none did (browser and simulated jobs).
+export function calculateScheduleSkew(samples: Sample[]): { avgMs: number; p95Ms: number; maxMs: number } | null {
+  const lateness = samples
+    .filter(s => s.schedule_lateness_ms !== null && s.schedule_lateness_ms !== undefined)
+    .map(s => s.schedule_lateness_ms as number)
+    .sort((a, b) => a - b);
+
+  if (lateness.length === 0) return null;
+
+  return {
+    avgMs: lateness.reduce((sum, v) => sum + v, 0) / lateness.length,
+    p95Ms: lateness[Math.floor(lateness.length * 0.95)] ?? lateness[lateness.length - 1],
+    maxMs: lateness[lateness.length - 1],
+  };
+}
+
+// A slot counts as late rather than empty until this many cadences have passed
+const GAP_TOLERANCE = 1.5;
+// Samples reach the database a flush or two after the probe
+const INSERT_LAG_MS = 30 * 1000;
+
+// The span a job has been sampling, in epoch ms: from its start to when it
+// ended, or to now (less the insert lag) while it runs, never past the
+// requested duration
+export function jobWindow(job: Job, now: number = Date.now()): { start: number; end: number } {
+  const start = new Date(job.started_at).getTime();
+  const requestedEnd = start + job.duration_minutes * 60 * 1000;
+  const endedAt = job.completed_at ?? job.cancelled_at ?? job.failed_at;
+  const end = job.status === 'running' || !endedAt
+    ? now - INSERT_LAG_MS
+    : new Date(endedAt).getTime();
+  return { start, end: Math.max(start, Math.min(end, requestedEnd)) };
+}
+
+// How many of the job's cadence slots have a sample. Once the job has ended
+// this is measured against the whole requested duration, so a job cancelled
+// or failed halfway reports half its window as unmonitored; the database
+// stores that figure on the job as it stops running (record_job_coverage),
+// and it is used as is so the page and the completion email agree.
+export function calculateCoverage(job: Job, recordedSamples: number, now: number = Date.now()): JobCoverage {
+  const cadenceMs = job.cadence_seconds * 1000;
+  const { start, end } = jobWindow(job, now);
+  const windowMs = job.status === 'running' ? end - start : job.duration_minutes * 60 * 1000;
+  const expectedSamples = Math.max(1, Math.ceil(windowMs / cadenceMs));
+
+  if (job.status !== 'running' && job.coverage_percent !== null && job.monitored_minutes !== null) {
+    const coveragePercent = Number(job.coverage_percent);
+    const monitored = Math.round((coveragePercent / 100) * expectedSamples);
+    return {
+      expectedSamples,
+      noDataCount: expectedSamples - monitored,
+      coveragePercent,
+      monitoredMinutes: job.monitored_minutes,
+      windowMinutes: Math.round(windowMs / 60000),
+    };
+  }
+
+  const monitoredSamples = Math.min(recordedSamples, expectedSamples);
+  return {
+    expectedSamples,
+    noDataCount: expectedSamples - monitoredSamples,
+    coveragePercent: (monitoredSamples / expectedSamples) * 100,
+    monitoredMinutes: Math.round((monitoredSamples * cadenceMs) / 60000),
+    windowMinutes: Math.round(windowMs / 60000),
+  };
+}
+
+// Stretches without a sample for at least a whole cadence slot. Samples must
+// be in probe order. With `from`, time before the first sample counts too
+// (only pass it when the samples start at the beginning of the job); with
+// `until`, so does time after the last.
+export function detectDataGaps(
+  samples: Sample[],
+  cadenceSeconds: number,
+  options?: { from?: number; until?: number }
+): DataGap[] {
+  const cadenceMs = cadenceSeconds * 1000;
+  const gaps: DataGap[] = [];
+
+  // `previous` is the last slot that was sampled, `next` the next sample
+  const addGap = (previous: number, next: number, beforeIndex: number) => {
+    if (next - previous <= cadenceMs * GAP_TOLERANCE) return;
+    gaps.push({
+      start: new Date(previous + cadenceMs).toISOString(),
+      end: new Date(next).toISOString(),
+      missingSamples: Math.max(1, Math.round((next - previous) / cadenceMs) - 1),
+      beforeIndex,
+    });
+  };
+
+  const times = samples.map(s => new Date(s.probe_sent_at).getTime());
+  if (times.length === 0) {
+    if (options?.from !== undefined && options.until !== undefined) {
+      addGap(options.from - cadenceMs, options.until, 0);
+    }
+    return gaps;
+  }
+
+  // The job's first slot is at its start
+  if (options?.from !== undefined) addGap(options.from - cadenceMs, times[0], 0);
+  for (let i = 1; i < times.length; i++) {
+    addGap(times[i - 1], times[i], i);
+  }
+  if (options?.until !== undefined) addGap(times[times.length - 1], options.until, times.length);
+
+  return gaps;
+}
+
+// Cadence slots within a bucket (and within the job's window) that have no sample
+export function rollupNoDataCount(
+  rollup: SampleRollup,
+  cadenceSeconds: number,
+  window: { start: number; end: number }
+): number {
+  const from = Math.max(new Date(rollup.bucket_start).getTime(), window.start);
+  const to = Math.min(new Date(rollup.bucket_end).getTime(), window.end);
+  const expected = Math.floor(Math.max(0, to - from) / (cadenceSeconds * 1000));
+  return Math.max(0, expected - rollup.sample_count);
+}
+
+// Rollups with an empty bucket wherever the window has no samples, so charts
+// show the gap instead of closing it up. Rollups must be in bucket order.
+export function fillRollupGaps(rollups: SampleRollup[], window: { start: number; end: number }): SampleRollup[] {
+  if (rollups.length === 0) return rollups;
+
+  const tier = rollups[0].bucket_minutes;
+  const bucketMs = tier * 60 * 1000;
+  const byStart = new Map(rollups.map(r => [new Date(r.bucket_start).getTime(), r]));
+  const filled: SampleRollup[] = [];
+
+  // Buckets are aligned to the epoch, like create_job_rollups does
+  const first = Math.min(Math.floor(window.start / bucketMs) * bucketMs, new Date(rollups[0].bucket_start).getTime());
+  const last = Math.max(window.end - 1, new Date(rollups[rollups.length - 1].bucket_start).getTime());
+  for (let bucketStart = first; bucketStart <= last; bucketStart += bucketMs) {
+    filled.push(byStart.get(bucketStart) ?? {
+      id: `no-data-${bucketStart}`,
+      job_id: rollups[0].job_id,
+      bucket_minutes: tier,
+      bucket_start: new Date(bucketStart).toISOString(),
+      bucket_end: new Date(bucketStart + bucketMs).toISOString(),
+      sample_count: 0,
+      success_count: 0,
+      missed_count: 0,
+      system_error_count: 0,
+      upstream_error_count: 0,
+      avg_rtt_ms: null,
+      min_rtt_ms: null,
+      max_rtt_ms: null,
+      p95_rtt_ms: null,
+      avg_jitter_ms: null,
+      max_jitter_ms: null,
+      updated_at: new Date(bucketStart).toISOString(),
+    });
+  }
+  return filled;
+}
+
+const ROLLUP_TIERS: RollupTier[] = [1, 5, 60];
+// Most points a chart should draw across a job's time range
+const MAX_CHART_POINTS = 720;
+
+// Finest rollup tier that fits the time range into a chart
+export function chooseRollupTier(rangeMs: number): RollupTier {
+  return ROLLUP_TIERS.find(tier => rangeMs / (tier * 60 * 1000) <= MAX_CHART_POINTS) ?? 60;
+}
+
+// A bucket is shown by its dominant outcome: any success makes it a success
+// (possibly with partial loss), otherwise the most telling failure
+export function rollupStatus(rollup: SampleRollup): SampleStatus {
+  if (rollup.sample_count === 0) return 'no_data';
+  if (rollup.success_count > 0) return 'success';
+  if (rollup.missed_count > 0) return 'missed';
+  if (rollup.upstream_error_count > 0) return 'upstream_error';
+  return 'system_error';
+}
+
 function calculateOutageMetrics(samples: Sample[]): { outageEventCount: number; longestMissStreak: number } {
   if (samples.length === 0) {
     return { outageEventCount: 0, longestMissStreak: 0 };
   }
 
-  // Sort by recorded_at (canonical). sequence_number can reset when poller replicas restart.
+  // Sort by probe time (canonical), breaking ties by sequence_number.
   const sorted = [...samples].sort((a, b) => {
-    const at = new Date(a.recorded_at).getTime();
-    const bt = new Date(b.recorded_at).getTime();
+    const at = new Date(a.probe_sent_at).getTime();
+    const bt = new Date(b.probe_sent_at).getTime();
     if (at !== bt) return at - bt;
     return a.sequence_number - b.sequence_number;
   });
@@ -141,7 +392,7 @@ function calculateOutageMetrics(samples: Sample[]): { outageEventCount: number;
       currentMissStreak = 0;
       wasInOutage = false;
     }
-    // System errors don't reset streaks
+    // System and upstream errors don't reset streaks
   }
 
   return { outageEventCount, longestMissStreak };
@@ -151,8 +402,8 @@ export function shouldTriggerOfflineAlert(samples: Sample[], currentAlertState:
   if (currentAlertState === 'offline_alerted') return false;
   
   const sorted = [...samples].sort((a, b) => {
-    const at = new Date(a.recorded_at).getTime();
-    const bt = new Date(b.recorded_at).getTime();
+    const at = new Date(a.probe_sent_at).getTime();
+    const bt = new Date(b.probe_sent_at).getTime();
     if (at !== bt) return at - bt;
     return a.sequence_number - b.sequence_number;
   });
@@ -167,8 +418,8 @@ export function shouldTriggerRecoveryAlert(samples: Sample[], currentAlertState:
   if (currentAlertState !== 'offline_alerted') return false;
   
   const sorted = [...samples].sort((a, b) => {
-    const at = new Date(a.recorded_at).getTime();
-    const bt = new Date(b.recorded_at).getTime();
+    const at = new Date(a.probe_sent_at).getTime();
+    const bt = new Date(b.probe_sent_at).getTime();
     if (at !== bt) return at - bt;
     return a.sequence_number - b.sequence_number;
   });
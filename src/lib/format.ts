@@ -1,5 +1,5 @@
 import { format, formatDistanceToNow, formatDuration, intervalToDuration } from 'date-fns';
-import type { DurationUnit, DurationPreset } from '@/types';
+import type { DurationUnit, DurationPreset, JobCoverage, Sample, SampleErrorCode } from '@/types';
 
 export function convertToMinutes(value: number, unit: DurationUnit): number {
   switch (unit) {
@@ -56,6 +56,11 @@ export function formatDurationFromMinutes(minutes: number): string {
   return remainingHours > 0 ? `${days}d ${remainingHours}h` : `${days} day${days > 1 ? 's' : ''}`;
 }
 
+// e.g. "22h 40m of 1 day (94.4%)"
+export function formatCoverage(coverage: JobCoverage): string {
+  return `${formatDurationFromMinutes(coverage.monitoredMinutes)} of ${formatDurationFromMinutes(coverage.windowMinutes)} (${formatPercent(coverage.coveragePercent)})`;
+}
+
 export function formatCadence(seconds: number): string {
   if (seconds < 60) {
     return `${seconds} sec`;
@@ -73,6 +78,31 @@ export function formatMs(value: number | null, decimals: number = 1): string {
   return `${value.toFixed(decimals)} ms`;
 }
 
+export const SAMPLE_ERROR_LABELS: Record<SampleErrorCode, string> = {
+  timeout: 'Timed out',
+  host_unreachable: 'Host unreachable',
+  connection_refused: 'Connection refused',
+  connection_reset: 'Connection reset',
+  connection_failed: 'Connection failed',
+  http_error: 'HTTP server error',
+  api_http_error: 'Latency API error',
+  api_timeout: 'Latency API timed out',
+  api_unreachable: 'Latency API unreachable',
+  api_error: 'Latency API could not ping',
+  api_circuit_open: 'Latency API outage',
+  no_target: 'No target to probe',
+  unsupported_probe: 'Probe type not supported here',
+  probe_failed: 'Probe failed to run',
+};
+
+// Why a sample failed, e.g. "Latency API error (API error: 503)"; null for
+// successes and for samples recorded before reasons were stored
+export function formatSampleError(sample: Pick<Sample, 'error_code' | 'error_detail'>): string | null {
+  if (!sample.error_code) return sample.error_detail;
+  const label = SAMPLE_ERROR_LABELS[sample.error_code] ?? sample.error_code;
+  return sample.error_detail ? `${label} (${sample.error_detail})` : label;
+}
+
 export function formatMacAddress(mac: string): string {
   // Normalize MAC to uppercase with colons
   const cleaned = mac.replace(/[^a-fA-F0-9]/g, '').toUpperCase();
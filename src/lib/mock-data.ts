@@ -1,4 +1,4 @@
-import type { Sample, SampleStatus, Job } from '@/types';
+import type { Sample, RecordedSampleStatus, Job } from '@/types';
 
 export type MockScenario = 'healthy' | 'intermittent' | 'offline' | 'recovering';
 
@@ -61,7 +61,7 @@ export function generateMockSamples(
   let previousRtt: number | null = null;
 
   for (let i = 0; i < totalSamples; i++) {
-    let status: SampleStatus;
+    let status: RecordedSampleStatus;
     let rtt: number | null = null;
     let jitter: number | null = null;
 
@@ -101,6 +101,17 @@ export function generateMockSamples(
       jitter_ms: jitter ? Math.round(jitter * 100) / 100 : null,
       recorded_at: recordedAt.toISOString(),
       sequence_number: i + 1,
+      packets_sent: null,
+      packets_lost: null,
+      rtt_min_ms: null,
+      rtt_max_ms: null,
+      rtt_mdev_ms: null,
+      scheduled_at: null,
+      schedule_lateness_ms: null,
+      probe_sent_at: recordedAt.toISOString(),
+      probe_responded_at: status === 'success' && rtt ? new Date(recordedAt.getTime() + rtt).toISOString() : null,
+      error_code: status === 'missed' ? 'timeout' : status === 'system_error' ? 'api_http_error' : null,
+      error_detail: status === 'missed' ? 'Ping timeout' : status === 'system_error' ? 'API error: 503' : null,
     });
   }
 
@@ -132,14 +143,43 @@ export function generateMockJob(
     requester_name: userName,
     source: 'web_app',
     monitoring_mode: 'simulated',
+    simulator_scenario: null,
+    simulator_config: null,
+    replay_of_job_id: null,
+    replay_speed: null,
+    probe_type: 'latency_api',
+    probe_port: null,
+    probe_url: null,
+    burst_size: 1,
     started_at: now.toISOString(),
     completed_at: null,
     cancelled_at: null,
+    failed_at: null,
+    failure_reason: null,
+    failure_detail: null,
     last_ping_at: null,
+    polling_paused_at: null,
+    polling_paused_by: null,
+    collect_signal_metrics: false,
+    signal_cadence_seconds: 300,
     created_at: now.toISOString(),
     avg_rtt_ms: null,
     packet_loss_percent: null,
     total_samples: 0,
+    success_count: 0,
+    missed_count: 0,
+    system_error_count: 0,
+    upstream_error_count: 0,
+    packets_sent: 0,
+    packets_lost: 0,
+    max_rtt_ms: null,
+    p95_rtt_ms: null,
+    avg_jitter_ms: null,
+    max_jitter_ms: null,
+    longest_miss_streak: 0,
+    outage_event_count: 0,
+    coverage_percent: null,
+    monitored_minutes: null,
     ...overrides,
   };
 }
@@ -1,21 +1,37 @@
 import { supabase } from '@/integrations/supabase/client';
-import type { SampleStatus } from '@/types';
-import { startRealPolling, isRealPollingActive } from '@/lib/real-ping-executor';
+import type { RecordedSampleStatus, SampleErrorCode, SimulatorScenario } from '@/types';
+import type { SimulatedOutcome } from '@/lib/simulation-scenarios';
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 
-export type SimulatorScenario = 'healthy' | 'intermittent' | 'offline';
-
 // Store active simulators by job ID
 const activeSimulators = new Map<string, NodeJS.Timeout>();
 // Store previous RTT for jitter calculation per job
 const previousRttByJob = new Map<string, number | null>();
 
-// Generate a single sample based on scenario
+// Failure reasons the simulator reports, as the real drivers would
+const SIMULATED_ERRORS: Partial<Record<RecordedSampleStatus, { error_code: SampleErrorCode; error_detail: string }[]>> = {
+  missed: [
+    { error_code: 'timeout', error_detail: 'Ping timeout' },
+    { error_code: 'host_unreachable', error_detail: 'Destination Host Unreachable' },
+  ],
+  system_error: [
+    { error_code: 'api_http_error', error_detail: 'API error: 503' },
+    { error_code: 'api_timeout', error_detail: 'API request timed out' },
+  ],
+};
+
+function simulatedError(status: RecordedSampleStatus): { error_code: SampleErrorCode | null; error_detail: string | null } {
+  const options = SIMULATED_ERRORS[status];
+  if (!options) return { error_code: null, error_detail: null };
+  return options[Math.floor(Math.random() * options.length)];
+}
+
+// Generate a single sample based on a built-in scenario
 function generateSample(
   scenario: SimulatorScenario,
   sampleIndex: number
-): { status: SampleStatus; rtt_ms: number | null } {
+): { status: RecordedSampleStatus; rtt_ms: number | null } {
   const rand = Math.random();
 
   switch (scenario) {
@@ -76,57 +92,14 @@ function pickRandomScenario(): SimulatorScenario {
   return 'offline';
 }
 
-// Start simulator for a job
-// If monitoringMode is 'real_polling', skip the simulator entirely
-export function startSimulator(
-  jobId: string,
-  cadenceSeconds: number,
-  durationMinutes: number,
-  scenario?: SimulatorScenario,
-  monitoringMode: 'simulated' | 'real_polling' = 'simulated'
-) {
-  // Skip simulator for real polling jobs - the OpenShift poller service handles these
-  if (monitoringMode === 'real_polling') {
-    console.log(`Skipping simulator for job ${jobId} - using real polling mode`);
-    return;
-  }
-  // Don't start if already running
-  if (activeSimulators.has(jobId)) {
-    console.log(`Simulator already running for job ${jobId}`);
-    return;
-  }
-
-  const selectedScenario = scenario ?? pickRandomScenario();
-  let sampleIndex = 0;
-  const startTime = Date.now();
-  const endTime = startTime + durationMinutes * 60 * 1000;
-
-  console.log(`Starting simulator for job ${jobId} with scenario: ${selectedScenario}`);
-
-  // Insert first sample immediately
-  insertSample(jobId, sampleIndex++, selectedScenario);
-
-  // Set up interval for subsequent samples
-  const intervalId = setInterval(async () => {
-    const now = Date.now();
-
-    // Check if job should complete
-    if (now >= endTime) {
-      stopSimulator(jobId);
-      await completeJob(jobId);
-      return;
-    }
-
-    // Insert next sample
-    await insertSample(jobId, sampleIndex++, selectedScenario);
-  }, cadenceSeconds * 1000);
-
-  activeSimulators.set(jobId, intervalId);
+// The built-in generator as a full outcome, with a failure reason drawn at random
+function builtInOutcome(scenario: SimulatorScenario, sequenceNumber: number): SimulatedOutcome {
+  const sample = generateSample(scenario, sequenceNumber);
+  return { ...sample, ...simulatedError(sample.status) };
 }
 
 // Insert a sample into the database with jitter calculation
-async function insertSample(jobId: string, sequenceNumber: number, scenario: SimulatorScenario) {
-  const sample = generateSample(scenario, sequenceNumber);
+async function insertSample(jobId: string, sequenceNumber: number, sample: SimulatedOutcome) {
 
   // Calculate jitter as absolute difference from previous RTT (RFC 3550 IPDV)
   let jitter_ms: number | null = null;
@@ -140,12 +113,22 @@ async function insertSample(jobId: string, sequenceNumber: number, scenario: Sim
     previousRttByJob.set(jobId, sample.rtt_ms);
   }
 
+  // The simulated probe goes out now and its reply takes the simulated RTT
+  const sentAt = Date.now();
+  const respondedAt = sample.status === 'success' && sample.rtt_ms !== null
+    ? new Date(sentAt + sample.rtt_ms).toISOString()
+    : null;
+
   const { error } = await supabase.from('samples').insert({
     job_id: jobId,
     sequence_number: sequenceNumber,
     status: sample.status,
     rtt_ms: sample.rtt_ms,
     jitter_ms: jitter_ms,
+    probe_sent_at: new Date(sentAt).toISOString(),
+    probe_responded_at: respondedAt,
+    error_code: sample.error_code,
+    error_detail: sample.error_detail,
   });
 
   if (error) {
@@ -155,18 +138,25 @@ async function insertSample(jobId: string, sequenceNumber: number, scenario: Sim
 
 // Complete a job and send completion email
 async function completeJob(jobId: string) {
-  const { error } = await supabase
+  // A job the poller failed, or someone cancelled, keeps that outcome
+  const { data, error } = await supabase
     .from('jobs')
     .update({
       status: 'completed',
       completed_at: new Date().toISOString(),
     })
-    .eq('id', jobId);
+    .eq('id', jobId)
+    .eq('status', 'running')
+    .select('id');
 
   if (error) {
     console.error('Failed to complete job:', error);
     return;
   }
+  if (!data || data.length === 0) {
+    console.log(`Job ${jobId} is no longer running, not completing it`);
+    return;
+  }
   
   console.log(`Job ${jobId} completed`);
 
@@ -253,10 +243,11 @@ export function isJobExpired(startedAt: string, durationMinutes: number): boolea
   return Date.now() > expectedEndTime;
 }
 
-// Check and complete all expired running jobs
-export async function checkAndCompleteExpiredJobs(): Promise<{ completed: string[]; resumed: string[] }> {
+// Check and complete all expired running jobs. Real polling is never resumed
+// from here: the poller runs those jobs, and a job's own page stands in for it
+// only while no poller replica is alive.
+export async function checkAndCompleteExpiredJobs(): Promise<{ completed: string[] }> {
   const completed: string[] = [];
-  const resumed: string[] = [];
 
   // Fetch all running jobs
   const { data: runningJobs, error } = await supabase
@@ -266,103 +257,28 @@ export async function checkAndCompleteExpiredJobs(): Promise<{ completed: string
 
   if (error || !runningJobs) {
     console.error('Failed to fetch running jobs:', error);
-    return { completed, resumed };
+    return { completed };
   }
 
   for (const job of runningJobs) {
+    // Simulated jobs are run, and completed, by the poller service
+    if (job.monitoring_mode === 'simulated') continue;
+
     if (isJobExpired(job.started_at, job.duration_minutes)) {
       // Job should have completed - complete it now
       await completeJob(job.id);
       completed.push(job.id);
       console.log(`Auto-completed expired job ${job.id}`);
-    } else if (job.monitoring_mode === 'real_polling') {
-      // Real polling job - resume via real-ping-executor if not active
-      if (!isRealPollingActive(job.id) && job.target_ip) {
-        const started = await startRealPolling(
-          job.id,
-          job.target_ip,
-          job.cadence_seconds,
-          job.duration_minutes,
-          job.started_at
-        );
-        if (started) {
-          resumed.push(job.id);
-          console.log(`Resumed real polling for job ${job.id}`);
-        }
-      }
-    } else if (!isSimulatorRunning(job.id)) {
-      // Simulated job - resume simulator if not running
-      const { data: existingSamples } = await supabase
-        .from('samples')
-        .select('sequence_number')
-        .eq('job_id', job.id)
-        .order('sequence_number', { ascending: false })
-        .limit(1);
-
-      const lastSequence = existingSamples?.[0]?.sequence_number ?? -1;
-      resumeSimulatorForJob(job, lastSequence + 1);
-      resumed.push(job.id);
-      console.log(`Resumed simulator for job ${job.id} from sequence ${lastSequence + 1}`);
     }
   }
 
-  return { completed, resumed };
+  return { completed };
 }
 
-// Resume simulator for a specific job that hasn't expired yet
-export function resumeSimulatorForJob(
-  job: { id: string; started_at: string; duration_minutes: number; cadence_seconds: number; monitoring_mode?: string },
-  startSequence: number
-) {
-  // Skip for real_polling jobs - they're handled by the external poller
-  if (job.monitoring_mode === 'real_polling') {
-    console.log(`Skipping simulator resume for real_polling job ${job.id}`);
-    return;
-  }
-  
-  // Don't start if already running
-  if (activeSimulators.has(job.id)) {
-    return;
-  }
-
-  const scenario = pickRandomScenario();
-  let sampleIndex = startSequence;
-  const startTime = new Date(job.started_at).getTime();
-  const endTime = startTime + job.duration_minutes * 60 * 1000;
-
-  console.log(`Resuming simulator for job ${job.id} with scenario: ${scenario}, starting at sequence ${sampleIndex}`);
-
-  // Calculate remaining time
-  const remainingMs = endTime - Date.now();
-  if (remainingMs <= 0) {
-    // Job should be completed
-    completeJob(job.id);
-    return;
-  }
-
-  // Insert a sample immediately
-  insertSample(job.id, sampleIndex++, scenario);
-
-  // Set up interval for subsequent samples
-  const intervalId = setInterval(async () => {
-    const now = Date.now();
-
-    // Check if job should complete
-    if (now >= endTime) {
-      stopSimulator(job.id);
-      await completeJob(job.id);
-      return;
-    }
-
-    // Insert next sample
-    await insertSample(job.id, sampleIndex++, scenario);
-  }, job.cadence_seconds * 1000);
-
-  activeSimulators.set(job.id, intervalId);
-}
-
-// Check and handle a single job - complete if expired, resume if still running
-export async function checkAndHandleJob(jobId: string): Promise<'completed' | 'resumed' | 'already_running' | 'not_found'> {
+// Check and handle a single job - complete if expired. Running jobs are left to
+// the poller service, and so are expired simulated ones, which it completes
+// and emails about itself.
+export async function checkAndHandleJob(jobId: string): Promise<'completed' | 'already_running' | 'not_found'> {
   const { data: job, error } = await supabase
     .from('jobs')
     .select('*')
@@ -378,32 +294,16 @@ export async function checkAndHandleJob(jobId: string): Promise<'completed' | 'r
     return 'not_found';
   }
 
-  if (isJobExpired(job.started_at, job.duration_minutes)) {
-    await completeJob(job.id);
-    return 'completed';
-  }
-
-  if (isSimulatorRunning(job.id)) {
+  if (job.monitoring_mode === 'simulated') {
     return 'already_running';
   }
 
-  // Skip simulator resume for real_polling jobs
-  if (job.monitoring_mode === 'real_polling') {
-    console.log(`Skipping simulator resume for real_polling job ${job.id}`);
-    return 'already_running'; // Not exactly running, but we don't want to resume
+  if (isJobExpired(job.started_at, job.duration_minutes)) {
+    await completeJob(job.id);
+    return 'completed';
   }
 
-  // Resume the simulator (only for simulated jobs)
-  const { data: existingSamples } = await supabase
-    .from('samples')
-    .select('sequence_number')
-    .eq('job_id', jobId)
-    .order('sequence_number', { ascending: false })
-    .limit(1);
-
-  const lastSequence = existingSamples?.[0]?.sequence_number ?? -1;
-  resumeSimulatorForJob(job, lastSequence + 1);
-  return 'resumed';
+  return 'already_running';
 }
 
 // Force start the browser simulator for any job, regardless of monitoring mode
@@ -447,7 +347,8 @@ export async function forceStartSimulator(
   console.log(`Force starting simulator for job ${jobId} with scenario: ${scenario}, starting at sequence ${sampleIndex}, remaining: ${remainingMinutes.toFixed(1)} minutes`);
 
   // Insert first sample immediately
-  insertSample(jobId, sampleIndex++, scenario);
+  insertSample(jobId, sampleIndex, builtInOutcome(scenario, sampleIndex));
+  sampleIndex++;
 
   // Set up interval for subsequent samples
   const intervalId = setInterval(async () => {
@@ -461,7 +362,8 @@ export async function forceStartSimulator(
     }
 
     // Insert next sample
-    await insertSample(jobId, sampleIndex++, scenario);
+    const sequenceNumber = sampleIndex++;
+    await insertSample(jobId, sequenceNumber, builtInOutcome(scenario, sequenceNumber));
   }, cadenceSeconds * 1000);
 
   activeSimulators.set(jobId, intervalId);
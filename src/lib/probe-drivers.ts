@@ -0,0 +1,241 @@
+// Probe Drivers
+// How a job's target is measured. The poller service implements every probe
+// type; the browser executor can only run the ones reachable over fetch.
+
+import { getServiceBaseUrl } from '@/lib/api-services';
+import type { Job, ProbeType, RecordedSampleStatus, SampleErrorCode } from '@/types';
+
+export interface ProbeConfig {
+  type: ProbeType;
+  port: number | null;
+  url: string | null;
+  burstSize: number;
+}
+
+export interface PingResult {
+  success: boolean;
+  rtt_ms: number | null;
+  error_code?: SampleErrorCode;
+  // Raw message behind error_code
+  error?: string;
+  burst?: BurstStats;
+}
+
+// Spread of a multi-probe burst; rtt_ms on the result is the burst average
+export interface BurstStats {
+  packets_sent: number;
+  packets_lost: number;
+  rtt_min_ms: number | null;
+  rtt_max_ms: number | null;
+  rtt_mdev_ms: number | null;
+}
+
+export const DEFAULT_PROBE: ProbeConfig = { type: 'latency_api', port: null, url: null, burstSize: 1 };
+
+// Gap between probes in a burst
+const BURST_INTERVAL_MS = 200;
+
+export const PROBE_TYPE_LABELS: Record<ProbeType, string> = {
+  latency_api: 'Latency API',
+  icmp: 'ICMP',
+  tcp: 'TCP Connect',
+  http: 'HTTP GET',
+};
+
+export const PROBE_TYPE_DESCRIPTIONS: Record<ProbeType, string> = {
+  latency_api: 'Ping through the SpreeDB Latency API',
+  icmp: 'Direct ICMP echo from the poller service',
+  tcp: 'Time to open a TCP connection to a port',
+  http: 'Time to first response from a URL',
+};
+
+// ICMP and raw TCP need the poller service; browsers cannot open those sockets
+const BROWSER_PROBE_TYPES: ProbeType[] = ['latency_api', 'http'];
+
+export function isBrowserProbeSupported(type: ProbeType): boolean {
+  return BROWSER_PROBE_TYPES.includes(type);
+}
+
+// Accepts raw job rows too, where probe_type is typed as a plain string
+export function probeConfigForJob(job: {
+  probe_type: string | null;
+  probe_port: number | null;
+  probe_url: string | null;
+  burst_size?: number | null;
+}): ProbeConfig {
+  return {
+    type: (job.probe_type ?? 'latency_api') as ProbeType,
+    port: job.probe_port,
+    url: job.probe_url,
+    burstSize: job.burst_size ?? 1,
+  };
+}
+
+// Failures of the API, the network on our side or the probe itself
+const SYSTEM_ERROR_CODES: SampleErrorCode[] = [
+  'api_http_error',
+  'api_timeout',
+  'api_unreachable',
+  'api_error',
+  'api_circuit_open',
+  'no_target',
+  'unsupported_probe',
+  'probe_failed',
+];
+
+// System error codes are system errors; anything else means the target did not answer
+export function classifyPing(result: PingResult): RecordedSampleStatus {
+  if (result.success) return 'success';
+  if (result.error_code && SYSTEM_ERROR_CODES.includes(result.error_code)) return 'system_error';
+  return 'missed';
+}
+
+// Describe the probe target for display, e.g. "TCP Connect :443"
+export function formatProbe(job: Pick<Job, 'probe_type' | 'probe_port' | 'probe_url'>): string {
+  const label = PROBE_TYPE_LABELS[job.probe_type] ?? PROBE_TYPE_LABELS.latency_api;
+  if (job.probe_type === 'tcp' && job.probe_port) return `${label} :${job.probe_port}`;
+  if (job.probe_type === 'http' && job.probe_url) return `${label} ${job.probe_url}`;
+  return label;
+}
+
+// Execute a single ping via the Latency API
+async function pingViaLatencyApi(targetIp: string): Promise<PingResult> {
+  const baseUrl = getServiceBaseUrl('latency');
+  
+  if (!baseUrl && !import.meta.env.PROD) {
+    // In development without API configured, return simulated failure
+    console.warn('Latency API not configured, ping will fail');
+    return { success: false, rtt_ms: null, error_code: 'api_unreachable', error: 'Latency API not configured' };
+  }
+
+  try {
+    const response = await fetch(`${baseUrl}/ping`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ip: targetIp }),
+      signal: AbortSignal.timeout(10000), // 10 second timeout
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error');
+      console.error(`Ping API error: ${response.status} - ${errorText}`);
+      return { success: false, rtt_ms: null, error_code: 'api_http_error', error: `API error: ${response.status}` };
+    }
+
+    const data = await response.json();
+    
+    // Handle SpreeDB Latency API response format
+    // Expected: { success: true, rtt_ms: number } or { success: false }
+    if (data.success && typeof data.rtt_ms === 'number') {
+      return { success: true, rtt_ms: data.rtt_ms };
+    } else if (data.rtt !== undefined) {
+      // Alternative format: { rtt: number } in milliseconds
+      return { success: true, rtt_ms: data.rtt };
+    } else if (data.latency !== undefined) {
+      // Alternative format: { latency: number }
+      return { success: true, rtt_ms: data.latency };
+    } else {
+      // No response (timeout/unreachable)
+      return { success: false, rtt_ms: null, error_code: 'timeout', error: data.error ?? 'No reply' };
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      return { success: false, rtt_ms: null, error_code: 'timeout', error: 'Ping timeout' };
+    }
+    console.error('Ping execution error:', error);
+    return { success: false, rtt_ms: null, error_code: 'api_unreachable', error: 'Network error' };
+  }
+}
+
+// Time an HTTP GET. Cross-origin targets give an opaque response, which
+// still tells us the server answered and how long it took.
+async function pingViaHttp(url: string | null): Promise<PingResult> {
+  if (!url) {
+    return { success: false, rtt_ms: null, error_code: 'no_target', error: 'No probe URL' };
+  }
+
+  const startedAt = performance.now();
+  try {
+    const response = await fetch(url, {
+      method: 'GET',
+      mode: 'no-cors',
+      cache: 'no-store',
+      signal: AbortSignal.timeout(10000),
+    });
+    const rtt_ms = Math.round((performance.now() - startedAt) * 100) / 100;
+
+    if (response.status >= 500) {
+      return { success: false, rtt_ms: null, error_code: 'http_error', error: `HTTP ${response.status}` };
+    }
+    return { success: true, rtt_ms };
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      return { success: false, rtt_ms: null, error_code: 'timeout', error: 'HTTP timeout' };
+    }
+    // fetch does not say why a request failed; treat it as the target not answering
+    return { success: false, rtt_ms: null, error_code: 'connection_failed', error: 'HTTP request failed' };
+  }
+}
+
+// Run one probe from the browser with the job's configured driver
+async function executeSingleProbe(targetIp: string, probe: ProbeConfig): Promise<PingResult> {
+  switch (probe.type) {
+    case 'http':
+      return pingViaHttp(probe.url);
+    case 'latency_api':
+      return pingViaLatencyApi(targetIp);
+    default:
+      return { success: false, rtt_ms: null, error_code: 'unsupported_probe', error: `${probe.type} probes require the poller service` };
+  }
+}
+
+// Run a job's burst of probes and fold them into one result
+export async function executeProbe(targetIp: string, probe: ProbeConfig): Promise<PingResult> {
+  const count = Math.max(1, probe.burstSize);
+  if (count === 1) return executeSingleProbe(targetIp, probe);
+
+  const results = await Promise.all(
+    Array.from({ length: count }, (_, i) =>
+      new Promise<PingResult>((resolve) => {
+        setTimeout(() => resolve(executeSingleProbe(targetIp, probe)), i * BURST_INTERVAL_MS);
+      })
+    )
+  );
+
+  const statuses = results.map(classifyPing);
+  const replies = results
+    .filter(r => r.success && r.rtt_ms !== null)
+    .map(r => r.rtt_ms as number);
+  const received = statuses.filter(s => s === 'success').length;
+  const sent = statuses.filter(s => s !== 'system_error').length;
+  const round = (ms: number) => Math.round(ms * 100) / 100;
+
+  let avg: number | null = null;
+  let mdev: number | null = null;
+  if (replies.length > 0) {
+    avg = replies.reduce((sum, v) => sum + v, 0) / replies.length;
+    const meanSquare = replies.reduce((sum, v) => sum + v * v, 0) / replies.length;
+    mdev = Math.sqrt(Math.max(0, meanSquare - avg * avg));
+  }
+
+  // A burst with no replies reports a miss if any packet went out, else the system error
+  const failure = sent > 0
+    ? results.find((_, i) => statuses[i] === 'missed')
+    : results[0];
+
+  return {
+    success: received > 0,
+    rtt_ms: avg === null ? null : round(avg),
+    error_code: received > 0 ? undefined : failure?.error_code,
+    error: received > 0 ? undefined : failure?.error,
+    burst: {
+      packets_sent: sent,
+      packets_lost: sent - received,
+      rtt_min_ms: replies.length > 0 ? round(Math.min(...replies)) : null,
+      rtt_max_ms: replies.length > 0 ? round(Math.max(...replies)) : null,
+      rtt_mdev_ms: mdev === null ? null : round(mdev),
+    },
+  };
+}
@@ -1,87 +1,42 @@
 // Real Ping Executor
-// Browser-based ICMP ping execution via Latency API proxy
+// Browser-based probe execution (Latency API proxy or HTTP GET)
 
 import { supabase } from '@/integrations/supabase/client';
-import { getServiceBaseUrl, isServiceConfigured } from '@/lib/api-services';
-import type { SampleStatus } from '@/types';
+import { isServiceConfigured } from '@/lib/api-services';
+import {
+  DEFAULT_PROBE,
+  classifyPing,
+  executeProbe,
+  isBrowserProbeSupported,
+  type PingResult,
+  type ProbeConfig,
+} from '@/lib/probe-drivers';
 
 // Store active real polling jobs by job ID
 const activeRealPollers = new Map<string, NodeJS.Timeout>();
 // Store previous RTT for jitter calculation per job
 const previousRttByJob = new Map<string, number | null>();
 
-interface PingResult {
-  success: boolean;
-  rtt_ms: number | null;
-  error?: string;
+// A probe result with when it went out and when it came back
+interface TimedPingResult {
+  pingResult: PingResult;
+  sentAt: Date;
+  returnedAt: Date;
 }
 
-// Execute a single ping via the Latency API
-async function executePing(targetIp: string): Promise<PingResult> {
-  const baseUrl = getServiceBaseUrl('latency');
-  
-  if (!baseUrl && !import.meta.env.PROD) {
-    // In development without API configured, return simulated failure
-    console.warn('Latency API not configured, ping will fail');
-    return { success: false, rtt_ms: null, error: 'Latency API not configured' };
-  }
-
-  try {
-    const response = await fetch(`${baseUrl}/ping`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ ip: targetIp }),
-      signal: AbortSignal.timeout(10000), // 10 second timeout
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unknown error');
-      console.error(`Ping API error: ${response.status} - ${errorText}`);
-      return { success: false, rtt_ms: null, error: `API error: ${response.status}` };
-    }
-
-    const data = await response.json();
-    
-    // Handle SpreeDB Latency API response format
-    // Expected: { success: true, rtt_ms: number } or { success: false }
-    if (data.success && typeof data.rtt_ms === 'number') {
-      return { success: true, rtt_ms: data.rtt_ms };
-    } else if (data.rtt !== undefined) {
-      // Alternative format: { rtt: number } in milliseconds
-      return { success: true, rtt_ms: data.rtt };
-    } else if (data.latency !== undefined) {
-      // Alternative format: { latency: number }
-      return { success: true, rtt_ms: data.latency };
-    } else {
-      // No response (timeout/unreachable)
-      return { success: false, rtt_ms: null };
-    }
-  } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      return { success: false, rtt_ms: null, error: 'Ping timeout' };
-    }
-    console.error('Ping execution error:', error);
-    return { success: false, rtt_ms: null, error: 'Network error' };
-  }
+async function executeTimedProbe(targetIp: string, probe: ProbeConfig): Promise<TimedPingResult> {
+  const sentAt = new Date();
+  const pingResult = await executeProbe(targetIp, probe);
+  return { pingResult, sentAt, returnedAt: new Date() };
 }
 
 // Insert a real sample into the database
 async function insertRealSample(
   jobId: string,
   sequenceNumber: number,
-  pingResult: PingResult
+  { pingResult, sentAt, returnedAt }: TimedPingResult
 ): Promise<boolean> {
-  // Determine sample status
-  let status: SampleStatus;
-  if (pingResult.success) {
-    status = 'success';
-  } else if (pingResult.error?.includes('API') || pingResult.error?.includes('Network')) {
-    status = 'system_error';
-  } else {
-    status = 'missed';
-  }
+  const status = classifyPing(pingResult);
 
   // Calculate jitter as absolute difference from previous RTT
   let jitter_ms: number | null = null;
@@ -101,6 +56,15 @@ async function insertRealSample(
     status,
     rtt_ms: pingResult.rtt_ms,
     jitter_ms,
+    packets_sent: pingResult.burst?.packets_sent ?? null,
+    packets_lost: pingResult.burst?.packets_lost ?? null,
+    rtt_min_ms: pingResult.burst?.rtt_min_ms ?? null,
+    rtt_max_ms: pingResult.burst?.rtt_max_ms ?? null,
+    rtt_mdev_ms: pingResult.burst?.rtt_mdev_ms ?? null,
+    error_code: status === 'success' ? null : pingResult.error_code ?? null,
+    error_detail: status === 'success' ? null : pingResult.error ?? null,
+    probe_sent_at: sentAt.toISOString(),
+    probe_responded_at: status === 'success' ? returnedAt.toISOString() : null,
   });
 
   if (error) {
@@ -108,29 +72,46 @@ async function insertRealSample(
     return false;
   }
 
-  // Update last_ping_at on the job for health monitoring
-  await supabase
+  // The insert's summary trigger moves the job's last_ping_at
+  return true;
+}
+
+// Current status of a job and whether an operator paused its polling, or null if it could not be read
+async function readJobState(jobId: string): Promise<{ status: string; paused: boolean } | null> {
+  const { data, error } = await supabase
     .from('jobs')
-    .update({ last_ping_at: new Date().toISOString() })
-    .eq('id', jobId);
+    .select('status, polling_paused_at')
+    .eq('id', jobId)
+    .maybeSingle();
 
-  return true;
+  if (error) {
+    console.error('Failed to read job status:', error);
+    return null;
+  }
+  return { status: data?.status ?? 'deleted', paused: !!data?.polling_paused_at };
 }
 
 // Complete a job and trigger completion email
 async function completeRealPollingJob(jobId: string) {
-  const { error } = await supabase
+  // A job the poller failed, or someone cancelled, keeps that outcome
+  const { data, error } = await supabase
     .from('jobs')
     .update({
       status: 'completed',
       completed_at: new Date().toISOString(),
     })
-    .eq('id', jobId);
+    .eq('id', jobId)
+    .eq('status', 'running')
+    .select('id');
 
   if (error) {
     console.error('Failed to complete job:', error);
     return;
   }
+  if (!data || data.length === 0) {
+    console.log(`Real polling job ${jobId} is no longer running, not completing it`);
+    return;
+  }
 
   console.log(`Real polling job ${jobId} completed`);
 
@@ -180,7 +161,8 @@ export async function startRealPolling(
   targetIp: string,
   cadenceSeconds: number,
   durationMinutes: number,
-  startedAt: string
+  startedAt: string,
+  probe: ProbeConfig = DEFAULT_PROBE
 ): Promise<boolean> {
   // Don't start if already running
   if (activeRealPollers.has(jobId)) {
@@ -188,8 +170,14 @@ export async function startRealPolling(
     return false;
   }
 
+  // ICMP and TCP probes can only run in the poller service
+  if (!isBrowserProbeSupported(probe.type)) {
+    console.log(`Job ${jobId} uses ${probe.type} probes, leaving it to the poller service`);
+    return false;
+  }
+
   // Check if latency service is available
-  if (!import.meta.env.PROD && !isServiceConfigured('latency')) {
+  if (probe.type === 'latency_api' && !import.meta.env.PROD && !isServiceConfigured('latency')) {
     console.warn(`Latency API not configured for job ${jobId} - real polling will record failures`);
   }
 
@@ -204,23 +192,28 @@ export async function startRealPolling(
     return false;
   }
 
-  // Get the last sequence number to continue from
-  const { data: existingSamples } = await supabase
-    .from('samples')
-    .select('sequence_number')
-    .eq('job_id', jobId)
-    .order('sequence_number', { ascending: false })
-    .limit(1);
-
-  let sequenceNumber = (existingSamples?.[0]?.sequence_number ?? -1) + 1;
-
   console.log(
-    `Starting real polling for job ${jobId} targeting ${targetIp}, cadence: ${cadenceSeconds}s, starting at sequence ${sequenceNumber}`
+    `Starting real polling (${probe.type}) for job ${jobId} targeting ${targetIp}, cadence: ${cadenceSeconds}s`
   );
 
-  // Execute first ping immediately
-  const firstPing = await executePing(targetIp);
-  await insertRealSample(jobId, sequenceNumber++, firstPing);
+  // Number samples by their cadence slot, as the poller does, so a slot sampled
+  // twice (another tab, or the poller taking over) is rejected as a duplicate
+  const pingSlot = async () => {
+    // The job may have been completed, failed, cancelled or paused elsewhere
+    const state = await readJobState(jobId);
+    if (state === null) return;
+    if (state.status !== 'running') {
+      console.log(`Job ${jobId} is ${state.status}, stopping real polling`);
+      stopRealPolling(jobId);
+      return;
+    }
+    // A paused job's slots are left empty until it is resumed
+    if (state.paused) return;
+
+    const slot = Math.max(0, Math.round((Date.now() - startTime) / (cadenceSeconds * 1000)));
+    const pingResult = await executeTimedProbe(targetIp, probe);
+    await insertRealSample(jobId, slot + 1, pingResult);
+  };
 
   // Set up interval for subsequent pings
   const intervalId = setInterval(async () => {
@@ -233,12 +226,14 @@ export async function startRealPolling(
       return;
     }
 
-    // Execute ping and record result
-    const pingResult = await executePing(targetIp);
-    await insertRealSample(jobId, sequenceNumber++, pingResult);
+    await pingSlot();
   }, cadenceSeconds * 1000);
 
+  // Registered before the first ping, so a second start while it runs is refused
   activeRealPollers.set(jobId, intervalId);
+
+  // Execute first ping immediately
+  await pingSlot();
   return true;
 }
 
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SIMULATION_SCENARIOS } from './simulation-scenarios';
+
+describe('DEFAULT_SIMULATION_SCENARIOS', () => {
+  it('gives every scenario its own id and seed', () => {
+    const ids = DEFAULT_SIMULATION_SCENARIOS.map(s => s.id);
+    const seeds = DEFAULT_SIMULATION_SCENARIOS.map(s => s.seed);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    // Scenarios sharing a seed would fail in lockstep
+    expect(new Set(seeds).size).toBe(seeds.length);
+  });
+
+  it('keeps rates and windows in range', () => {
+    for (const scenario of DEFAULT_SIMULATION_SCENARIOS) {
+      expect(scenario.loss_percent).toBeGreaterThanOrEqual(0);
+      expect(scenario.loss_percent + scenario.system_error_percent).toBeLessThanOrEqual(100);
+      for (const outage of scenario.outages) {
+        expect(outage.loss_percent).toBeLessThanOrEqual(100);
+        expect(outage.duration_minutes ?? 1).toBeGreaterThan(0);
+      }
+      if (scenario.flapping) {
+        expect(scenario.flapping.down_minutes).toBeLessThan(scenario.flapping.period_minutes);
+      }
+    }
+  });
+});
@@ -1,7 +1,7 @@
 import { useAuthContext } from '@/contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
 import { useEffect, useState } from 'react';
-import { Settings, Clock, Activity, Gauge, Users, Save, Loader2, Plus } from 'lucide-react';
+import { Settings, Clock, Activity, Gauge, Users, Save, Loader2, Plus, FlaskConical } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -11,8 +11,10 @@ import { useToast } from '@/hooks/use-toast';
 import { useAdminConfig, useUpdateAdminConfig } from '@/hooks/use-admin-config';
 import { createAuditLogEntry } from '@/hooks/use-audit-log';
 import { DurationPresetEditor } from '@/components/admin/DurationPresetEditor';
+import { SimulationScenarioEditor } from '@/components/admin/SimulationScenarioEditor';
 import { UserManagement } from '@/components/admin/UserManagement';
-import type { DurationPresetsConfig, CadencePresetsConfig, ThresholdsConfig, UsageLimitsConfig, WebhookConfig, DurationPreset } from '@/types';
+import type { DurationPresetsConfig, CadencePresetsConfig, ThresholdsConfig, UsageLimitsConfig, WebhookConfig, DurationPreset, SimulationScenariosConfig } from '@/types';
+import { DEFAULT_SIMULATION_SCENARIOS } from '@/lib/simulation-scenarios';
 
 export default function AdminSettings() {
   const { isAdmin, user, profile } = useAuthContext();
@@ -52,6 +54,9 @@ export default function AdminSettings() {
     endpoint: null,
     secret: null,
   });
+  const [simulationScenarios, setSimulationScenarios] = useState<SimulationScenariosConfig>({
+    scenarios: DEFAULT_SIMULATION_SCENARIOS,
+  });
   const [isSaving, setIsSaving] = useState(false);
 
   // Update local state when config loads
@@ -62,6 +67,7 @@ export default function AdminSettings() {
       setThresholds(config.thresholds);
       setUsageLimits(config.usageLimits);
       setWebhook(config.webhook);
+      setSimulationScenarios(config.simulationScenarios);
     }
   }, [config]);
 
@@ -108,6 +114,11 @@ export default function AdminSettings() {
           value: webhook,
           updatedBy: user!.id,
         }),
+        updateConfigMutation.mutateAsync({
+          key: 'simulation_scenarios',
+          value: simulationScenarios,
+          updatedBy: user!.id,
+        }),
       ]);
 
       // Create audit log entry
@@ -118,7 +129,7 @@ export default function AdminSettings() {
         actorName: profile?.display_name || user!.email || 'Unknown',
         details: {
           before: config,
-          after: { durationPresets, cadencePresets, thresholds, usageLimits, webhook },
+          after: { durationPresets, cadencePresets, thresholds, usageLimits, webhook, simulationScenarios },
         },
       });
 
@@ -364,6 +375,66 @@ export default function AdminSettings() {
         </CardContent>
       </Card>
 
+      {/* Simulation Scenarios */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Simulation Scenarios
+          </CardTitle>
+          <CardDescription>
+            Outcome patterns for simulated jobs on the test account. A scenario with the same seed produces the same samples every run.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-3">
+            {simulationScenarios.scenarios.map((scenario, index) => (
+              <SimulationScenarioEditor
+                key={scenario.id}
+                scenario={scenario}
+                onChange={(newScenario) => {
+                  const newScenarios = [...simulationScenarios.scenarios];
+                  newScenarios[index] = newScenario;
+                  setSimulationScenarios({ scenarios: newScenarios });
+                }}
+                onDelete={() => {
+                  setSimulationScenarios({ scenarios: simulationScenarios.scenarios.filter((_, i) => i !== index) });
+                }}
+                canDelete={simulationScenarios.scenarios.length > 1}
+              />
+            ))}
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setSimulationScenarios({
+                scenarios: [
+                  ...simulationScenarios.scenarios,
+                  {
+                    id: crypto.randomUUID(),
+                    name: 'New scenario',
+                    description: '',
+                    seed: Math.floor(Math.random() * 1000000),
+                    rtt: { distribution: 'uniform', mean_ms: 30, spread_ms: 10 },
+                    loss_percent: 0,
+                    system_error_percent: 0,
+                    outages: [],
+                    latency_steps: [],
+                    flapping: null,
+                  },
+                ],
+              });
+            }}
+            className="gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            Add Scenario
+          </Button>
+        </CardContent>
+      </Card>
+
       {/* Webhook Config */}
       <Card>
         <CardHeader>
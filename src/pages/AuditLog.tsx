@@ -28,6 +28,8 @@ function getActionBadgeVariant(action: string): 'default' | 'secondary' | 'destr
   if (action.includes('create')) return 'default';
   if (action.includes('cancel') || action.includes('delete')) return 'destructive';
   if (action.includes('config')) return 'secondary';
+  if (action.includes('force_complete')) return 'destructive';
+  if (action.startsWith('poller.')) return 'secondary';
   return 'outline';
 }
 
@@ -84,6 +86,10 @@ export default function AuditLog() {
                 <SelectItem value="job.complete">Job Completed</SelectItem>
                 <SelectItem value="alert.triggered">Alert Triggered</SelectItem>
                 <SelectItem value="admin.config.change">Config Changed</SelectItem>
+                <SelectItem value="poller.job.pause">Polling Paused</SelectItem>
+                <SelectItem value="poller.job.resume">Polling Resumed</SelectItem>
+                <SelectItem value="poller.job.force_complete">Job Force-Completed</SelectItem>
+                <SelectItem value="poller.replica.drain">Replica Drained</SelectItem>
               </SelectContent>
             </Select>
           </div>
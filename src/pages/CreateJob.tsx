@@ -34,11 +34,15 @@ import { validateDevice, type DeviceInfo } from '@/lib/device-validation';
 import { useCreateJob, checkUsageLimits, checkDuplicateRunningJob } from '@/hooks/use-jobs';
 import { useAdminConfig } from '@/hooks/use-admin-config';
 import { createAuditLogEntry } from '@/hooks/use-audit-log';
-import { startSimulator } from '@/lib/ping-simulator';
-import { startRealPolling } from '@/lib/real-ping-executor';
+import { PROBE_TYPE_DESCRIPTIONS, PROBE_TYPE_LABELS } from '@/lib/probe-drivers';
+import { DEFAULT_SIMULATION_SCENARIOS } from '@/lib/simulation-scenarios';
+import type { Json } from '@/integrations/supabase/types';
+import type { ProbeType } from '@/types';
 
 // Test account number triggers simulated mode
 const TEST_ACCOUNT_NUMBER = '123456789';
+// Scenario picker value for "pick one for me"
+const RANDOM_SCENARIO = 'random';
 
 // Validate account number: test accounts (9 digits starting with 1-3) or real accounts (16 digits starting with 8160)
 const isValidAccountNumber = (value: string): boolean => {
@@ -61,8 +65,24 @@ const jobFormSchema = z.object({
   notificationEmail: z.string().email('Invalid email address'),
   alertOnOffline: z.boolean(),
   alertOnRecovery: z.boolean(),
+  probeType: z.enum(['latency_api', 'icmp', 'tcp', 'http']),
+  probePort: z.number().int().min(1, 'Port must be 1-65535').max(65535, 'Port must be 1-65535').optional(),
+  probeUrl: z.string().url('Invalid URL').optional().or(z.literal('')),
+  burstSize: z.number().int().min(1).max(20),
+  collectSignalMetrics: z.boolean(),
+  simulationScenario: z.string(),
+}).superRefine((data, ctx) => {
+  if (data.probeType === 'tcp' && !data.probePort) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['probePort'], message: 'TCP probes need a port' });
+  }
+  if (data.probeType === 'http' && !data.probeUrl) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['probeUrl'], message: 'HTTP probes need a URL' });
+  }
 });
 
+const PROBE_TYPES = Object.keys(PROBE_TYPE_LABELS) as ProbeType[];
+const BURST_SIZES = [1, 3, 5, 10];
+
 type JobFormValues = z.infer<typeof jobFormSchema>;
 
 export default function CreateJob() {
@@ -139,8 +159,17 @@ export default function CreateJob() {
       notificationEmail: user?.email || '',
       alertOnOffline: true,
       alertOnRecovery: true,
+      probeType: 'latency_api',
+      probePort: undefined,
+      probeUrl: '',
+      burstSize: 1,
+      collectSignalMetrics: false,
+      simulationScenario: RANDOM_SCENARIO,
     },
   });
+  const probeType = form.watch('probeType');
+  const isTestAccount = form.watch('accountNumber') === TEST_ACCOUNT_NUMBER;
+  const simulationScenarios = adminConfig?.simulationScenarios.scenarios ?? DEFAULT_SIMULATION_SCENARIOS;
 
   async function handleValidateAccount() {
     // Clear previous API error before validation
@@ -272,6 +301,14 @@ export default function CreateJob() {
         ? 'simulated' 
         : 'real_polling';
 
+      // Simulated jobs keep a copy of their scenario, seed included, so the
+      // run can be reproduced even after the admin edits the scenario
+      const scenario = monitoringMode === 'simulated'
+        ? (data.simulationScenario === RANDOM_SCENARIO
+            ? simulationScenarios[Math.floor(Math.random() * simulationScenarios.length)]
+            : simulationScenarios.find((s) => s.id === data.simulationScenario)) ?? null
+        : null;
+
       // Create the job
       const job = await createJobMutation.mutateAsync({
         account_number: data.accountNumber,
@@ -287,6 +324,13 @@ export default function CreateJob() {
         requester_name: profile?.display_name || user!.email || 'Unknown',
         source: 'web_app',
         monitoring_mode: monitoringMode,
+        probe_type: data.probeType,
+        probe_port: data.probeType === 'tcp' ? data.probePort ?? null : null,
+        probe_url: data.probeType === 'http' ? data.probeUrl || null : null,
+        burst_size: data.burstSize,
+        collect_signal_metrics: data.collectSignalMetrics,
+        simulator_scenario: scenario?.id ?? null,
+        simulator_config: scenario as unknown as Json,
       });
 
       // Create audit log entry
@@ -302,24 +346,15 @@ export default function CreateJob() {
           cadence_seconds: data.cadenceSeconds,
           reason: data.reason,
           monitoring_mode: monitoringMode,
+          probe_type: data.probeType,
+          burst_size: data.burstSize,
+          collect_signal_metrics: data.collectSignalMetrics,
+          simulator_scenario: scenario?.id ?? null,
         },
       });
 
-      // Start polling based on monitoring mode
-      if (monitoringMode === 'real_polling') {
-        // Start real polling via Latency API
-        await startRealPolling(
-          job.id,
-          data.targetIp,
-          data.cadenceSeconds,
-          data.durationMinutes,
-          job.started_at
-        );
-      } else {
-        // Start simulated polling
-        startSimulator(job.id, data.cadenceSeconds, data.durationMinutes, undefined, monitoringMode);
-      }
-
+      // The poller service picks the job up; its page polls from the browser
+      // instead only while no poller replica is running
       toast({
         title: 'Job Created',
         description: 'Monitoring job has been started successfully.',
@@ -645,6 +680,165 @@ export default function CreateJob() {
                 />
               </div>
 
+              <FormField
+                control={form.control}
+                name="probeType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Probe Type</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select probe type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="bg-popover">
+                        {PROBE_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {PROBE_TYPE_LABELS[type]} - {PROBE_TYPE_DESCRIPTIONS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      How the target is measured. ICMP and TCP probes run on the poller service only.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="burstSize"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pings per Sample</FormLabel>
+                    <Select
+                      onValueChange={(v) => field.onChange(parseInt(v))}
+                      defaultValue={field.value.toString()}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select burst size" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="bg-popover">
+                        {BURST_SIZES.map((size) => (
+                          <SelectItem key={size} value={size.toString()}>
+                            {size === 1 ? '1 (single ping)' : `${size} (burst)`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Bursts send several pings each cadence tick to measure packet loss and RTT spread
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="collectSignalMetrics"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel className="font-normal">
+                        Collect DOCSIS signal levels
+                      </FormLabel>
+                      <FormDescription>
+                        Reads power, SNR and codeword errors from the modem every 5 minutes, to tell RF problems from routing problems
+                      </FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+
+              {isTestAccount && (
+                <FormField
+                  control={form.control}
+                  name="simulationScenario"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Simulation Scenario</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select scenario" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent className="bg-popover">
+                          <SelectItem value={RANDOM_SCENARIO}>Random</SelectItem>
+                          {simulationScenarios.map((scenario) => (
+                            <SelectItem key={scenario.id} value={scenario.id}>
+                              {scenario.name}{scenario.description && ` - ${scenario.description}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        The test account's samples follow this scenario. Each scenario is seeded, so it shows the same pattern every time it runs.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {probeType === 'tcp' && (
+                <FormField
+                  control={form.control}
+                  name="probePort"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>TCP Port</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={65535}
+                          placeholder="443"
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value === '' ? undefined : parseInt(e.target.value, 10))}
+                          onBlur={field.onBlur}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Connect time to this port on the management IP is recorded as RTT
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {probeType === 'http' && (
+                <FormField
+                  control={form.control}
+                  name="probeUrl"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>URL</FormLabel>
+                      <FormControl>
+                        <Input placeholder="https://service.example.com/health" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Time to the first response from this URL is recorded as RTT
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               <FormField
                 control={form.control}
                 name="reason"
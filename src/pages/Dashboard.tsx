@@ -9,6 +9,7 @@ import { useJobStats, useRecentJobs } from '@/hooks/use-jobs';
 import { formatDateTime, formatDurationFromMinutes } from '@/lib/format';
 import { checkAndCompleteExpiredJobs } from '@/lib/ping-simulator';
 import { useQueryClient } from '@tanstack/react-query';
+import { LatencyApiOutageAlert } from '@/components/job/LatencyApiOutageAlert';
 import type { JobStatus } from '@/types';
 
 function getStatusBadgeVariant(status: JobStatus): 'default' | 'secondary' | 'destructive' | 'outline' {
@@ -40,9 +41,9 @@ export default function Dashboard() {
     if (hasCheckedExpiredJobs.current) return;
     hasCheckedExpiredJobs.current = true;
 
-    checkAndCompleteExpiredJobs().then(({ completed, resumed }) => {
-      if (completed.length > 0 || resumed.length > 0) {
-        console.log(`Dashboard cleanup: ${completed.length} jobs completed, ${resumed.length} jobs resumed`);
+    checkAndCompleteExpiredJobs().then(({ completed }) => {
+      if (completed.length > 0) {
+        console.log(`Dashboard cleanup: ${completed.length} jobs completed`);
         queryClient.invalidateQueries({ queryKey: ['jobs'] });
         queryClient.invalidateQueries({ queryKey: ['job-stats'] });
         queryClient.invalidateQueries({ queryKey: ['recent-jobs'] });
@@ -70,6 +71,9 @@ export default function Dashboard() {
         </Button>
       </div>
 
+      {/* Latency API circuit breaker */}
+      <LatencyApiOutageAlert />
+
       {/* Stats Grid */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
@@ -1,5 +1,5 @@
 import { useEffect, useRef, useMemo, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { Link, useParams, useNavigate } from 'react-router-dom';
 import { ArrowLeft, XCircle, Loader2, Mail, Copy, AlertTriangle, Play } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -31,25 +31,31 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from '@/components/ui/collapsible';
-import { formatDateTime, formatDurationFromMinutes, formatCadence } from '@/lib/format';
-import { calculateJobSummary } from '@/lib/calculations';
-import { useJob, useJobSamples, useCancelJob } from '@/hooks/use-jobs';
+import { formatDateTime, formatDurationFromMinutes, formatCadence, formatCoverage } from '@/lib/format';
+import { calculateCoverage, calculateJobSummary, calculateScheduleSkew, detectDataGaps, fillRollupGaps, jobWindow, summaryFromJob } from '@/lib/calculations';
+import { useJob, useJobSamples, useJobChartRollups, useJobEvents, useJobSignalSamples, useCancelJob } from '@/hooks/use-jobs';
 import { useJobAlerts } from '@/hooks/use-alerts';
+import { usePollerReplicas } from '@/hooks/use-poller-status';
 import { createAuditLogEntry } from '@/hooks/use-audit-log';
 import { useAuthContext } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { stopSimulator, checkAndHandleJob, forceStartSimulator, isSimulatorRunning } from '@/lib/ping-simulator';
 import { startRealPolling, isRealPollingActive, stopRealPolling } from '@/lib/real-ping-executor';
+import { formatProbe, probeConfigForJob, PROBE_TYPE_LABELS } from '@/lib/probe-drivers';
 import { supabase } from '@/integrations/supabase/client';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useQueryClient } from '@tanstack/react-query';
 
 // Extracted components
 import { RTTChart } from '@/components/charts/RTTChart';
+import { SignalChart } from '@/components/charts/SignalChart';
 import { AvailabilityTimeline } from '@/components/charts/AvailabilityTimeline';
 import { JobMetricsGrid } from '@/components/job/JobMetricsGrid';
 import { JobEventLog } from '@/components/job/JobEventLog';
 import { CompletionEmailPreview } from '@/components/email/CompletionEmailPreview';
+import { LatencyApiOutageAlert } from '@/components/job/LatencyApiOutageAlert';
+import { JobFailureAlert } from '@/components/job/JobFailureAlert';
+import { ReplayJobDialog } from '@/components/job/ReplayJobDialog';
 
 function LoadingSkeleton() {
   return (
@@ -81,17 +87,27 @@ export default function JobDetail() {
 
   const { data: job, isLoading: jobLoading, error: jobError } = useJob(id);
   const { data: samples = [] } = useJobSamples(id);
+  // Once the job has outgrown the loaded sample window, chart the whole run from its rollups
+  const chartRollups = useJobChartRollups(job, samples.length);
   const { data: alerts = [] } = useJobAlerts(id);
+  const { data: jobEvents = [] } = useJobEvents(id);
+  const { data: signalSamples = [] } = useJobSignalSamples(id, { enabled: !!job?.collect_signal_metrics });
   const cancelJobMutation = useCancelJob();
   const [usingFallbackSimulator, setUsingFallbackSimulator] = useState(false);
+  const { data: pollerReplicas } = usePollerReplicas();
+  // Known only once the replica list has loaded; until then the poller is assumed up
+  const pollerUnavailable = pollerReplicas !== undefined && pollerReplicas.length === 0;
 
-  // Detect if real_polling job appears stuck (no samples after 2x cadence)
+  // Detect if the poller appears not to have picked the job up (no samples after 2x cadence)
   const isPollerStale = useMemo(() => {
     if (!job || job.status !== 'running') return false;
+    // Simulated jobs are run by the poller alone; a browser fallback would be a second writer
     if (job.monitoring_mode !== 'real_polling') return false;
+    if (job.polling_paused_at) return false;
     if (samples.length > 0) return false;
     if (usingFallbackSimulator) return false;
     if (isSimulatorRunning(job.id)) return false;
+    if (isRealPollingActive(job.id)) return false;
     
     const staleDuration = job.cadence_seconds * 2 * 1000; // 2x cadence
     const timeSinceStart = Date.now() - new Date(job.started_at).getTime();
@@ -123,33 +139,17 @@ export default function JobDetail() {
     }
   }
 
-  // Check and handle job state on load (auto-complete if expired, resume if still running)
+  // Check and handle job state on load (auto-complete if expired)
   useEffect(() => {
     if (!id || !job || hasCheckedJob.current) return;
     if (job.status !== 'running') return;
 
     hasCheckedJob.current = true;
     
-    // For real_polling jobs, start/resume real polling if not already active
-    if (job.monitoring_mode === 'real_polling' && job.target_ip && !isRealPollingActive(job.id)) {
-      startRealPolling(
-        job.id,
-        job.target_ip,
-        job.cadence_seconds,
-        job.duration_minutes,
-        job.started_at
-      ).then((started) => {
-        if (started) {
-          toast({
-            title: 'Real Polling Resumed',
-            description: 'ICMP ping monitoring has been resumed for this job.',
-          });
-        }
-      });
-      return;
-    }
+    // Real polling jobs are run by the poller service; see below for the browser fallback
+    if (job.monitoring_mode === 'real_polling') return;
 
-    // For simulated jobs, use the existing check and handle logic
+    // Complete the job here if overdue, unless it is simulated: the poller completes those
     checkAndHandleJob(id).then((result) => {
       if (result === 'completed') {
         toast({
@@ -159,14 +159,38 @@ export default function JobDetail() {
         queryClient.invalidateQueries({ queryKey: ['job', id] });
         queryClient.invalidateQueries({ queryKey: ['jobs'] });
         queryClient.invalidateQueries({ queryKey: ['job-stats'] });
-      } else if (result === 'resumed') {
+      }
+    });
+  }, [id, job, queryClient, toast]);
+
+  // Poll a real job from this page only while no poller replica is alive, and
+  // hand it back once one is: two writers would sample the same slots. A paused
+  // job is not polled here either; resuming it restarts polling.
+  useEffect(() => {
+    if (!job || job.status !== 'running' || job.monitoring_mode !== 'real_polling' || !job.target_ip) return;
+
+    if (!pollerUnavailable || job.polling_paused_at) {
+      stopRealPolling(job.id);
+      return;
+    }
+    if (isRealPollingActive(job.id)) return;
+
+    startRealPolling(
+      job.id,
+      job.target_ip,
+      job.cadence_seconds,
+      job.duration_minutes,
+      job.started_at,
+      probeConfigForJob(job)
+    ).then((started) => {
+      if (started) {
         toast({
-          title: 'Simulator Resumed',
-          description: 'Sample collection has been resumed for this job.',
+          title: 'Browser Polling Started',
+          description: `No poller service is running, so this page is running ${PROBE_TYPE_LABELS[job.probe_type]} monitoring until one is.`,
         });
       }
     });
-  }, [id, job, queryClient, toast]);
+  }, [job, pollerUnavailable, toast]);
 
   // Subscribe to real-time updates for samples, job, and alerts
   useEffect(() => {
@@ -210,6 +234,59 @@ export default function JobDetail() {
         )
         .subscribe();
       channels.push(samplesChannel);
+
+      const rollupsChannel = supabase
+        .channel(`rollups:${id}`)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'sample_rollups',
+            filter: `job_id=eq.${id}`,
+          },
+          () => {
+            queryClient.invalidateQueries({ queryKey: ['rollups', id] });
+          }
+        )
+        .subscribe();
+      channels.push(rollupsChannel);
+
+      const eventsChannel = supabase
+        .channel(`job-events:${id}`)
+        .on(
+          'postgres_changes',
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'job_events',
+            filter: `job_id=eq.${id}`,
+          },
+          () => {
+            queryClient.invalidateQueries({ queryKey: ['job-events', id] });
+          }
+        )
+        .subscribe();
+      channels.push(eventsChannel);
+
+      if (job.collect_signal_metrics) {
+        const signalChannel = supabase
+          .channel(`signal-samples:${id}`)
+          .on(
+            'postgres_changes',
+            {
+              event: 'INSERT',
+              schema: 'public',
+              table: 'signal_samples',
+              filter: `job_id=eq.${id}`,
+            },
+            () => {
+              queryClient.invalidateQueries({ queryKey: ['signal-samples', id] });
+            }
+          )
+          .subscribe();
+        channels.push(signalChannel);
+      }
     }
 
     // Subscribe to alert updates
@@ -233,9 +310,27 @@ export default function JobDetail() {
     return () => {
       channels.forEach((channel) => supabase.removeChannel(channel));
     };
-  }, [id, job?.status, queryClient]);
-
-  const summary = samples.length > 0 ? calculateJobSummary(samples) : null;
+  }, [id, job?.status, job?.collect_signal_metrics, queryClient]);
+
+  // Prefer the job's running aggregates, which cover every sample; fall back to
+  // the loaded window for jobs the aggregates have not caught up with yet
+  const summary = job && job.total_samples > 0
+    ? summaryFromJob(job)
+    : samples.length > 0 ? calculateJobSummary(samples) : null;
+
+  const scheduleSkew = calculateScheduleSkew(samples);
+
+  // Cadence slots nothing sampled, e.g. while the poller or browser was down.
+  // Time before the first loaded sample only counts when it is the job's first.
+  const sampleWindow = job ? jobWindow(job) : null;
+  const coverage = job ? calculateCoverage(job, summary?.totalSamples ?? 0) : null;
+  const dataGaps = job && sampleWindow
+    ? detectDataGaps(samples, job.cadence_seconds, {
+        from: samples.length >= job.total_samples ? sampleWindow.start : undefined,
+        until: sampleWindow.end,
+      })
+    : [];
+  const gapFilledRollups = chartRollups && sampleWindow ? fillRollupGaps(chartRollups, sampleWindow) : chartRollups;
 
   const progress = job?.status === 'running'
     ? Math.min(100, (Date.now() - new Date(job.started_at).getTime()) / (job.duration_minutes * 60 * 1000) * 100)
@@ -296,11 +391,13 @@ Packet Loss: ${summary.packetLossPercent.toFixed(2)}% (${summary.passPacketLoss
 p95 Latency: ${summary.p95RttMs?.toFixed(1) ?? '—'} ms (${summary.passLatency ? 'PASS' : 'FAIL'})
 
 Statistics:
-- Total Samples: ${summary.totalSamples}
+- Total Samples: ${summary.totalSamples}${coverage ? `
+- Monitored: ${formatCoverage(coverage)}` : ''}
 - Success Rate: ${summary.successRate.toFixed(1)}%
 - Outage Events: ${summary.outageEventCount}
 - Longest Miss Streak: ${summary.longestMissStreak}
 - System Errors: ${summary.systemErrorCount}
+- Upstream Outage Samples: ${summary.upstreamErrorCount}
 
 View full details: ${window.location.href}
     `.trim();
@@ -352,11 +449,18 @@ View full details: ${window.location.href}
                     ? 'default'
                     : job.status === 'completed'
                     ? 'secondary'
+                    : job.status === 'failed'
+                    ? 'destructive'
                     : 'outline'
                 }
               >
                 {job.status}
               </Badge>
+              {job.status === 'running' && job.polling_paused_at && (
+                <Badge variant="outline" title={`Paused ${formatDateTime(job.polling_paused_at)}${job.polling_paused_by ? ` by ${job.polling_paused_by}` : ''}`}>
+                  polling paused
+                </Badge>
+              )}
               {job.status === 'completed' && summary && (
                 <Badge variant={summary.overallPass ? 'default' : 'destructive'}>
                   {summary.overallPass ? 'PASS' : 'FAIL'}
@@ -408,6 +512,11 @@ View full details: ${window.location.href}
             </Dialog>
           )}
 
+          {/* Play a finished job back as a new simulated job */}
+          {job.status !== 'running' && job.total_samples > 0 && (
+            <ReplayJobDialog job={job} />
+          )}
+
           {/* Cancel button for running jobs */}
           {job.status === 'running' && (
             <AlertDialog>
@@ -440,6 +549,9 @@ View full details: ${window.location.href}
         </div>
       </div>
 
+      {/* Why the poller failed the job */}
+      <JobFailureAlert job={job} />
+
       {/* Poller Stale Warning */}
       {isPollerStale && (
         <Alert variant="destructive">
@@ -447,7 +559,7 @@ View full details: ${window.location.href}
           <AlertTitle>No Samples Detected</AlertTitle>
           <AlertDescription className="flex flex-col gap-2">
             <span>
-              This job uses real polling mode but no samples have been received.
+              No samples have been received for this job.
               The external poller service may not be running or may have lost connectivity.
             </span>
             <Button
@@ -463,6 +575,11 @@ View full details: ${window.location.href}
         </Alert>
       )}
 
+      {/* Latency API circuit breaker, for jobs the poller measures through it */}
+      {job.status === 'running' && job.monitoring_mode === 'real_polling' && job.probe_type === 'latency_api' && (
+        <LatencyApiOutageAlert />
+      )}
+
       {/* Fallback Simulator Active Notice */}
       {usingFallbackSimulator && (
         <Alert>
@@ -493,8 +610,8 @@ View full details: ${window.location.href}
       )}
 
       {/* Key Metrics */}
-      {summary ? (
-        <JobMetricsGrid summary={summary} />
+      {summary && coverage ? (
+        <JobMetricsGrid summary={summary} coverage={coverage} />
       ) : (
         <Card>
           <CardContent className="py-8">
@@ -507,7 +624,14 @@ View full details: ${window.location.href}
       )}
 
       {/* RTT Chart */}
-      {samples.length > 0 && <RTTChart samples={samples} />}
+      {samples.length > 0 && (
+        <RTTChart samples={samples} rollups={gapFilledRollups} gaps={dataGaps} />
+      )}
+
+      {/* DOCSIS signal levels, for jobs that collect them */}
+      {job.collect_signal_metrics && (
+        <SignalChart signalSamples={signalSamples} />
+      )}
 
       {/* Availability Timeline */}
       {samples.length > 0 && (
@@ -515,14 +639,19 @@ View full details: ${window.location.href}
           <CardHeader>
             <CardTitle>Availability Timeline</CardTitle>
             <CardDescription>
-              Color-coded visualization of each sample. Hover for details.
+              {chartRollups
+                ? 'Share of samples per time bucket, covering the whole job. Hover for details.'
+                : 'Color-coded visualization of each sample. Hover for details.'}
             </CardDescription>
           </CardHeader>
           <CardContent>
             <AvailabilityTimeline
               samples={samples}
+              rollups={gapFilledRollups}
               startTime={new Date(job.started_at)}
-              endTime={job.completed_at ? new Date(job.completed_at) : undefined}
+              endTime={sampleWindow ? new Date(sampleWindow.end) : undefined}
+              gaps={dataGaps}
+              cadenceSeconds={job.cadence_seconds}
             />
           </CardContent>
         </Card>
@@ -539,7 +668,7 @@ View full details: ${window.location.href}
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <JobEventLog job={job} alerts={alerts} />
+            <JobEventLog job={job} alerts={alerts} events={jobEvents} />
           </CardContent>
         </Card>
 
@@ -560,7 +689,12 @@ View full details: ${window.location.href}
               </div>
               <div>
                 <dt className="font-medium text-muted-foreground">Management IP</dt>
-                <dd className="font-mono">{job.target_ip || '—'}</dd>
+                <dd className="font-mono">
+                  {job.target_ip || (job.target_mac && job.monitoring_mode === 'real_polling' ? 'Resolving…' : '—')}
+                  {job.target_mac && job.target_ip && job.monitoring_mode === 'real_polling' && (
+                    <span className="ml-2 font-sans text-xs text-muted-foreground">(follows MAC)</span>
+                  )}
+                </dd>
               </div>
               <div>
                 <dt className="font-medium text-muted-foreground">Duration</dt>
@@ -590,6 +724,44 @@ View full details: ${window.location.href}
                 <dt className="font-medium text-muted-foreground">Monitoring Mode</dt>
                 <dd className="capitalize">{job.monitoring_mode === 'real_polling' ? 'Real Polling' : 'Simulated'}</dd>
               </div>
+              {job.replay_of_job_id && (
+                <div>
+                  <dt className="font-medium text-muted-foreground">Replay Of</dt>
+                  <dd>
+                    <Link to={`/jobs/${job.replay_of_job_id}`} className="text-primary hover:underline">
+                      Original job
+                    </Link>
+                    {job.replay_speed && job.replay_speed > 1 && ` at ${job.replay_speed}x`}
+                  </dd>
+                </div>
+              )}
+              {job.monitoring_mode === 'simulated' && !job.replay_of_job_id && (
+                <div>
+                  <dt className="font-medium text-muted-foreground">Scenario</dt>
+                  <dd>
+                    {(job.simulator_config?.name as string | undefined) ?? job.simulator_scenario ?? 'Random'}
+                    {typeof job.simulator_config?.seed === 'number' && (
+                      <span className="text-muted-foreground"> (seed {job.simulator_config.seed})</span>
+                    )}
+                  </dd>
+                </div>
+              )}
+              <div>
+                <dt className="font-medium text-muted-foreground">Probe</dt>
+                <dd className="break-all">{formatProbe(job)}</dd>
+              </div>
+              <div>
+                <dt className="font-medium text-muted-foreground">Pings per Sample</dt>
+                <dd>{job.burst_size > 1 ? `${job.burst_size} (burst)` : '1'}</dd>
+              </div>
+              {scheduleSkew && (
+                <div>
+                  <dt className="font-medium text-muted-foreground">Schedule Skew</dt>
+                  <dd>
+                    avg {scheduleSkew.avgMs.toFixed(0)} ms · p95 {scheduleSkew.p95Ms} ms · max {scheduleSkew.maxMs} ms
+                  </dd>
+                </div>
+              )}
               <div>
                 <dt className="font-medium text-muted-foreground">Last Ping</dt>
                 <dd>{job.last_ping_at ? formatDateTime(job.last_ping_at) : 'Never'}</dd>
@@ -1,11 +1,36 @@
 // Sound Check - Connectivity Monitoring Tool
 
 export type JobStatus = 'running' | 'completed' | 'cancelled' | 'failed';
-export type SampleStatus = 'success' | 'missed' | 'system_error';
+// Outcomes a probe can record (the sample_status enum)
+export type RecordedSampleStatus = 'success' | 'missed' | 'system_error' | 'upstream_error';
+// no_data is never stored: it marks cadence slots that have no sample at all
+// because nothing was probing (see detectDataGaps)
+export type SampleStatus = RecordedSampleStatus | 'no_data';
 export type JobReason = 'reactive' | 'proactive';
 export type AlertState = 'ok' | 'offline_alerted';
 export type AppRole = 'admin' | 'user';
 export type MonitoringMode = 'simulated' | 'real_polling';
+// Built-in patterns of jobs simulated before scenarios were configurable
+export type SimulatorScenario = 'healthy' | 'intermittent' | 'offline';
+export type ProbeType = 'latency_api' | 'icmp' | 'tcp' | 'http';
+export type BreakerState = 'closed' | 'open' | 'half_open';
+// Why a sample was not a success; see the samples.error_code constraint
+export type SampleErrorCode =
+  | 'timeout'
+  | 'host_unreachable'
+  | 'connection_refused'
+  | 'connection_reset'
+  | 'connection_failed'
+  | 'http_error'
+  | 'api_http_error'
+  | 'api_timeout'
+  | 'api_unreachable'
+  | 'api_error'
+  | 'api_circuit_open'
+  | 'no_target'
+  | 'unsupported_probe'
+  | 'probe_failed';
+export type JobFailureReason = 'target_unresolved' | 'system_errors' | 'probe_backend_unreachable';
 
 export interface Job {
   id: string;
@@ -24,24 +49,131 @@ export interface Job {
   requester_name: string;
   source: string;
   monitoring_mode: MonitoringMode;
+  // Simulated jobs: the scenario picked at creation and a copy of its
+  // definition (a SimulationScenario), so editing the scenario later does not
+  // change the job
+  simulator_scenario: string | null;
+  simulator_config: Record<string, unknown> | null;
+  // Set on simulated jobs that play back another job's samples
+  replay_of_job_id: string | null;
+  replay_speed: number | null;
+  probe_type: ProbeType;
+  probe_port: number | null;
+  probe_url: string | null;
+  burst_size: number;
   started_at: string;
   completed_at: string | null;
   cancelled_at: string | null;
+  // Set by the poller when it fails a job it cannot measure
+  failed_at: string | null;
+  failure_reason: JobFailureReason | null;
+  failure_detail: string | null;
   last_ping_at: string | null;
+  // Set while an operator has paused polling through the poller admin API
+  polling_paused_at: string | null;
+  polling_paused_by: string | null;
+  // Opt-in DOCSIS signal readings from the CM Info API, on their own cadence
+  collect_signal_metrics: boolean;
+  signal_cadence_seconds: number;
   created_at: string;
   avg_rtt_ms: number | null;
   packet_loss_percent: number | null;
   total_samples: number;
+  // Running summary, maintained as sample batches are inserted
+  success_count: number;
+  missed_count: number;
+  system_error_count: number;
+  upstream_error_count: number;
+  packets_sent: number;
+  packets_lost: number;
+  max_rtt_ms: number | null;
+  p95_rtt_ms: number | null;
+  avg_jitter_ms: number | null;
+  max_jitter_ms: number | null;
+  longest_miss_streak: number;
+  outage_event_count: number;
+  // Stored when the job stops running, against its whole requested duration
+  coverage_percent: number | null;
+  monitored_minutes: number | null;
 }
 
 export interface Sample {
   id: string;
   job_id: string;
-  status: SampleStatus;
+  status: RecordedSampleStatus;
   rtt_ms: number | null;
   jitter_ms: number | null;
   recorded_at: string;
   sequence_number: number;
+  // Burst statistics; null on single-ping samples
+  packets_sent: number | null;
+  packets_lost: number | null;
+  rtt_min_ms: number | null;
+  rtt_max_ms: number | null;
+  rtt_mdev_ms: number | null;
+  // Cadence slot the probe was for and how late it started (poller only)
+  scheduled_at: string | null;
+  schedule_lateness_ms: number | null;
+  // When the probe went out and when its last reply came back (null without
+  // one). recorded_at is the insert time, which can lag well behind.
+  probe_sent_at: string;
+  probe_responded_at: string | null;
+  // Why the probe did not succeed, and the raw message; null on success
+  error_code: SampleErrorCode | null;
+  error_detail: string | null;
+}
+
+// Rollup bucket sizes, in minutes
+export type RollupTier = 1 | 5 | 60;
+
+// Per-job aggregate over a fixed time bucket, maintained while the job runs
+export interface SampleRollup {
+  id: string;
+  job_id: string;
+  bucket_minutes: RollupTier;
+  bucket_start: string;
+  bucket_end: string;
+  sample_count: number;
+  success_count: number;
+  missed_count: number;
+  system_error_count: number;
+  upstream_error_count: number;
+  avg_rtt_ms: number | null;
+  min_rtt_ms: number | null;
+  max_rtt_ms: number | null;
+  p95_rtt_ms: number | null;
+  avg_jitter_ms: number | null;
+  max_jitter_ms: number | null;
+  updated_at: string;
+}
+
+// One DOCSIS signal reading: power and SNR averaged across bonded channels,
+// codeword counters as the modem's cumulative totals. Empty with `error` set
+// when the CM Info API could not be read.
+export interface SignalSample {
+  id: string;
+  job_id: string;
+  recorded_at: string;
+  downstream_power_dbmv: number | null;
+  downstream_snr_db: number | null;
+  upstream_power_dbmv: number | null;
+  corrected_codewords: number | null;
+  uncorrectable_codewords: number | null;
+  downstream_channels: number | null;
+  upstream_channels: number | null;
+  error: string | null;
+}
+
+// Things that happened to a job during its run, recorded by the poller
+export type JobEventType = 'target_resolved' | 'target_ip_changed';
+
+export interface JobEvent {
+  id: string;
+  job_id: string;
+  event_type: JobEventType;
+  // target_resolved / target_ip_changed: { mac, previous_ip, ip, reason }
+  details: Record<string, unknown> | null;
+  created_at: string;
 }
 
 export interface Alert {
@@ -51,6 +183,18 @@ export interface Alert {
   triggered_at: string;
   delivered_at: string | null;
   delivery_status: string;
+  attempts: number;
+  last_attempt_at: string | null;
+  last_error: string | null;
+}
+
+// A live poller service replica, as reported by its lease heartbeat
+export interface PollerReplica {
+  replica_id: string;
+  started_at: string;
+  last_heartbeat_at: string;
+  latency_api_breaker: BreakerState;
+  latency_api_breaker_changed_at: string | null;
 }
 
 export interface AuditLog {
@@ -114,12 +258,60 @@ export interface WebhookConfig {
   secret: string | null;
 }
 
+export type RttDistribution = 'uniform' | 'normal';
+
+// Minutes below are counted from the job's start
+export interface SimulationOutage {
+  start_minute: number;
+  // null runs to the end of the job
+  duration_minutes: number | null;
+  loss_percent: number;
+}
+
+export interface SimulationLatencyStep {
+  at_minute: number;
+  delta_ms: number;
+}
+
+export interface SimulationFlapping {
+  start_minute: number;
+  period_minutes: number;
+  down_minutes: number;
+  loss_percent: number;
+}
+
+export interface SimulationScenario {
+  id: string;
+  name: string;
+  description: string;
+  // Same seed, same outcome in every cadence slot
+  seed: number;
+  rtt: {
+    distribution: RttDistribution;
+    mean_ms: number;
+    // Half-width for uniform, standard deviation for normal
+    spread_ms: number;
+  };
+  loss_percent: number;
+  system_error_percent: number;
+  outages: SimulationOutage[];
+  latency_steps: SimulationLatencyStep[];
+  flapping: SimulationFlapping | null;
+}
+
+export interface SimulationScenariosConfig {
+  scenarios: SimulationScenario[];
+}
+
 // Job summary statistics
 export interface JobSummary {
   totalSamples: number;
   successCount: number;
   missedCount: number;
   systemErrorCount: number;
+  upstreamErrorCount: number;
+  packetsSent: number;
+  packetsLost: number;
   packetLossPercent: number;
   avgRttMs: number | null;
   maxRttMs: number | null;
@@ -135,6 +327,26 @@ export interface JobSummary {
   overallPass: boolean;
 }
 
+// How much of a job's window has samples. The window is the requested
+// duration, or the part of it that has passed while the job runs.
+export interface JobCoverage {
+  expectedSamples: number;
+  // Cadence slots with no sample, because no poller or browser was probing
+  noDataCount: number;
+  coveragePercent: number;
+  monitoredMinutes: number;
+  windowMinutes: number;
+}
+
+// A stretch of at least one cadence slot without a sample
+export interface DataGap {
+  start: string;
+  end: string;
+  missingSamples: number;
+  // Index of the sample that ends the gap; the sample count for a trailing gap
+  beforeIndex: number;
+}
+
 // Mock user for SSO bypass
 export interface MockUser {
   id: string;
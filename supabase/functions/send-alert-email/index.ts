@@ -0,0 +1,243 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+interface Job {
+  id: string;
+  account_number: string;
+  target_mac: string | null;
+  target_ip: string | null;
+  notification_email: string;
+  started_at: string;
+  failure_detail: string | null;
+}
+
+interface Alert {
+  id: string;
+  job_id: string;
+  alert_type: string;
+  triggered_at: string;
+  delivery_status: string | null;
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: true,
+  });
+}
+
+function generateAlertHtml(job: Job, alert: Alert, jobDetailUrl: string): string {
+  const target = job.target_mac || job.target_ip || "N/A";
+  const isOffline = alert.alert_type === "offline";
+  const isFailure = alert.alert_type === "job_failed";
+  const color = isOffline || isFailure ? "#ef4444" : "#22c55e";
+  const title = isFailure ? "MONITORING FAILED" : isOffline ? "MODEM OFFLINE" : "MODEM RECOVERED";
+  const message = isFailure
+    ? `Monitoring was stopped because it could not measure the device: ${job.failure_detail ?? "unknown cause"}. Samples collected up to that point are on the job page.`
+    : isOffline
+    ? "The monitored device missed 5 consecutive pings and appears to be offline."
+    : "The monitored device answered 5 consecutive pings after an outage and appears to have recovered.";
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5; line-height: 1.6;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background-color: #f4f4f5; padding: 24px;">
+    <tr>
+      <td align="center">
+        <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
+
+          <!-- Header -->
+          <tr>
+            <td style="background-color: ${color}; color: #ffffff; padding: 24px; text-align: center;">
+              <h1 style="margin: 0 0 8px 0; font-size: 20px; font-weight: 600;">${title}</h1>
+              <p style="margin: 0; font-size: 14px;">
+                Account: ${job.account_number} | ${target}
+              </p>
+            </td>
+          </tr>
+
+          <!-- Details -->
+          <tr>
+            <td style="padding: 24px; border-bottom: 1px solid #e4e4e7;">
+              <p style="margin: 0 0 16px 0; color: #18181b; font-size: 14px;">${message}</p>
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0">
+                <tr>
+                  <td style="padding: 4px 0; color: #52525b; font-size: 14px;">Triggered: <strong style="color: #18181b;">${formatDate(alert.triggered_at)}</strong></td>
+                </tr>
+                <tr>
+                  <td style="padding: 4px 0; color: #52525b; font-size: 14px;">Monitoring since: <strong style="color: #18181b;">${formatDate(job.started_at)}</strong></td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- CTA Button -->
+          <tr>
+            <td style="padding: 24px; text-align: center;">
+              <a href="${jobDetailUrl}" style="display: inline-block; padding: 14px 32px; background-color: #18181b; color: #ffffff; text-decoration: none; font-size: 14px; font-weight: 600; border-radius: 6px;">
+                View Job Details
+              </a>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 24px; background-color: #f4f4f5; text-align: center;">
+              <p style="margin: 0; color: #a1a1aa; font-size: 11px;">
+                This is an automated notification from Sound Check.
+              </p>
+            </td>
+          </tr>
+
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const resendApiKey = Deno.env.get("RESEND_API_KEY");
+    if (!resendApiKey) {
+      throw new Error("RESEND_API_KEY is not configured");
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error("Supabase configuration missing");
+    }
+
+    // Alerts are raised by backend services only - require the service role key
+    const authHeader = req.headers.get("Authorization");
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ success: false, error: "Unauthorized - service role required" }),
+        { status: 401, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const { alertId, jobDetailUrl } = await req.json();
+
+    if (!alertId) {
+      throw new Error("alertId is required");
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Fetch the alert and its job
+    const { data: alert, error: alertError } = await supabase
+      .from("alerts")
+      .select("*")
+      .eq("id", alertId)
+      .single();
+
+    if (alertError || !alert) {
+      throw new Error(`Alert not found: ${alertError?.message || "Unknown error"}`);
+    }
+
+    if (alert.delivery_status === "delivered") {
+      return new Response(
+        JSON.stringify({ success: true, alreadyDelivered: true }),
+        { status: 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const { data: job, error: jobError } = await supabase
+      .from("jobs")
+      .select("*")
+      .eq("id", alert.job_id)
+      .single();
+
+    if (jobError || !job) {
+      throw new Error(`Job not found: ${jobError?.message || "Unknown error"}`);
+    }
+
+    const detailUrl = jobDetailUrl || `https://your-app.lovable.app/jobs/${job.id}`;
+    const emailHtml = generateAlertHtml(job as Job, alert as Alert, detailUrl);
+    const target = job.target_mac || job.target_ip || "N/A";
+    const subjectTag = alert.alert_type === "job_failed"
+      ? "FAILED"
+      : alert.alert_type === "offline"
+      ? "OFFLINE"
+      : "RECOVERED";
+    const subject = `[${subjectTag}] ${target} - Account ${job.account_number}`;
+
+    const resend = new Resend(resendApiKey);
+    const emailResponse = await resend.emails.send({
+      from: "Sound Check <noreply@resend.dev>",
+      to: [job.notification_email],
+      subject,
+      html: emailHtml,
+    });
+
+    if (emailResponse.error) {
+      await supabase
+        .from("alerts")
+        .update({ delivery_status: "failed" })
+        .eq("id", alertId);
+      throw new Error(`Email delivery failed: ${emailResponse.error.message}`);
+    }
+
+    console.log(`${alert.alert_type} alert email sent successfully:`, emailResponse);
+
+    await supabase
+      .from("alerts")
+      .update({
+        delivery_status: "delivered",
+        delivered_at: new Date().toISOString(),
+      })
+      .eq("id", alertId);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        messageId: emailResponse.data?.id,
+        recipient: job.notification_email,
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Error in send-alert-email function:", errorMessage);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -8,15 +8,6 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
-interface Sample {
-  id: string;
-  job_id: string;
-  sequence_number: number;
-  status: "success" | "missed" | "system_error";
-  rtt_ms: number | null;
-  recorded_at: string;
-}
-
 interface Job {
   id: string;
   account_number: string;
@@ -29,6 +20,20 @@ interface Job {
   started_at: string;
   completed_at: string | null;
   requester_name: string;
+  // Running summary, maintained by the samples insert trigger
+  total_samples: number;
+  success_count: number;
+  missed_count: number;
+  system_error_count: number;
+  packet_loss_percent: number | null;
+  avg_rtt_ms: number | null;
+  max_rtt_ms: number | null;
+  p95_rtt_ms: number | null;
+  outage_event_count: number;
+  longest_miss_streak: number;
+  // Stored as the job stops running; the job page shows the same figures
+  coverage_percent: number | null;
+  monitored_minutes: number | null;
 }
 
 interface JobSummary {
@@ -43,6 +48,9 @@ interface JobSummary {
   successRate: number;
   outageEventCount: number;
   longestMissStreak: number;
+  // Share of the requested window's cadence slots that have a sample
+  coveragePercent: number;
+  monitoredMinutes: number;
   passPacketLoss: boolean;
   passLatency: boolean;
   overallPass: boolean;
@@ -54,74 +62,14 @@ const THRESHOLDS = {
   system_error_percent: 5,
 };
 
-function calculateJobSummary(samples: Sample[]): JobSummary {
-  const totalSamples = samples.length;
-
-  if (totalSamples === 0) {
-    return {
-      totalSamples: 0,
-      successCount: 0,
-      missedCount: 0,
-      systemErrorCount: 0,
-      packetLossPercent: 0,
-      avgRttMs: null,
-      maxRttMs: null,
-      p95RttMs: null,
-      successRate: 0,
-      outageEventCount: 0,
-      longestMissStreak: 0,
-      passPacketLoss: true,
-      passLatency: true,
-      overallPass: true,
-    };
-  }
-
-  const successCount = samples.filter((s) => s.status === "success").length;
-  const missedCount = samples.filter((s) => s.status === "missed").length;
-  const systemErrorCount = samples.filter((s) => s.status === "system_error").length;
-
-  const validAttempts = successCount + missedCount;
-  const packetLossPercent = validAttempts > 0 ? (missedCount / validAttempts) * 100 : 0;
-
-  const rttValues = samples
-    .filter((s) => s.status === "success" && s.rtt_ms !== null)
-    .map((s) => s.rtt_ms as number)
-    .sort((a, b) => a - b);
-
-  const avgRttMs =
-    rttValues.length > 0
-      ? rttValues.reduce((sum, v) => sum + v, 0) / rttValues.length
-      : null;
-
-  const maxRttMs = rttValues.length > 0 ? Math.max(...rttValues) : null;
-
-  const p95RttMs =
-    rttValues.length > 0
-      ? rttValues[Math.floor(rttValues.length * 0.95)] ?? rttValues[rttValues.length - 1]
-      : null;
-
-  const successRate = totalSamples > 0 ? (successCount / totalSamples) * 100 : 0;
-
-  // Calculate outage events and longest miss streak
-  const sorted = [...samples].sort((a, b) => a.sequence_number - b.sequence_number);
-  let outageEventCount = 0;
-  let longestMissStreak = 0;
-  let currentMissStreak = 0;
-  let wasInOutage = false;
-
-  for (const sample of sorted) {
-    if (sample.status === "missed") {
-      currentMissStreak++;
-      if (!wasInOutage && currentMissStreak >= 5) {
-        outageEventCount++;
-        wasInOutage = true;
-      }
-      longestMissStreak = Math.max(longestMissStreak, currentMissStreak);
-    } else if (sample.status === "success") {
-      currentMissStreak = 0;
-      wasInOutage = false;
-    }
-  }
+// The job row carries running aggregates, so the summary needs no sample scan
+function summaryFromJob(job: Job): JobSummary {
+  const totalSamples = job.total_samples ?? 0;
+  const packetLossPercent = job.packet_loss_percent !== null ? Number(job.packet_loss_percent) : 0;
+  const avgRttMs = job.avg_rtt_ms !== null ? Number(job.avg_rtt_ms) : null;
+  const maxRttMs = job.max_rtt_ms !== null ? Number(job.max_rtt_ms) : null;
+  const p95RttMs = job.p95_rtt_ms !== null ? Number(job.p95_rtt_ms) : null;
+  const successRate = totalSamples > 0 ? (job.success_count / totalSamples) * 100 : 0;
 
   const passPacketLoss = packetLossPercent <= THRESHOLDS.packet_loss_percent;
   const passLatency = p95RttMs === null || p95RttMs <= THRESHOLDS.p95_latency_ms;
@@ -129,16 +77,18 @@ function calculateJobSummary(samples: Sample[]): JobSummary {
 
   return {
     totalSamples,
-    successCount,
-    missedCount,
-    systemErrorCount,
+    successCount: job.success_count,
+    missedCount: job.missed_count,
+    systemErrorCount: job.system_error_count,
     packetLossPercent,
     avgRttMs,
     maxRttMs,
     p95RttMs,
     successRate,
-    outageEventCount,
-    longestMissStreak,
+    outageEventCount: job.outage_event_count,
+    longestMissStreak: job.longest_miss_streak,
+    coveragePercent: job.coverage_percent !== null ? Number(job.coverage_percent) : 0,
+    monitoredMinutes: job.monitored_minutes ?? 0,
     passPacketLoss,
     passLatency,
     overallPass,
@@ -266,6 +216,10 @@ function generateEmailHtml(job: Job, summary: JobSummary, jobDetailUrl: string):
             <td style="padding: 24px; border-bottom: 1px solid #e4e4e7;">
               <h2 style="margin: 0 0 16px 0; font-size: 14px; font-weight: 600; color: #71717a; text-transform: uppercase; letter-spacing: 0.5px;">Collection Statistics</h2>
               <table role="presentation" width="100%" cellpadding="0" cellspacing="0">
+                <tr>
+                  <td style="padding: 8px 0; color: #52525b; font-size: 14px;">Monitored</td>
+                  <td style="padding: 8px 0; text-align: right; color: #18181b; font-size: 14px; font-weight: 600;">${formatDuration(summary.monitoredMinutes)} of ${formatDuration(job.duration_minutes)} (${summary.coveragePercent.toFixed(1)}%)</td>
+                </tr>
                 <tr>
                   <td style="padding: 8px 0; color: #52525b; font-size: 14px;">Total Samples</td>
                   <td style="padding: 8px 0; text-align: right; color: #18181b; font-size: 14px; font-weight: 600;">${summary.totalSamples}</td>
@@ -337,12 +291,27 @@ function generateEmailHtml(job: Job, summary: JobSummary, jobDetailUrl: string):
 `;
 }
 
+// Release a claimed completion email so it can be retried
+async function markFailed(
+  supabase: ReturnType<typeof createClient>,
+  alertId: string,
+  reason: string
+): Promise<void> {
+  await supabase
+    .from("alerts")
+    .update({ delivery_status: "failed", last_error: reason })
+    .eq("id", alertId);
+}
+
 const handler = async (req: Request): Promise<Response> => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
+  // A claim this call holds; released in the catch so the email is retried
+  let claim: { supabase: ReturnType<typeof createClient>; alertId: string } | null = null;
+
   try {
     const resendApiKey = Deno.env.get("RESEND_API_KEY");
     if (!resendApiKey) {
@@ -357,7 +326,7 @@ const handler = async (req: Request): Promise<Response> => {
       throw new Error("Supabase configuration missing");
     }
 
-    // Validate authentication - require valid JWT
+    // Validate authentication - require the service role key (poller) or a valid user JWT
     const authHeader = req.headers.get("Authorization");
     if (!authHeader?.startsWith("Bearer ")) {
       return new Response(
@@ -366,22 +335,27 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
-    // Verify the JWT and get user claims
-    const authClient = createClient(supabaseUrl, supabaseAnonKey, {
-      global: { headers: { Authorization: authHeader } },
-    });
-    
-    const token = authHeader.replace("Bearer ", "");
-    const { data: authData, error: authError } = await authClient.auth.getUser(token);
-    
-    if (authError || !authData.user) {
-      return new Response(
-        JSON.stringify({ success: false, error: "Unauthorized - invalid token" }),
-        { status: 401, headers: { "Content-Type": "application/json", ...corsHeaders } }
-      );
-    }
+    const isServiceCall = authHeader === `Bearer ${supabaseServiceKey}`;
+    let userId: string | null = null;
+
+    if (!isServiceCall) {
+      // Verify the JWT and get user claims
+      const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: authHeader } },
+      });
 
-    const userId = authData.user.id;
+      const token = authHeader.replace("Bearer ", "");
+      const { data: authData, error: authError } = await authClient.auth.getUser(token);
+
+      if (authError || !authData.user) {
+        return new Response(
+          JSON.stringify({ success: false, error: "Unauthorized - invalid token" }),
+          { status: 401, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
+
+      userId = authData.user.id;
+    }
 
     const { jobId, jobDetailUrl } = await req.json();
 
@@ -404,46 +378,41 @@ const handler = async (req: Request): Promise<Response> => {
     }
 
     // Authorization: Verify the calling user owns this job or is an admin
-    const { data: hasAdminRole } = await supabase.rpc("has_role", {
-      _user_id: userId,
-      _role: "admin",
+    if (!isServiceCall) {
+      const { data: hasAdminRole } = await supabase.rpc("has_role", {
+        _user_id: userId,
+        _role: "admin",
+      });
+
+      if (job.requester_id !== userId && !hasAdminRole) {
+        return new Response(
+          JSON.stringify({ success: false, error: "Forbidden - you do not own this job" }),
+          { status: 403, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
+    }
+
+    // Idempotency: claim the job's completion_email alert row. Only one caller
+    // can hold the claim, and a delivered row can never be claimed again.
+    const { data: alertId, error: claimError } = await supabase.rpc("claim_completion_email", {
+      p_job_id: jobId,
     });
 
-    if (job.requester_id !== userId && !hasAdminRole) {
-      return new Response(
-        JSON.stringify({ success: false, error: "Forbidden - you do not own this job" }),
-        { status: 403, headers: { "Content-Type": "application/json", ...corsHeaders } }
-      );
+    if (claimError) {
+      throw new Error(`Failed to claim completion email: ${claimError.message}`);
     }
 
-    // Rate limiting: Check if completion email was already sent for this job
-    const { data: existingAlerts } = await supabase
-      .from("alerts")
-      .select("id")
-      .eq("job_id", jobId)
-      .eq("alert_type", "completion_email")
-      .limit(1);
-
-    if (existingAlerts && existingAlerts.length > 0) {
+    if (!alertId) {
       return new Response(
         JSON.stringify({ success: false, error: "Completion email already sent for this job" }),
         { status: 429, headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     }
 
-    // Fetch all samples for the job
-    const { data: samples, error: samplesError } = await supabase
-      .from("samples")
-      .select("*")
-      .eq("job_id", jobId)
-      .order("sequence_number", { ascending: true });
+    claim = { supabase, alertId };
 
-    if (samplesError) {
-      throw new Error(`Failed to fetch samples: ${samplesError.message}`);
-    }
-
-    // Calculate summary metrics
-    const summary = calculateJobSummary(samples || []);
+    // The job row's summary and coverage are rebuilt as it stops running
+    const summary = summaryFromJob(job as Job);
 
     // Generate email HTML
     const detailUrl = jobDetailUrl || `https://your-app.lovable.app/jobs/${jobId}`;
@@ -461,15 +430,23 @@ const handler = async (req: Request): Promise<Response> => {
       html: emailHtml,
     });
 
+    if (emailResponse.error) {
+      throw new Error(`Email delivery failed: ${emailResponse.error.message}`);
+    }
+
     console.log("Completion email sent successfully:", emailResponse);
+    // Sent: it must never be released for another attempt
+    claim = null;
 
-    // Record completion email in alerts table to prevent duplicate sends
-    await supabase.from("alerts").insert({
-      job_id: jobId,
-      alert_type: "completion_email",
-      delivery_status: "delivered",
-      delivered_at: new Date().toISOString(),
-    });
+    // Mark the completion email delivered so it is never sent twice
+    await supabase
+      .from("alerts")
+      .update({
+        delivery_status: "delivered",
+        delivered_at: new Date().toISOString(),
+        last_error: null,
+      })
+      .eq("id", alertId);
 
     return new Response(
       JSON.stringify({
@@ -485,6 +462,9 @@ const handler = async (req: Request): Promise<Response> => {
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     console.error("Error in send-completion-email function:", errorMessage);
+    if (claim) {
+      await markFailed(claim.supabase, claim.alertId, errorMessage);
+    }
     return new Response(
       JSON.stringify({ success: false, error: errorMessage }),
       {
@@ -0,0 +1,147 @@
+-- Lease-based job ownership for poller replicas
+-- Replaces static REPLICA_ID/REPLICA_COUNT hash partitioning
+
+-- Live poller replicas, kept fresh by sync_job_leases heartbeats
+CREATE TABLE poller_replicas (
+  replica_id TEXT PRIMARY KEY,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_heartbeat_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One lease per running job; a lease past expires_at is free to be claimed
+CREATE TABLE job_leases (
+  job_id UUID PRIMARY KEY REFERENCES jobs(id) ON DELETE CASCADE,
+  owner_id TEXT NOT NULL,
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  renewed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_job_leases_owner ON job_leases(owner_id);
+CREATE INDEX idx_job_leases_expires ON job_leases(expires_at);
+
+-- Enable RLS
+ALTER TABLE poller_replicas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_leases ENABLE ROW LEVEL SECURITY;
+
+-- Users can view replicas and leases (internal app)
+CREATE POLICY "Users can view poller replicas"
+  ON poller_replicas FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can view job leases"
+  ON job_leases FOR SELECT
+  USING (true);
+
+-- Heartbeat, renew, rebalance and claim leases for one replica.
+-- Each replica targets ceil(running jobs / live replicas) leases, so scaling
+-- the deployment up or down rebalances work within a few sync intervals.
+CREATE OR REPLACE FUNCTION sync_job_leases(p_owner_id TEXT, p_lease_seconds INT DEFAULT 30)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ttl INTERVAL := (p_lease_seconds || ' seconds')::interval;
+  v_live_replicas INT;
+  v_job_count INT;
+  v_target INT;
+  v_held INT;
+BEGIN
+  -- Heartbeat this replica and forget replicas that stopped heartbeating
+  INSERT INTO poller_replicas (replica_id)
+  VALUES (p_owner_id)
+  ON CONFLICT (replica_id) DO UPDATE SET last_heartbeat_at = NOW();
+
+  DELETE FROM poller_replicas WHERE last_heartbeat_at < NOW() - v_ttl;
+
+  SELECT COUNT(*) INTO v_live_replicas FROM poller_replicas;
+
+  -- Drop leases on jobs that are no longer running
+  DELETE FROM job_leases l
+  USING jobs j
+  WHERE l.job_id = j.id
+    AND l.owner_id = p_owner_id
+    AND (j.status <> 'running' OR j.monitoring_mode <> 'real_polling');
+
+  -- Renew leases we still hold
+  UPDATE job_leases
+  SET renewed_at = NOW(), expires_at = NOW() + v_ttl
+  WHERE owner_id = p_owner_id;
+
+  SELECT COUNT(*) INTO v_job_count
+  FROM jobs
+  WHERE status = 'running' AND monitoring_mode = 'real_polling';
+
+  v_target := CEIL(v_job_count::numeric / GREATEST(v_live_replicas, 1))::int;
+
+  SELECT COUNT(*) INTO v_held FROM job_leases WHERE owner_id = p_owner_id;
+
+  IF v_held > v_target THEN
+    -- Shed the most recently acquired excess so other replicas can claim it
+    DELETE FROM job_leases
+    WHERE job_id IN (
+      SELECT job_id FROM job_leases
+      WHERE owner_id = p_owner_id
+      ORDER BY acquired_at DESC
+      LIMIT v_held - v_target
+    );
+  ELSIF v_held < v_target THEN
+    -- Claim unowned or expired jobs, oldest first
+    INSERT INTO job_leases (job_id, owner_id, expires_at)
+    SELECT j.id, p_owner_id, NOW() + v_ttl
+    FROM jobs j
+    LEFT JOIN job_leases l ON l.job_id = j.id
+    WHERE j.status = 'running'
+      AND j.monitoring_mode = 'real_polling'
+      AND (l.job_id IS NULL OR l.expires_at < NOW())
+    ORDER BY j.started_at
+    LIMIT v_target - v_held
+    ON CONFLICT (job_id) DO UPDATE
+      SET owner_id = EXCLUDED.owner_id,
+          acquired_at = NOW(),
+          renewed_at = NOW(),
+          expires_at = EXCLUDED.expires_at
+      WHERE job_leases.expires_at < NOW();
+  END IF;
+
+  RETURN jsonb_build_object(
+    'live_replicas', v_live_replicas,
+    'target_share', v_target,
+    'leases', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'job_id', job_id,
+        'acquired_at', acquired_at,
+        'expires_at', expires_at
+      ))
+      FROM job_leases
+      WHERE owner_id = p_owner_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Release specific leases, or all leases and the replica heartbeat when p_job_ids is NULL
+CREATE OR REPLACE FUNCTION release_job_leases(p_owner_id TEXT, p_job_ids UUID[] DEFAULT NULL)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INT;
+BEGIN
+  DELETE FROM job_leases
+  WHERE owner_id = p_owner_id
+    AND (p_job_ids IS NULL OR job_id = ANY(p_job_ids));
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF p_job_ids IS NULL THEN
+    DELETE FROM poller_replicas WHERE replica_id = p_owner_id;
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,65 @@
+-- Service-to-service completion emails with idempotent, retryable delivery
+
+-- Delivery bookkeeping for retries
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS attempts INT NOT NULL DEFAULT 0;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMPTZ;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+-- Keep only the earliest completion_email row per job before enforcing uniqueness
+DELETE FROM alerts a
+USING alerts b
+WHERE a.alert_type = 'completion_email'
+  AND b.alert_type = 'completion_email'
+  AND a.job_id = b.job_id
+  AND (a.triggered_at, a.id) > (b.triggered_at, b.id);
+
+-- The completion_email row is the idempotency key: at most one per job
+CREATE UNIQUE INDEX IF NOT EXISTS idx_alerts_completion_email
+  ON alerts(job_id) WHERE alert_type = 'completion_email';
+
+-- Index for the poller's retry sweep
+CREATE INDEX IF NOT EXISTS idx_alerts_undelivered
+  ON alerts(alert_type, last_attempt_at)
+  WHERE delivery_status IN ('pending', 'failed');
+
+-- Record that a completion email is owed for a job (no-op if already recorded)
+CREATE OR REPLACE FUNCTION queue_completion_email(p_job_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO alerts (job_id, alert_type, delivery_status)
+  VALUES (p_job_id, 'completion_email', 'pending')
+  ON CONFLICT (job_id) WHERE alert_type = 'completion_email' DO NOTHING;
+$$;
+
+-- Atomically claim the completion email for sending.
+-- Returns the alert id, or NULL if it was already delivered or another sender
+-- holds a fresh claim. Claims older than 5 minutes are treated as abandoned.
+CREATE OR REPLACE FUNCTION claim_completion_email(p_job_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  PERFORM queue_completion_email(p_job_id);
+
+  UPDATE alerts
+  SET delivery_status = 'sending',
+      attempts = attempts + 1,
+      last_attempt_at = NOW()
+  WHERE job_id = p_job_id
+    AND alert_type = 'completion_email'
+    AND (
+      delivery_status IN ('pending', 'failed')
+      OR (delivery_status = 'sending' AND last_attempt_at < NOW() - INTERVAL '5 minutes')
+    )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
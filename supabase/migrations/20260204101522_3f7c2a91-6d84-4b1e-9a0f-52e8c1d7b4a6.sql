@@ -0,0 +1,39 @@
+-- Make (job_id, sequence_number) unique so retried batch inserts cannot
+-- duplicate samples, and poller restarts cannot reuse sequence numbers.
+
+-- Retried inserts stored identical rows twice; keep the earliest copy
+DELETE FROM samples s
+USING samples d
+WHERE s.job_id = d.job_id
+  AND s.sequence_number = d.sequence_number
+  AND s.status = d.status
+  AND s.rtt_ms IS NOT DISTINCT FROM d.rtt_ms
+  AND s.jitter_ms IS NOT DISTINCT FROM d.jitter_ms
+  AND (s.recorded_at, s.id) > (d.recorded_at, d.id);
+
+-- Restarted pollers numbered real samples from 1 again; renumber those jobs
+-- in recorded order instead of dropping data
+WITH affected_jobs AS (
+  SELECT DISTINCT job_id
+  FROM samples
+  GROUP BY job_id, sequence_number
+  HAVING COUNT(*) > 1
+),
+renumbered AS (
+  SELECT s.id, ROW_NUMBER() OVER (
+    PARTITION BY s.job_id
+    ORDER BY s.recorded_at, s.sequence_number, s.id
+  ) AS sequence_number
+  FROM samples s
+  JOIN affected_jobs a ON a.job_id = s.job_id
+)
+UPDATE samples s
+SET sequence_number = r.sequence_number
+FROM renumbered r
+WHERE s.id = r.id;
+
+-- Replaces the plain lookup index with a unique one over the same columns
+DROP INDEX IF EXISTS idx_samples_job_sequence;
+
+ALTER TABLE samples
+  ADD CONSTRAINT samples_job_sequence_unique UNIQUE (job_id, sequence_number);
@@ -0,0 +1,21 @@
+-- Probe backends: each job picks how its target is measured
+--   latency_api - SpreeDB Latency API /ping (default, existing behaviour)
+--   icmp        - ICMP echo sent directly by the poller
+--   tcp         - TCP connect time to target_ip:probe_port
+--   http        - HTTP GET timing against probe_url
+ALTER TABLE public.jobs ADD COLUMN probe_type TEXT NOT NULL DEFAULT 'latency_api';
+ALTER TABLE public.jobs ADD COLUMN probe_port INTEGER;
+ALTER TABLE public.jobs ADD COLUMN probe_url TEXT;
+
+ALTER TABLE public.jobs ADD CONSTRAINT jobs_probe_type_check
+  CHECK (probe_type IN ('latency_api', 'icmp', 'tcp', 'http'));
+
+ALTER TABLE public.jobs ADD CONSTRAINT jobs_probe_port_check
+  CHECK (probe_port IS NULL OR probe_port BETWEEN 1 AND 65535);
+
+-- TCP probes need a port, HTTP probes need a URL
+ALTER TABLE public.jobs ADD CONSTRAINT jobs_probe_target_check
+  CHECK (
+    (probe_type <> 'tcp' OR probe_port IS NOT NULL)
+    AND (probe_type <> 'http' OR probe_url IS NOT NULL)
+  );
@@ -0,0 +1,24 @@
+-- Burst probing: a job can send several echo requests per cadence tick and
+-- store the burst as one sample with loss and RTT spread.
+
+-- Number of probes sent per sample (1 = a single ping, the original behaviour)
+ALTER TABLE public.jobs ADD COLUMN burst_size INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE public.jobs ADD CONSTRAINT jobs_burst_size_check
+  CHECK (burst_size BETWEEN 1 AND 20);
+
+-- Per-burst statistics. NULL on single-ping samples, where the sample status
+-- alone says whether the one packet was answered; rtt_ms holds the burst average.
+ALTER TABLE public.samples
+  ADD COLUMN packets_sent INTEGER,
+  ADD COLUMN packets_lost INTEGER,
+  ADD COLUMN rtt_min_ms NUMERIC(10, 2),
+  ADD COLUMN rtt_max_ms NUMERIC(10, 2),
+  ADD COLUMN rtt_mdev_ms NUMERIC(10, 2);
+
+ALTER TABLE public.samples ADD CONSTRAINT samples_packets_check
+  CHECK (packets_lost IS NULL OR (packets_lost >= 0 AND packets_lost <= packets_sent));
+
+COMMENT ON COLUMN public.samples.packets_sent IS 'Echo requests sent in this burst (excluding probes that failed on our side)';
+COMMENT ON COLUMN public.samples.packets_lost IS 'Echo requests in this burst that got no reply';
+COMMENT ON COLUMN public.samples.rtt_mdev_ms IS 'Mean deviation of reply RTTs within the burst, as reported by ping';
@@ -0,0 +1,245 @@
+-- Incremental job summaries: running aggregates on the jobs row, folded in
+-- by a statement-level trigger as each batch of samples is inserted, so
+-- summaries are live during the run and never need a full sample rescan.
+
+ALTER TABLE public.jobs
+  ADD COLUMN success_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN missed_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN system_error_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN packets_sent BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN packets_lost BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN rtt_sum_ms NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN rtt_replies BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN max_rtt_ms NUMERIC,
+  ADD COLUMN p95_rtt_ms NUMERIC,
+  ADD COLUMN rtt_sketch JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN jitter_sum_ms NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN jitter_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN avg_jitter_ms NUMERIC,
+  ADD COLUMN max_jitter_ms NUMERIC,
+  ADD COLUMN current_miss_streak INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN longest_miss_streak INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN outage_event_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN in_outage BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.jobs.rtt_sketch IS 'Log-bucketed RTT histogram (bucket index -> sample count, ~1% relative error) used for p95';
+COMMENT ON COLUMN public.jobs.rtt_sum_ms IS 'Sum of reply RTTs; burst averages are weighted by their reply count';
+
+-- Sketch bucket for an RTT: buckets grow by 2%, so any value in a bucket is
+-- within ~1% of the bucket's representative value
+CREATE OR REPLACE FUNCTION public.rtt_sketch_bucket(p_rtt_ms NUMERIC)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CEIL(LN(GREATEST(p_rtt_ms, 0.01)) / LN(1.02))::int;
+$$;
+
+-- Quantile from a sketch, using the same rank as the web app (sorted[floor(n * q)])
+CREATE OR REPLACE FUNCTION public.rtt_sketch_quantile(p_sketch JSONB, p_quantile NUMERIC)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_total BIGINT;
+  v_rank BIGINT;
+  v_seen BIGINT := 0;
+  v_bucket RECORD;
+BEGIN
+  SELECT SUM(value::bigint) INTO v_total FROM jsonb_each_text(p_sketch);
+  IF v_total IS NULL OR v_total = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  v_rank := LEAST(FLOOR(v_total * p_quantile)::bigint + 1, v_total);
+
+  FOR v_bucket IN
+    SELECT key::int AS idx, value::bigint AS n
+    FROM jsonb_each_text(p_sketch)
+    ORDER BY key::int
+  LOOP
+    v_seen := v_seen + v_bucket.n;
+    IF v_seen >= v_rank THEN
+      RETURN ROUND((2 * POWER(1.02::numeric, v_bucket.idx) / 2.02)::numeric, 2);
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Fold samples (in sequence order) into a job's running summary
+CREATE OR REPLACE FUNCTION public.accumulate_job_summary(p_job_id UUID, p_sample_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_sample samples;
+  v_sent INT;
+  v_lost INT;
+  v_replies INT;
+  v_bucket TEXT;
+BEGIN
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  FOR v_sample IN
+    SELECT * FROM samples
+    WHERE id = ANY(p_sample_ids)
+    ORDER BY sequence_number
+  LOOP
+    v_job.total_samples := COALESCE(v_job.total_samples, 0) + 1;
+
+    -- Burst samples carry their own packet counts; a single ping is one packet
+    v_sent := COALESCE(v_sample.packets_sent, CASE WHEN v_sample.status = 'system_error' THEN 0 ELSE 1 END);
+    v_lost := COALESCE(v_sample.packets_lost, CASE WHEN v_sample.status = 'missed' THEN 1 ELSE 0 END);
+    v_job.packets_sent := v_job.packets_sent + v_sent;
+    v_job.packets_lost := v_job.packets_lost + v_lost;
+
+    IF v_sample.status = 'success' THEN
+      v_job.success_count := v_job.success_count + 1;
+      v_job.current_miss_streak := 0;
+      v_job.in_outage := false;
+
+      IF v_sample.rtt_ms IS NOT NULL THEN
+        v_replies := GREATEST(1, v_sent - v_lost);
+        v_job.rtt_sum_ms := v_job.rtt_sum_ms + v_sample.rtt_ms * v_replies;
+        v_job.rtt_replies := v_job.rtt_replies + v_replies;
+        v_job.max_rtt_ms := GREATEST(v_job.max_rtt_ms, COALESCE(v_sample.rtt_max_ms, v_sample.rtt_ms));
+
+        v_bucket := rtt_sketch_bucket(v_sample.rtt_ms)::text;
+        v_job.rtt_sketch := jsonb_set(
+          v_job.rtt_sketch,
+          ARRAY[v_bucket],
+          to_jsonb(COALESCE((v_job.rtt_sketch ->> v_bucket)::int, 0) + 1)
+        );
+      END IF;
+    ELSIF v_sample.status = 'missed' THEN
+      v_job.missed_count := v_job.missed_count + 1;
+      v_job.current_miss_streak := v_job.current_miss_streak + 1;
+      v_job.longest_miss_streak := GREATEST(v_job.longest_miss_streak, v_job.current_miss_streak);
+
+      -- 5+ consecutive misses is one outage event until a success ends it
+      IF NOT v_job.in_outage AND v_job.current_miss_streak >= 5 THEN
+        v_job.outage_event_count := v_job.outage_event_count + 1;
+        v_job.in_outage := true;
+      END IF;
+    ELSE
+      -- System errors don't reset streaks
+      v_job.system_error_count := v_job.system_error_count + 1;
+    END IF;
+
+    IF v_sample.jitter_ms IS NOT NULL THEN
+      v_job.jitter_sum_ms := v_job.jitter_sum_ms + v_sample.jitter_ms;
+      v_job.jitter_count := v_job.jitter_count + 1;
+      v_job.max_jitter_ms := GREATEST(v_job.max_jitter_ms, v_sample.jitter_ms);
+    END IF;
+  END LOOP;
+
+  UPDATE jobs SET
+    total_samples = v_job.total_samples,
+    success_count = v_job.success_count,
+    missed_count = v_job.missed_count,
+    system_error_count = v_job.system_error_count,
+    packets_sent = v_job.packets_sent,
+    packets_lost = v_job.packets_lost,
+    packet_loss_percent = CASE WHEN v_job.packets_sent > 0
+      THEN v_job.packets_lost * 100.0 / v_job.packets_sent END,
+    rtt_sum_ms = v_job.rtt_sum_ms,
+    rtt_replies = v_job.rtt_replies,
+    avg_rtt_ms = CASE WHEN v_job.rtt_replies > 0
+      THEN v_job.rtt_sum_ms / v_job.rtt_replies END,
+    max_rtt_ms = v_job.max_rtt_ms,
+    rtt_sketch = v_job.rtt_sketch,
+    p95_rtt_ms = rtt_sketch_quantile(v_job.rtt_sketch, 0.95),
+    jitter_sum_ms = v_job.jitter_sum_ms,
+    jitter_count = v_job.jitter_count,
+    avg_jitter_ms = CASE WHEN v_job.jitter_count > 0
+      THEN v_job.jitter_sum_ms / v_job.jitter_count END,
+    max_jitter_ms = v_job.max_jitter_ms,
+    current_miss_streak = v_job.current_miss_streak,
+    longest_miss_streak = v_job.longest_miss_streak,
+    outage_event_count = v_job.outage_event_count,
+    in_outage = v_job.in_outage
+  WHERE id = p_job_id;
+END;
+$$;
+
+-- Reset a job's summary and fold in all of its samples again
+CREATE OR REPLACE FUNCTION public.rebuild_job_summary(p_job_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE jobs SET
+    total_samples = 0,
+    success_count = 0,
+    missed_count = 0,
+    system_error_count = 0,
+    packets_sent = 0,
+    packets_lost = 0,
+    packet_loss_percent = NULL,
+    rtt_sum_ms = 0,
+    rtt_replies = 0,
+    avg_rtt_ms = NULL,
+    max_rtt_ms = NULL,
+    rtt_sketch = '{}'::jsonb,
+    p95_rtt_ms = NULL,
+    jitter_sum_ms = 0,
+    jitter_count = 0,
+    avg_jitter_ms = NULL,
+    max_jitter_ms = NULL,
+    current_miss_streak = 0,
+    longest_miss_streak = 0,
+    outage_event_count = 0,
+    in_outage = false
+  WHERE id = p_job_id;
+
+  PERFORM accumulate_job_summary(
+    p_job_id,
+    COALESCE((SELECT array_agg(id) FROM samples WHERE job_id = p_job_id), ARRAY[]::uuid[])
+  );
+END;
+$$;
+
+-- Fold each inserted batch into its jobs' summaries. The transition table holds
+-- only rows actually inserted, so ON CONFLICT DO NOTHING retries never double count.
+CREATE OR REPLACE FUNCTION public.accumulate_inserted_samples()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch RECORD;
+BEGIN
+  -- Lock jobs in a stable order so concurrent batches cannot deadlock
+  FOR v_batch IN
+    SELECT job_id, array_agg(id) AS sample_ids
+    FROM new_samples
+    GROUP BY job_id
+    ORDER BY job_id
+  LOOP
+    PERFORM accumulate_job_summary(v_batch.job_id, v_batch.sample_ids);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER samples_accumulate_job_summary
+  AFTER INSERT ON public.samples
+  REFERENCING NEW TABLE AS new_samples
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.accumulate_inserted_samples();
+
+-- Backfill summaries for existing jobs
+SELECT rebuild_job_summary(id) FROM public.jobs;
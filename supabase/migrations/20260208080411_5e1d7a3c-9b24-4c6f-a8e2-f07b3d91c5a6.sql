@@ -0,0 +1,4 @@
+-- Samples recorded while the Latency API circuit breaker is open. Added in its
+-- own migration because a new enum value cannot be used in the transaction
+-- that adds it.
+ALTER TYPE public.sample_status ADD VALUE IF NOT EXISTS 'upstream_error';
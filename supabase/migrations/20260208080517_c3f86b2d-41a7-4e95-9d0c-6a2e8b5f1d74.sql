@@ -0,0 +1,164 @@
+-- Latency API circuit breaker: each poller replica reports its breaker state,
+-- and samples taken while it is open are counted apart from system errors.
+
+ALTER TABLE public.poller_replicas
+  ADD COLUMN latency_api_breaker TEXT NOT NULL DEFAULT 'closed'
+    CHECK (latency_api_breaker IN ('closed', 'open', 'half_open')),
+  ADD COLUMN latency_api_breaker_changed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.poller_replicas.latency_api_breaker IS 'Latency API circuit breaker state as last reported by the replica';
+
+ALTER TABLE public.jobs
+  ADD COLUMN upstream_error_count INTEGER NOT NULL DEFAULT 0;
+
+-- Upstream errors are excluded from packet loss and leave miss streaks alone
+CREATE OR REPLACE FUNCTION public.accumulate_job_summary(p_job_id UUID, p_sample_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_sample samples;
+  v_sent INT;
+  v_lost INT;
+  v_replies INT;
+  v_bucket TEXT;
+BEGIN
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  FOR v_sample IN
+    SELECT * FROM samples
+    WHERE id = ANY(p_sample_ids)
+    ORDER BY sequence_number
+  LOOP
+    v_job.total_samples := COALESCE(v_job.total_samples, 0) + 1;
+
+    -- Burst samples carry their own packet counts; a single ping is one packet,
+    -- unless it failed on our side or upstream and was never sent
+    v_sent := COALESCE(
+      v_sample.packets_sent,
+      CASE WHEN v_sample.status IN ('system_error', 'upstream_error') THEN 0 ELSE 1 END
+    );
+    v_lost := COALESCE(v_sample.packets_lost, CASE WHEN v_sample.status = 'missed' THEN 1 ELSE 0 END);
+    v_job.packets_sent := v_job.packets_sent + v_sent;
+    v_job.packets_lost := v_job.packets_lost + v_lost;
+
+    IF v_sample.status = 'success' THEN
+      v_job.success_count := v_job.success_count + 1;
+      v_job.current_miss_streak := 0;
+      v_job.in_outage := false;
+
+      IF v_sample.rtt_ms IS NOT NULL THEN
+        v_replies := GREATEST(1, v_sent - v_lost);
+        v_job.rtt_sum_ms := v_job.rtt_sum_ms + v_sample.rtt_ms * v_replies;
+        v_job.rtt_replies := v_job.rtt_replies + v_replies;
+        v_job.max_rtt_ms := GREATEST(v_job.max_rtt_ms, COALESCE(v_sample.rtt_max_ms, v_sample.rtt_ms));
+
+        v_bucket := rtt_sketch_bucket(v_sample.rtt_ms)::text;
+        v_job.rtt_sketch := jsonb_set(
+          v_job.rtt_sketch,
+          ARRAY[v_bucket],
+          to_jsonb(COALESCE((v_job.rtt_sketch ->> v_bucket)::int, 0) + 1)
+        );
+      END IF;
+    ELSIF v_sample.status = 'missed' THEN
+      v_job.missed_count := v_job.missed_count + 1;
+      v_job.current_miss_streak := v_job.current_miss_streak + 1;
+      v_job.longest_miss_streak := GREATEST(v_job.longest_miss_streak, v_job.current_miss_streak);
+
+      -- 5+ consecutive misses is one outage event until a success ends it
+      IF NOT v_job.in_outage AND v_job.current_miss_streak >= 5 THEN
+        v_job.outage_event_count := v_job.outage_event_count + 1;
+        v_job.in_outage := true;
+      END IF;
+    ELSIF v_sample.status = 'upstream_error' THEN
+      -- Upstream outages say nothing about the target, so streaks carry over
+      v_job.upstream_error_count := v_job.upstream_error_count + 1;
+    ELSE
+      -- System errors don't reset streaks
+      v_job.system_error_count := v_job.system_error_count + 1;
+    END IF;
+
+    IF v_sample.jitter_ms IS NOT NULL THEN
+      v_job.jitter_sum_ms := v_job.jitter_sum_ms + v_sample.jitter_ms;
+      v_job.jitter_count := v_job.jitter_count + 1;
+      v_job.max_jitter_ms := GREATEST(v_job.max_jitter_ms, v_sample.jitter_ms);
+    END IF;
+  END LOOP;
+
+  UPDATE jobs SET
+    total_samples = v_job.total_samples,
+    success_count = v_job.success_count,
+    missed_count = v_job.missed_count,
+    system_error_count = v_job.system_error_count,
+    upstream_error_count = v_job.upstream_error_count,
+    packets_sent = v_job.packets_sent,
+    packets_lost = v_job.packets_lost,
+    packet_loss_percent = CASE WHEN v_job.packets_sent > 0
+      THEN v_job.packets_lost * 100.0 / v_job.packets_sent END,
+    rtt_sum_ms = v_job.rtt_sum_ms,
+    rtt_replies = v_job.rtt_replies,
+    avg_rtt_ms = CASE WHEN v_job.rtt_replies > 0
+      THEN v_job.rtt_sum_ms / v_job.rtt_replies END,
+    max_rtt_ms = v_job.max_rtt_ms,
+    rtt_sketch = v_job.rtt_sketch,
+    p95_rtt_ms = rtt_sketch_quantile(v_job.rtt_sketch, 0.95),
+    jitter_sum_ms = v_job.jitter_sum_ms,
+    jitter_count = v_job.jitter_count,
+    avg_jitter_ms = CASE WHEN v_job.jitter_count > 0
+      THEN v_job.jitter_sum_ms / v_job.jitter_count END,
+    max_jitter_ms = v_job.max_jitter_ms,
+    current_miss_streak = v_job.current_miss_streak,
+    longest_miss_streak = v_job.longest_miss_streak,
+    outage_event_count = v_job.outage_event_count,
+    in_outage = v_job.in_outage
+  WHERE id = p_job_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.rebuild_job_summary(p_job_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE jobs SET
+    total_samples = 0,
+    success_count = 0,
+    missed_count = 0,
+    system_error_count = 0,
+    upstream_error_count = 0,
+    packets_sent = 0,
+    packets_lost = 0,
+    packet_loss_percent = NULL,
+    rtt_sum_ms = 0,
+    rtt_replies = 0,
+    avg_rtt_ms = NULL,
+    max_rtt_ms = NULL,
+    rtt_sketch = '{}'::jsonb,
+    p95_rtt_ms = NULL,
+    jitter_sum_ms = 0,
+    jitter_count = 0,
+    avg_jitter_ms = NULL,
+    max_jitter_ms = NULL,
+    current_miss_streak = 0,
+    longest_miss_streak = 0,
+    outage_event_count = 0,
+    in_outage = false
+  WHERE id = p_job_id;
+
+  PERFORM accumulate_job_summary(
+    p_job_id,
+    COALESCE((SELECT array_agg(id) FROM samples WHERE job_id = p_job_id), ARRAY[]::uuid[])
+  );
+END;
+$$;
+
+-- Let the UI follow breaker changes as they happen
+ALTER PUBLICATION supabase_realtime ADD TABLE public.poller_replicas;
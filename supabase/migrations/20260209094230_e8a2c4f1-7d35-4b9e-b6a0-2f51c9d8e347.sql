@@ -0,0 +1,9 @@
+-- Cadence slot accounting: the poller fires each job on exact slots relative
+-- to started_at and records which slot a sample was for and how late it ran.
+
+ALTER TABLE public.samples
+  ADD COLUMN scheduled_at TIMESTAMPTZ,
+  ADD COLUMN schedule_lateness_ms INTEGER CHECK (schedule_lateness_ms >= 0);
+
+COMMENT ON COLUMN public.samples.scheduled_at IS 'Cadence slot the probe was for: started_at + n * cadence_seconds';
+COMMENT ON COLUMN public.samples.schedule_lateness_ms IS 'How long after scheduled_at the probe started';
@@ -0,0 +1,27 @@
+-- Coalesced job heartbeats: the poller writes last_ping_at for all the jobs it
+-- pinged since its previous flush in one statement, instead of one UPDATE per
+-- ping. A timestamp never moves backwards, so a late or replayed flush from a
+-- replica that has since lost the job cannot hide a newer heartbeat.
+CREATE OR REPLACE FUNCTION record_job_heartbeats(p_job_ids UUID[], p_last_ping_at TIMESTAMPTZ[])
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INT;
+BEGIN
+  IF cardinality(p_job_ids) IS DISTINCT FROM cardinality(p_last_ping_at) THEN
+    RAISE EXCEPTION 'p_job_ids and p_last_ping_at must have the same length';
+  END IF;
+
+  UPDATE jobs j
+  SET last_ping_at = h.last_ping_at
+  FROM unnest(p_job_ids, p_last_ping_at) AS h(job_id, last_ping_at)
+  WHERE j.id = h.job_id
+    AND (j.last_ping_at IS NULL OR j.last_ping_at < h.last_ping_at);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,120 @@
+-- Streaming rollups: buckets are maintained while a job runs instead of being
+-- written once at completion. Rebuilding a bucket now overwrites it, so a
+-- bucket that was still filling the last time it was rolled up is corrected.
+
+ALTER TABLE sample_rollups
+  ADD COLUMN upstream_error_count INT NOT NULL DEFAULT 0,
+  ADD COLUMN updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- The new p_since parameter changes the signature
+DROP FUNCTION IF EXISTS create_job_rollups(UUID, INT);
+
+-- Roll up a job's samples into fixed buckets, replacing existing buckets.
+-- With p_since, only buckets from the one containing p_since onwards are rebuilt.
+CREATE OR REPLACE FUNCTION create_job_rollups(
+  p_job_id UUID,
+  p_bucket_minutes INT DEFAULT 5,
+  p_since TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bucket_seconds INT := p_bucket_minutes * 60;
+  v_from TIMESTAMPTZ;
+  v_count INT;
+BEGIN
+  IF p_since IS NOT NULL THEN
+    v_from := to_timestamp(floor(extract(epoch FROM p_since) / v_bucket_seconds) * v_bucket_seconds);
+  END IF;
+
+  INSERT INTO sample_rollups (
+    job_id, bucket_start, bucket_end,
+    sample_count, success_count, missed_count, system_error_count, upstream_error_count,
+    avg_rtt_ms, max_rtt_ms, min_rtt_ms, avg_jitter_ms, max_jitter_ms
+  )
+  SELECT
+    p_job_id,
+    b.bucket_start,
+    b.bucket_start + make_interval(secs => v_bucket_seconds),
+    COUNT(*),
+    COUNT(*) FILTER (WHERE s.status = 'success'),
+    COUNT(*) FILTER (WHERE s.status = 'missed'),
+    COUNT(*) FILTER (WHERE s.status = 'system_error'),
+    COUNT(*) FILTER (WHERE s.status = 'upstream_error'),
+    AVG(s.rtt_ms) FILTER (WHERE s.status = 'success'),
+    MAX(s.rtt_ms) FILTER (WHERE s.status = 'success'),
+    MIN(s.rtt_ms) FILTER (WHERE s.status = 'success'),
+    AVG(s.jitter_ms) FILTER (WHERE s.jitter_ms IS NOT NULL),
+    MAX(s.jitter_ms) FILTER (WHERE s.jitter_ms IS NOT NULL)
+  FROM samples s
+  CROSS JOIN LATERAL (
+    SELECT to_timestamp(floor(extract(epoch FROM s.recorded_at) / v_bucket_seconds) * v_bucket_seconds) AS bucket_start
+  ) b
+  WHERE s.job_id = p_job_id
+    AND (v_from IS NULL OR s.recorded_at >= v_from)
+  GROUP BY b.bucket_start
+  ON CONFLICT (job_id, bucket_start) DO UPDATE
+  SET bucket_end = EXCLUDED.bucket_end,
+      sample_count = EXCLUDED.sample_count,
+      success_count = EXCLUDED.success_count,
+      missed_count = EXCLUDED.missed_count,
+      system_error_count = EXCLUDED.system_error_count,
+      upstream_error_count = EXCLUDED.upstream_error_count,
+      avg_rtt_ms = EXCLUDED.avg_rtt_ms,
+      max_rtt_ms = EXCLUDED.max_rtt_ms,
+      min_rtt_ms = EXCLUDED.min_rtt_ms,
+      avg_jitter_ms = EXCLUDED.avg_jitter_ms,
+      max_jitter_ms = EXCLUDED.max_jitter_ms,
+      updated_at = NOW()
+  -- Samples are append-only, so an unchanged count means an unchanged bucket;
+  -- skipping those keeps realtime quiet
+  WHERE sample_rollups.sample_count IS DISTINCT FROM EXCLUDED.sample_count;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Bring the rollups of running jobs up to date. Each job is rebuilt from its
+-- latest existing bucket onwards: samples are stamped on insert, so earlier
+-- buckets are closed and never change.
+CREATE OR REPLACE FUNCTION refresh_job_rollups(p_job_ids UUID[])
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job_id UUID;
+  v_since TIMESTAMPTZ;
+  v_total INT := 0;
+BEGIN
+  FOREACH v_job_id IN ARRAY p_job_ids LOOP
+    SELECT MAX(bucket_start) INTO v_since
+    FROM sample_rollups
+    WHERE job_id = v_job_id;
+
+    v_total := v_total + create_job_rollups(v_job_id, 5, v_since);
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$;
+
+-- Fill in upstream error counts on existing buckets
+UPDATE sample_rollups r
+SET upstream_error_count = c.upstream_errors
+FROM (
+  SELECT r2.id, COUNT(*) AS upstream_errors
+  FROM sample_rollups r2
+  JOIN samples s
+    ON s.job_id = r2.job_id
+   AND s.recorded_at >= r2.bucket_start
+   AND s.recorded_at < r2.bucket_end
+  WHERE s.status = 'upstream_error'
+  GROUP BY r2.id
+) c
+WHERE r.id = c.id;
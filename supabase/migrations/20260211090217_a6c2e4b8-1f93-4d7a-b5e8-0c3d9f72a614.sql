@@ -0,0 +1,131 @@
+-- Multi-resolution rollups: every job is rolled up into 1-minute, 5-minute
+-- and 1-hour buckets so charts can show a whole job at any length, and each
+-- bucket's p95 is computed from its raw samples (percentiles cannot be merged
+-- from finer buckets, so every tier reads the samples directly).
+
+ALTER TABLE sample_rollups
+  ADD COLUMN bucket_minutes INT NOT NULL DEFAULT 5 CHECK (bucket_minutes IN (1, 5, 60));
+
+ALTER TABLE sample_rollups DROP CONSTRAINT sample_rollups_job_id_bucket_start_key;
+ALTER TABLE sample_rollups ADD CONSTRAINT sample_rollups_job_tier_bucket_key UNIQUE (job_id, bucket_minutes, bucket_start);
+
+-- The unique constraint's index serves tier lookups
+DROP INDEX IF EXISTS idx_rollups_job_bucket;
+
+-- p_bucket_minutes now defaults to every tier
+DROP FUNCTION IF EXISTS create_job_rollups(UUID, INT, TIMESTAMPTZ);
+
+-- Roll up a job's samples into one tier (or all tiers when p_bucket_minutes is
+-- NULL), replacing existing buckets. With p_since, only buckets from the one
+-- containing p_since onwards are rebuilt.
+CREATE OR REPLACE FUNCTION create_job_rollups(
+  p_job_id UUID,
+  p_bucket_minutes INT DEFAULT NULL,
+  p_since TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tier INT;
+  v_bucket_seconds INT;
+  v_from TIMESTAMPTZ;
+  v_count INT;
+  v_total INT := 0;
+BEGIN
+  FOREACH v_tier IN ARRAY COALESCE(ARRAY[p_bucket_minutes], ARRAY[1, 5, 60]) LOOP
+    v_bucket_seconds := v_tier * 60;
+    v_from := NULL;
+    IF p_since IS NOT NULL THEN
+      v_from := to_timestamp(floor(extract(epoch FROM p_since) / v_bucket_seconds) * v_bucket_seconds);
+    END IF;
+
+    INSERT INTO sample_rollups (
+      job_id, bucket_minutes, bucket_start, bucket_end,
+      sample_count, success_count, missed_count, system_error_count, upstream_error_count,
+      avg_rtt_ms, max_rtt_ms, min_rtt_ms, p95_rtt_ms, avg_jitter_ms, max_jitter_ms
+    )
+    SELECT
+      p_job_id,
+      v_tier,
+      b.bucket_start,
+      b.bucket_start + make_interval(secs => v_bucket_seconds),
+      COUNT(*),
+      COUNT(*) FILTER (WHERE s.status = 'success'),
+      COUNT(*) FILTER (WHERE s.status = 'missed'),
+      COUNT(*) FILTER (WHERE s.status = 'system_error'),
+      COUNT(*) FILTER (WHERE s.status = 'upstream_error'),
+      AVG(s.rtt_ms) FILTER (WHERE s.status = 'success'),
+      MAX(s.rtt_ms) FILTER (WHERE s.status = 'success'),
+      MIN(s.rtt_ms) FILTER (WHERE s.status = 'success'),
+      percentile_cont(0.95) WITHIN GROUP (ORDER BY s.rtt_ms) FILTER (WHERE s.status = 'success' AND s.rtt_ms IS NOT NULL),
+      AVG(s.jitter_ms) FILTER (WHERE s.jitter_ms IS NOT NULL),
+      MAX(s.jitter_ms) FILTER (WHERE s.jitter_ms IS NOT NULL)
+    FROM samples s
+    CROSS JOIN LATERAL (
+      SELECT to_timestamp(floor(extract(epoch FROM s.recorded_at) / v_bucket_seconds) * v_bucket_seconds) AS bucket_start
+    ) b
+    WHERE s.job_id = p_job_id
+      AND (v_from IS NULL OR s.recorded_at >= v_from)
+    GROUP BY b.bucket_start
+    ON CONFLICT (job_id, bucket_minutes, bucket_start) DO UPDATE
+    SET bucket_end = EXCLUDED.bucket_end,
+        sample_count = EXCLUDED.sample_count,
+        success_count = EXCLUDED.success_count,
+        missed_count = EXCLUDED.missed_count,
+        system_error_count = EXCLUDED.system_error_count,
+        upstream_error_count = EXCLUDED.upstream_error_count,
+        avg_rtt_ms = EXCLUDED.avg_rtt_ms,
+        max_rtt_ms = EXCLUDED.max_rtt_ms,
+        min_rtt_ms = EXCLUDED.min_rtt_ms,
+        p95_rtt_ms = EXCLUDED.p95_rtt_ms,
+        avg_jitter_ms = EXCLUDED.avg_jitter_ms,
+        max_jitter_ms = EXCLUDED.max_jitter_ms,
+        updated_at = NOW()
+    -- Samples are append-only, so an unchanged count means an unchanged bucket;
+    -- skipping those keeps realtime quiet. The p95 check fills in buckets
+    -- written before p95 was computed.
+    WHERE (sample_rollups.sample_count, sample_rollups.p95_rtt_ms)
+      IS DISTINCT FROM (EXCLUDED.sample_count, EXCLUDED.p95_rtt_ms);
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_total := v_total + v_count;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$;
+
+-- Bring the rollups of running jobs up to date. Each tier of each job is
+-- rebuilt from its latest existing bucket onwards: samples are stamped on
+-- insert, so earlier buckets are closed and never change.
+CREATE OR REPLACE FUNCTION refresh_job_rollups(p_job_ids UUID[])
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job_id UUID;
+  v_tier INT;
+  v_since TIMESTAMPTZ;
+  v_total INT := 0;
+BEGIN
+  FOREACH v_job_id IN ARRAY p_job_ids LOOP
+    FOREACH v_tier IN ARRAY ARRAY[1, 5, 60] LOOP
+      SELECT MAX(bucket_start) INTO v_since
+      FROM sample_rollups
+      WHERE job_id = v_job_id AND bucket_minutes = v_tier;
+
+      v_total := v_total + create_job_rollups(v_job_id, v_tier, v_since);
+    END LOOP;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$;
+
+-- Add the new tiers and p95 values for every job that already has rollups
+SELECT create_job_rollups(job_id) FROM (SELECT DISTINCT job_id FROM sample_rollups) r;
@@ -0,0 +1,8 @@
+-- Operator pause: a paused job keeps its lease and its end time, but no
+-- replica probes it until it is resumed through the poller admin API.
+ALTER TABLE public.jobs
+  ADD COLUMN polling_paused_at TIMESTAMPTZ,
+  ADD COLUMN polling_paused_by TEXT;
+
+COMMENT ON COLUMN public.jobs.polling_paused_at IS 'Set while an operator has paused polling for the job';
+COMMENT ON COLUMN public.jobs.polling_paused_by IS 'Who paused polling, as recorded in audit_logs';
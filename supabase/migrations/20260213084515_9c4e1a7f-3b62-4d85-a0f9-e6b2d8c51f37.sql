@@ -0,0 +1,24 @@
+-- Job events: things that happened to a job during its run that are not
+-- samples or alerts, starting with the poller resolving a MAC-targeted job
+-- to its modem's current IP and noticing that IP change.
+CREATE TABLE public.job_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('target_resolved', 'target_ip_changed')),
+  details JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_job_events_job_created ON public.job_events(job_id, created_at);
+
+ALTER TABLE public.job_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all job events"
+ON public.job_events FOR SELECT
+USING (true);
+
+CREATE POLICY "System can insert job events"
+ON public.job_events FOR INSERT
+WITH CHECK (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.job_events;
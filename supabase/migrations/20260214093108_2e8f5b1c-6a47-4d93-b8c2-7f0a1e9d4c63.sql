@@ -0,0 +1,40 @@
+-- DOCSIS signal metrics: jobs can opt in to having the poller read the
+-- modem's RF levels from the CM Info API on a slower cadence than pings, so
+-- RF plant problems can be told apart from routing problems.
+
+ALTER TABLE public.jobs
+  ADD COLUMN collect_signal_metrics BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN signal_cadence_seconds INTEGER NOT NULL DEFAULT 300 CHECK (signal_cadence_seconds >= 60);
+
+-- One reading per collection. Power and SNR are averaged across the modem's
+-- bonded channels; codeword counters are the modem's cumulative totals, so
+-- consecutive readings give the errors in between (a drop means the modem
+-- rebooted and its counters reset).
+CREATE TABLE public.signal_samples (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  downstream_power_dbmv NUMERIC,
+  downstream_snr_db NUMERIC,
+  upstream_power_dbmv NUMERIC,
+  corrected_codewords BIGINT,
+  uncorrectable_codewords BIGINT,
+  downstream_channels INTEGER,
+  upstream_channels INTEGER,
+  -- Why the reading is empty, when the CM Info API could not be read
+  error TEXT
+);
+
+CREATE INDEX idx_signal_samples_job_recorded ON public.signal_samples(job_id, recorded_at);
+
+ALTER TABLE public.signal_samples ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all signal samples"
+ON public.signal_samples FOR SELECT
+USING (true);
+
+CREATE POLICY "System can insert signal samples"
+ON public.signal_samples FOR INSERT
+WITH CHECK (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.signal_samples;
@@ -0,0 +1,7 @@
+-- Automatic job failure: the poller moves a running job to 'failed' when it
+-- cannot produce meaningful samples for it, and records why.
+ALTER TABLE public.jobs
+  ADD COLUMN failed_at TIMESTAMPTZ,
+  ADD COLUMN failure_reason TEXT CHECK (failure_reason IN ('target_unresolved', 'system_errors', 'probe_backend_unreachable')),
+  -- Human-readable specifics, e.g. the error rate and window that tripped it
+  ADD COLUMN failure_detail TEXT;
@@ -0,0 +1,24 @@
+-- Why a sample was not a success. error_code is a fixed vocabulary the UI
+-- can label and count; error_detail keeps the raw message (an HTTP status,
+-- the socket error, ping's stderr). Both are null on successful samples.
+ALTER TABLE public.samples
+  ADD COLUMN error_code TEXT CHECK (error_code IN (
+    -- The target did not answer
+    'timeout',
+    'host_unreachable',
+    'connection_refused',
+    'connection_reset',
+    'connection_failed',
+    'http_error',
+    -- The Latency API did not give an answer
+    'api_http_error',
+    'api_timeout',
+    'api_unreachable',
+    'api_error',
+    'api_circuit_open',
+    -- The probe could not be sent
+    'no_target',
+    'unsupported_probe',
+    'probe_failed'
+  )),
+  ADD COLUMN error_detail TEXT;
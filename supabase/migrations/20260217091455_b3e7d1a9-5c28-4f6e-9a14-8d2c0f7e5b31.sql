@@ -0,0 +1,145 @@
+-- When a probe actually happened. recorded_at is the insert time, which lags
+-- behind by up to a flush interval (longer while the poller retries a failed
+-- flush), so the executors stamp the probe themselves: probe_sent_at when the
+-- first packet or request went out, probe_responded_at when the last reply
+-- came back (null when nothing did). Ordering and bucketing use probe_sent_at.
+ALTER TABLE public.samples
+  ADD COLUMN probe_sent_at TIMESTAMPTZ,
+  ADD COLUMN probe_responded_at TIMESTAMPTZ;
+
+-- Earlier samples only have their insert time
+UPDATE public.samples SET probe_sent_at = recorded_at WHERE probe_sent_at IS NULL;
+
+ALTER TABLE public.samples
+  ALTER COLUMN probe_sent_at SET DEFAULT now(),
+  ALTER COLUMN probe_sent_at SET NOT NULL,
+  ADD CONSTRAINT samples_probe_responded_after_sent
+    CHECK (probe_responded_at IS NULL OR probe_responded_at >= probe_sent_at);
+
+CREATE INDEX idx_samples_job_probe_sent ON public.samples(job_id, probe_sent_at DESC);
+
+-- Roll up a job's samples into one tier (or all tiers when p_bucket_minutes is
+-- NULL), replacing existing buckets. With p_since, only buckets from the one
+-- containing p_since onwards are rebuilt. Samples fall in the bucket of their
+-- probe_sent_at.
+CREATE OR REPLACE FUNCTION create_job_rollups(
+  p_job_id UUID,
+  p_bucket_minutes INT DEFAULT NULL,
+  p_since TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tier INT;
+  v_bucket_seconds INT;
+  v_from TIMESTAMPTZ;
+  v_count INT;
+  v_total INT := 0;
+BEGIN
+  FOREACH v_tier IN ARRAY COALESCE(ARRAY[p_bucket_minutes], ARRAY[1, 5, 60]) LOOP
+    v_bucket_seconds := v_tier * 60;
+    v_from := NULL;
+    IF p_since IS NOT NULL THEN
+      v_from := to_timestamp(floor(extract(epoch FROM p_since) / v_bucket_seconds) * v_bucket_seconds);
+    END IF;
+
+    INSERT INTO sample_rollups (
+      job_id, bucket_minutes, bucket_start, bucket_end,
+      sample_count, success_count, missed_count, system_error_count, upstream_error_count,
+      avg_rtt_ms, max_rtt_ms, min_rtt_ms, p95_rtt_ms, avg_jitter_ms, max_jitter_ms
+    )
+    SELECT
+      p_job_id,
+      v_tier,
+      b.bucket_start,
+      b.bucket_start + make_interval(secs => v_bucket_seconds),
+      COUNT(*),
+      COUNT(*) FILTER (WHERE s.status = 'success'),
+      COUNT(*) FILTER (WHERE s.status = 'missed'),
+      COUNT(*) FILTER (WHERE s.status = 'system_error'),
+      COUNT(*) FILTER (WHERE s.status = 'upstream_error'),
+      AVG(s.rtt_ms) FILTER (WHERE s.status = 'success'),
+      MAX(s.rtt_ms) FILTER (WHERE s.status = 'success'),
+      MIN(s.rtt_ms) FILTER (WHERE s.status = 'success'),
+      percentile_cont(0.95) WITHIN GROUP (ORDER BY s.rtt_ms) FILTER (WHERE s.status = 'success' AND s.rtt_ms IS NOT NULL),
+      AVG(s.jitter_ms) FILTER (WHERE s.jitter_ms IS NOT NULL),
+      MAX(s.jitter_ms) FILTER (WHERE s.jitter_ms IS NOT NULL)
+    FROM samples s
+    CROSS JOIN LATERAL (
+      SELECT to_timestamp(floor(extract(epoch FROM s.probe_sent_at) / v_bucket_seconds) * v_bucket_seconds) AS bucket_start
+    ) b
+    WHERE s.job_id = p_job_id
+      AND (v_from IS NULL OR s.probe_sent_at >= v_from)
+    GROUP BY b.bucket_start
+    ON CONFLICT (job_id, bucket_minutes, bucket_start) DO UPDATE
+    SET bucket_end = EXCLUDED.bucket_end,
+        sample_count = EXCLUDED.sample_count,
+        success_count = EXCLUDED.success_count,
+        missed_count = EXCLUDED.missed_count,
+        system_error_count = EXCLUDED.system_error_count,
+        upstream_error_count = EXCLUDED.upstream_error_count,
+        avg_rtt_ms = EXCLUDED.avg_rtt_ms,
+        max_rtt_ms = EXCLUDED.max_rtt_ms,
+        min_rtt_ms = EXCLUDED.min_rtt_ms,
+        p95_rtt_ms = EXCLUDED.p95_rtt_ms,
+        avg_jitter_ms = EXCLUDED.avg_jitter_ms,
+        max_jitter_ms = EXCLUDED.max_jitter_ms,
+        updated_at = NOW()
+    -- Samples are append-only, so an unchanged count means an unchanged bucket;
+    -- skipping those keeps realtime quiet. The p95 check fills in buckets
+    -- written before p95 was computed.
+    WHERE (sample_rollups.sample_count, sample_rollups.p95_rtt_ms)
+      IS DISTINCT FROM (EXCLUDED.sample_count, EXCLUDED.p95_rtt_ms);
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_total := v_total + v_count;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$;
+
+-- Bring the rollups of running jobs up to date. Each tier of each job is
+-- rebuilt from its latest existing bucket onwards, or from further back when
+-- samples inserted since the tier was last written were probed earlier than
+-- that (a flush that had to be retried). The minute of overlap covers samples
+-- committed while the previous refresh ran.
+CREATE OR REPLACE FUNCTION refresh_job_rollups(p_job_ids UUID[])
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job_id UUID;
+  v_tier INT;
+  v_since TIMESTAMPTZ;
+  v_written_at TIMESTAMPTZ;
+  v_late_since TIMESTAMPTZ;
+  v_total INT := 0;
+BEGIN
+  FOREACH v_job_id IN ARRAY p_job_ids LOOP
+    FOREACH v_tier IN ARRAY ARRAY[1, 5, 60] LOOP
+      SELECT MAX(bucket_start), MAX(updated_at) INTO v_since, v_written_at
+      FROM sample_rollups
+      WHERE job_id = v_job_id AND bucket_minutes = v_tier;
+
+      -- No buckets yet means a full build
+      IF v_since IS NOT NULL THEN
+        SELECT MIN(probe_sent_at) INTO v_late_since
+        FROM samples
+        WHERE job_id = v_job_id AND recorded_at > v_written_at - INTERVAL '1 minute';
+
+        v_since := LEAST(v_since, v_late_since);
+      END IF;
+
+      v_total := v_total + create_job_rollups(v_job_id, v_tier, v_since);
+    END LOOP;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$;
@@ -0,0 +1,18 @@
+-- Simulated jobs follow admin-defined scenarios from admin_config
+-- (simulation_scenarios). simulator_scenario now holds the scenario's id, and
+-- simulator_config a copy of its definition taken when the job was created,
+-- so editing a scenario never changes a job that used it. Jobs from before
+-- keep their built-in scenario name and no config.
+ALTER TABLE public.jobs DROP CONSTRAINT IF EXISTS jobs_simulator_scenario_check;
+
+ALTER TABLE public.jobs ADD COLUMN simulator_config JSONB;
+
+INSERT INTO public.admin_config (key, value) VALUES
+  ('simulation_scenarios', jsonb_build_object('scenarios', '[
+    {"id": "healthy", "name": "Healthy", "description": "Steady 15-45 ms with the odd lost ping", "seed": 1001, "rtt": {"distribution": "uniform", "mean_ms": 30, "spread_ms": 15}, "loss_percent": 1, "system_error_percent": 1, "outages": [], "latency_steps": [], "flapping": null},
+    {"id": "intermittent", "name": "Intermittent", "description": "Five bad minutes in every twenty, with half the pings lost", "seed": 2002, "rtt": {"distribution": "uniform", "mean_ms": 40, "spread_ms": 20}, "loss_percent": 5, "system_error_percent": 1, "outages": [], "latency_steps": [], "flapping": {"start_minute": 0, "period_minutes": 20, "down_minutes": 5, "loss_percent": 50}},
+    {"id": "offline", "name": "Offline", "description": "Answers for three minutes, then goes almost silent", "seed": 3003, "rtt": {"distribution": "uniform", "mean_ms": 40, "spread_ms": 15}, "loss_percent": 0, "system_error_percent": 1, "outages": [{"start_minute": 3, "duration_minutes": null, "loss_percent": 95}], "latency_steps": [], "flapping": null},
+    {"id": "route-change", "name": "Route change", "description": "Latency jumps by 80 ms after 30 minutes and stays there", "seed": 4004, "rtt": {"distribution": "normal", "mean_ms": 25, "spread_ms": 5}, "loss_percent": 0.5, "system_error_percent": 0, "outages": [], "latency_steps": [{"at_minute": 30, "delta_ms": 80}], "flapping": null},
+    {"id": "scheduled-outage", "name": "Scheduled outage", "description": "Drops off completely for 10 minutes, 15 minutes in", "seed": 5005, "rtt": {"distribution": "normal", "mean_ms": 30, "spread_ms": 8}, "loss_percent": 0.5, "system_error_percent": 0, "outages": [{"start_minute": 15, "duration_minutes": 10, "loss_percent": 100}], "latency_steps": [], "flapping": null}
+  ]'::jsonb))
+ON CONFLICT (key) DO NOTHING;
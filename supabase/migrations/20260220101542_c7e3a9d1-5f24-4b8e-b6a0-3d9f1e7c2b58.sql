@@ -0,0 +1,11 @@
+-- Replays: a simulated job that plays back a finished job's samples,
+-- replay_speed times faster. The poller reads the original's samples and
+-- target events; the replay's cadence and duration are the original's divided
+-- by the speed, so slot n of the replay is slot n of the original.
+ALTER TABLE public.jobs
+  ADD COLUMN replay_of_job_id UUID REFERENCES public.jobs(id) ON DELETE SET NULL,
+  ADD COLUMN replay_speed INTEGER CHECK (replay_speed >= 1),
+  ADD CONSTRAINT jobs_replay_is_simulated
+    CHECK (replay_of_job_id IS NULL OR monitoring_mode = 'simulated');
+
+CREATE INDEX idx_jobs_replay_of ON public.jobs(replay_of_job_id) WHERE replay_of_job_id IS NOT NULL;
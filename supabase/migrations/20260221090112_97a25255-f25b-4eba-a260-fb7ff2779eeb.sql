@@ -0,0 +1,7 @@
+-- The lease RPCs are for the poller alone. SECURITY DEFINER functions are
+-- executable by everyone by default, which would let any signed-in (or
+-- anonymous) caller take or drop job leases and stall polling.
+REVOKE EXECUTE ON FUNCTION sync_job_leases(TEXT, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_job_leases(TEXT, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION sync_job_leases(TEXT, INT) TO service_role;
+GRANT EXECUTE ON FUNCTION release_job_leases(TEXT, UUID[]) TO service_role;
@@ -0,0 +1,7 @@
+-- Completion emails are queued by the poller and claimed by the
+-- send-completion-email edge function, both with the service role key. Nobody
+-- else may queue or claim one.
+REVOKE EXECUTE ON FUNCTION queue_completion_email(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_completion_email(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION queue_completion_email(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_completion_email(UUID) TO service_role;
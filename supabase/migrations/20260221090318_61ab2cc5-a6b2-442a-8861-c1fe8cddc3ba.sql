@@ -0,0 +1,7 @@
+-- Job summaries are maintained by the samples insert trigger, which runs as
+-- the function owner. Callers must not be able to fold arbitrary samples into
+-- a job's summary or rebuild it themselves.
+REVOKE EXECUTE ON FUNCTION accumulate_job_summary(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION rebuild_job_summary(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION accumulate_job_summary(UUID, UUID[]) TO service_role;
+GRANT EXECUTE ON FUNCTION rebuild_job_summary(UUID) TO service_role;
@@ -0,0 +1,4 @@
+-- Heartbeats are written by the poller only; anyone else could make a stalled
+-- job look alive.
+REVOKE EXECUTE ON FUNCTION record_job_heartbeats(UUID[], TIMESTAMPTZ[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_job_heartbeats(UUID[], TIMESTAMPTZ[]) TO service_role;
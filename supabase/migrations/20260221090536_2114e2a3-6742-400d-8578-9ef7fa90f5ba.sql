@@ -0,0 +1,6 @@
+-- Rollups are built by the poller only; callers must not be able to rebuild
+-- or reset another job's rollups.
+REVOKE EXECUTE ON FUNCTION create_job_rollups(UUID, INT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_job_rollups(UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_job_rollups(UUID, INT, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION refresh_job_rollups(UUID[]) TO service_role;
@@ -0,0 +1,104 @@
+-- A replica must not hand a job to another while samples it took for that job
+-- are still in its write-ahead buffer, or both store samples for the job at
+-- once and its summary folds them out of order. sync_job_leases now takes the
+-- jobs the caller still has buffered samples for and never sheds those when
+-- rebalancing; they are shed on a later sync, once the samples are stored.
+DROP FUNCTION IF EXISTS sync_job_leases(TEXT, INT);
+
+-- Heartbeat, renew, rebalance and claim leases for one replica. Every running
+-- job is leased, whatever its monitoring mode.
+-- Each replica targets ceil(running jobs / live replicas) leases, so scaling
+-- the deployment up or down rebalances work within a few sync intervals.
+CREATE OR REPLACE FUNCTION sync_job_leases(
+  p_owner_id TEXT,
+  p_lease_seconds INT DEFAULT 30,
+  p_keep_job_ids UUID[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ttl INTERVAL := (p_lease_seconds || ' seconds')::interval;
+  v_live_replicas INT;
+  v_job_count INT;
+  v_target INT;
+  v_held INT;
+BEGIN
+  -- Heartbeat this replica and forget replicas that stopped heartbeating
+  INSERT INTO poller_replicas (replica_id)
+  VALUES (p_owner_id)
+  ON CONFLICT (replica_id) DO UPDATE SET last_heartbeat_at = NOW();
+
+  DELETE FROM poller_replicas WHERE last_heartbeat_at < NOW() - v_ttl;
+
+  SELECT COUNT(*) INTO v_live_replicas FROM poller_replicas;
+
+  -- Drop leases on jobs that are no longer running
+  DELETE FROM job_leases l
+  USING jobs j
+  WHERE l.job_id = j.id
+    AND l.owner_id = p_owner_id
+    AND j.status <> 'running';
+
+  -- Renew leases we still hold
+  UPDATE job_leases
+  SET renewed_at = NOW(), expires_at = NOW() + v_ttl
+  WHERE owner_id = p_owner_id;
+
+  SELECT COUNT(*) INTO v_job_count
+  FROM jobs
+  WHERE status = 'running';
+
+  v_target := CEIL(v_job_count::numeric / GREATEST(v_live_replicas, 1))::int;
+
+  SELECT COUNT(*) INTO v_held FROM job_leases WHERE owner_id = p_owner_id;
+
+  IF v_held > v_target THEN
+    -- Shed the most recently acquired excess so other replicas can claim it,
+    -- but never a job the replica still has unstored samples for
+    DELETE FROM job_leases
+    WHERE job_id IN (
+      SELECT job_id FROM job_leases
+      WHERE owner_id = p_owner_id
+        AND NOT job_id = ANY(COALESCE(p_keep_job_ids, '{}'))
+      ORDER BY acquired_at DESC
+      LIMIT v_held - v_target
+    );
+  ELSIF v_held < v_target THEN
+    -- Claim unowned or expired jobs, oldest first
+    INSERT INTO job_leases (job_id, owner_id, expires_at)
+    SELECT j.id, p_owner_id, NOW() + v_ttl
+    FROM jobs j
+    LEFT JOIN job_leases l ON l.job_id = j.id
+    WHERE j.status = 'running'
+      AND (l.job_id IS NULL OR l.expires_at < NOW())
+    ORDER BY j.started_at
+    LIMIT v_target - v_held
+    ON CONFLICT (job_id) DO UPDATE
+      SET owner_id = EXCLUDED.owner_id,
+          acquired_at = NOW(),
+          renewed_at = NOW(),
+          expires_at = EXCLUDED.expires_at
+      WHERE job_leases.expires_at < NOW();
+  END IF;
+
+  RETURN jsonb_build_object(
+    'live_replicas', v_live_replicas,
+    'target_share', v_target,
+    'leases', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'job_id', job_id,
+        'acquired_at', acquired_at,
+        'expires_at', expires_at
+      ))
+      FROM job_leases
+      WHERE owner_id = p_owner_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION sync_job_leases(TEXT, INT, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION sync_job_leases(TEXT, INT, UUID[]) TO service_role;
@@ -0,0 +1,24 @@
+-- Running summaries fold each batch of samples in as it is inserted, and
+-- batches from a retried flush or a replayed sample buffer can arrive after
+-- later ones. Counts and RTT aggregates do not care, but miss streaks, outage
+-- counts and in_outage do, so while a job runs they are approximate. Rebuild
+-- the summary in sequence order once the job stops running, whichever path
+-- stopped it, so the final figures match rebuild_job_summary exactly.
+
+CREATE OR REPLACE FUNCTION public.rebuild_finished_job_summary()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM rebuild_job_summary(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER jobs_rebuild_summary_on_finish
+  AFTER UPDATE OF status ON public.jobs
+  FOR EACH ROW
+  WHEN (OLD.status = 'running' AND NEW.status <> 'running')
+  EXECUTE FUNCTION public.rebuild_finished_job_summary();
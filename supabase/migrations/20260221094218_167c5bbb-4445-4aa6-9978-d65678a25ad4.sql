@@ -0,0 +1,52 @@
+-- Coverage of a finished job, stored when it stops running so the completion
+-- email and the job page report the same figure. It is measured against the
+-- whole requested duration, so a job cancelled or failed halfway reports half
+-- its window as unmonitored.
+
+ALTER TABLE public.jobs
+  ADD COLUMN coverage_percent NUMERIC,
+  ADD COLUMN monitored_minutes INTEGER;
+
+CREATE OR REPLACE FUNCTION public.record_job_coverage(p_job_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_expected INTEGER;
+  v_monitored INTEGER;
+BEGIN
+  SELECT GREATEST(1, CEIL(duration_minutes * 60.0 / cadence_seconds))::INTEGER, total_samples
+  INTO v_expected, v_monitored
+  FROM jobs
+  WHERE id = p_job_id;
+
+  v_monitored := LEAST(v_monitored, v_expected);
+
+  UPDATE jobs SET
+    coverage_percent = v_monitored * 100.0 / v_expected,
+    monitored_minutes = ROUND(v_monitored * cadence_seconds / 60.0)
+  WHERE id = p_job_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_job_coverage(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_job_coverage(UUID) TO service_role;
+
+-- Rebuild the summary first, so coverage counts every stored sample
+CREATE OR REPLACE FUNCTION public.rebuild_finished_job_summary()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM rebuild_job_summary(NEW.id);
+  PERFORM record_job_coverage(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+-- Backfill jobs that have already finished
+SELECT record_job_coverage(id) FROM public.jobs WHERE status <> 'running';
@@ -0,0 +1,119 @@
+-- Job heartbeats ride on the summary update. Every stored batch of samples
+-- already updates each of its jobs once, through the summary trigger, so that
+-- update now also moves last_ping_at to the newest probe in the batch instead
+-- of a second per-flush write through record_job_heartbeats. A timestamp never
+-- moves backwards, so a late or replayed batch cannot hide a newer ping.
+
+CREATE OR REPLACE FUNCTION public.accumulate_job_summary(p_job_id UUID, p_sample_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job jobs%ROWTYPE;
+  v_sample samples;
+  v_sent INT;
+  v_lost INT;
+  v_replies INT;
+  v_bucket TEXT;
+  v_last_ping_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_job FROM jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  FOR v_sample IN
+    SELECT * FROM samples
+    WHERE id = ANY(p_sample_ids)
+    ORDER BY sequence_number
+  LOOP
+    v_job.total_samples := COALESCE(v_job.total_samples, 0) + 1;
+    v_last_ping_at := GREATEST(v_last_ping_at, v_sample.probe_sent_at);
+
+    -- Burst samples carry their own packet counts; a single ping is one packet,
+    -- unless it failed on our side or upstream and was never sent
+    v_sent := COALESCE(
+      v_sample.packets_sent,
+      CASE WHEN v_sample.status IN ('system_error', 'upstream_error') THEN 0 ELSE 1 END
+    );
+    v_lost := COALESCE(v_sample.packets_lost, CASE WHEN v_sample.status = 'missed' THEN 1 ELSE 0 END);
+    v_job.packets_sent := v_job.packets_sent + v_sent;
+    v_job.packets_lost := v_job.packets_lost + v_lost;
+
+    IF v_sample.status = 'success' THEN
+      v_job.success_count := v_job.success_count + 1;
+      v_job.current_miss_streak := 0;
+      v_job.in_outage := false;
+
+      IF v_sample.rtt_ms IS NOT NULL THEN
+        v_replies := GREATEST(1, v_sent - v_lost);
+        v_job.rtt_sum_ms := v_job.rtt_sum_ms + v_sample.rtt_ms * v_replies;
+        v_job.rtt_replies := v_job.rtt_replies + v_replies;
+        v_job.max_rtt_ms := GREATEST(v_job.max_rtt_ms, COALESCE(v_sample.rtt_max_ms, v_sample.rtt_ms));
+
+        v_bucket := rtt_sketch_bucket(v_sample.rtt_ms)::text;
+        v_job.rtt_sketch := jsonb_set(
+          v_job.rtt_sketch,
+          ARRAY[v_bucket],
+          to_jsonb(COALESCE((v_job.rtt_sketch ->> v_bucket)::int, 0) + 1)
+        );
+      END IF;
+    ELSIF v_sample.status = 'missed' THEN
+      v_job.missed_count := v_job.missed_count + 1;
+      v_job.current_miss_streak := v_job.current_miss_streak + 1;
+      v_job.longest_miss_streak := GREATEST(v_job.longest_miss_streak, v_job.current_miss_streak);
+
+      -- 5+ consecutive misses is one outage event until a success ends it
+      IF NOT v_job.in_outage AND v_job.current_miss_streak >= 5 THEN
+        v_job.outage_event_count := v_job.outage_event_count + 1;
+        v_job.in_outage := true;
+      END IF;
+    ELSIF v_sample.status = 'upstream_error' THEN
+      -- Upstream outages say nothing about the target, so streaks carry over
+      v_job.upstream_error_count := v_job.upstream_error_count + 1;
+    ELSE
+      -- System errors don't reset streaks
+      v_job.system_error_count := v_job.system_error_count + 1;
+    END IF;
+
+    IF v_sample.jitter_ms IS NOT NULL THEN
+      v_job.jitter_sum_ms := v_job.jitter_sum_ms + v_sample.jitter_ms;
+      v_job.jitter_count := v_job.jitter_count + 1;
+      v_job.max_jitter_ms := GREATEST(v_job.max_jitter_ms, v_sample.jitter_ms);
+    END IF;
+  END LOOP;
+
+  UPDATE jobs SET
+    total_samples = v_job.total_samples,
+    success_count = v_job.success_count,
+    missed_count = v_job.missed_count,
+    system_error_count = v_job.system_error_count,
+    upstream_error_count = v_job.upstream_error_count,
+    packets_sent = v_job.packets_sent,
+    packets_lost = v_job.packets_lost,
+    packet_loss_percent = CASE WHEN v_job.packets_sent > 0
+      THEN v_job.packets_lost * 100.0 / v_job.packets_sent END,
+    rtt_sum_ms = v_job.rtt_sum_ms,
+    rtt_replies = v_job.rtt_replies,
+    avg_rtt_ms = CASE WHEN v_job.rtt_replies > 0
+      THEN v_job.rtt_sum_ms / v_job.rtt_replies END,
+    max_rtt_ms = v_job.max_rtt_ms,
+    rtt_sketch = v_job.rtt_sketch,
+    p95_rtt_ms = rtt_sketch_quantile(v_job.rtt_sketch, 0.95),
+    jitter_sum_ms = v_job.jitter_sum_ms,
+    jitter_count = v_job.jitter_count,
+    avg_jitter_ms = CASE WHEN v_job.jitter_count > 0
+      THEN v_job.jitter_sum_ms / v_job.jitter_count END,
+    max_jitter_ms = v_job.max_jitter_ms,
+    current_miss_streak = v_job.current_miss_streak,
+    longest_miss_streak = v_job.longest_miss_streak,
+    outage_event_count = v_job.outage_event_count,
+    in_outage = v_job.in_outage,
+    last_ping_at = GREATEST(v_job.last_ping_at, v_last_ping_at)
+  WHERE id = p_job_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.record_job_heartbeats(UUID[], TIMESTAMPTZ[]);